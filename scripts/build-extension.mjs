@@ -16,14 +16,29 @@ const buildOptions = {
   treeShaking: true,
 };
 
+// Token Acres Remote, the workspace half packaged from remote/
+const remoteBuildOptions = {
+  ...buildOptions,
+  entryPoints: ['src/remote/extension.ts'],
+  outfile: 'remote/dist/extension.js',
+};
+
+// Team farm sync server, run with plain Node
+const serverBuildOptions = {
+  ...buildOptions,
+  entryPoints: ['src/server/sync-server.ts'],
+  outfile: 'dist/server/sync-server.js',
+  external: [],
+};
+
 async function build() {
   try {
     if (isWatch) {
-      const ctx = await esbuild.context(buildOptions);
+      const contexts = await Promise.all([buildOptions, remoteBuildOptions, serverBuildOptions].map(options => esbuild.context(options)));
       console.log('🔧 Watching extension files...');
-      await ctx.watch();
+      await Promise.all(contexts.map(ctx => ctx.watch()));
     } else {
-      await esbuild.build(buildOptions);
+      await Promise.all([buildOptions, remoteBuildOptions, serverBuildOptions].map(options => esbuild.build(options)));
       console.log('✅ Extension build complete');
     }
   } catch (error) {
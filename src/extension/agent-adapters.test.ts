@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { AgentAdapterRegistry, createConfigAdapter, parseCount } from './agent-adapters';
+import { AgentOutputStats } from './types';
+
+function parse(adapterId: string, lines: string[], registry = new AgentAdapterRegistry()): AgentOutputStats {
+  const adapter = registry.get(adapterId)!;
+  const stats: AgentOutputStats = { turns: 0 };
+  lines.forEach(line => adapter.parseLine?.(line, stats));
+  return stats;
+}
+
+describe('parseCount', () => {
+  it('reads plain, comma-separated and suffixed counts', () => {
+    expect(parseCount('42')).toBe(42);
+    expect(parseCount('1,234')).toBe(1234);
+    expect(parseCount('12.3k')).toBe(12_300);
+    expect(parseCount('1.2M')).toBe(1_200_000);
+  });
+
+  it('treats garbage as zero', () => {
+    expect(parseCount('n/a')).toBe(0);
+  });
+});
+
+describe('built-in adapters', () => {
+  it('reads the Claude Code exit summary', () => {
+    const stats = parse('claude', [
+      'Total cost:            $0.45',
+      'Usage by model:',
+      '    claude-sonnet:  12.3k input, 1.2k output, 45.6k cache read, 3.4k cache write',
+    ]);
+    expect(stats.costUsd).toBe(0.45);
+    expect(stats.model).toBe('claude-sonnet');
+    expect(stats.tokens).toEqual({ input: 12_300, output: 1_200, cacheRead: 45_600, cacheWrite: 3_400 });
+  });
+
+  it('adds up Aider usage and cost per reply', () => {
+    const stats = parse('aider', [
+      'Main model: claude-3-5-sonnet-20241022 with diff edit format',
+      'Tokens: 2.3k sent, 150 received. Cost: $0.01 message, $0.01 session.',
+      'Tokens: 4.1k sent, 1.1k cache hit, 300 received. Cost: $0.02 message, $0.03 session.',
+    ]);
+    expect(stats.turns).toBe(2);
+    expect(stats.model).toBe('claude-3-5-sonnet-20241022');
+    expect(stats.tokens).toEqual({ input: 6_400, output: 450, cacheRead: 1_100 });
+    expect(stats.costUsd).toBeCloseTo(0.03);
+  });
+
+  it('reads the Codex token usage line', () => {
+    const stats = parse('codex', ['Token usage: total=12,345 input=10,000 (+ 8,000 cached) output=2,345']);
+    expect(stats.tokens).toEqual({ input: 10_000, output: 2_345, cacheRead: 8_000 });
+  });
+});
+
+describe('config adapters', () => {
+  const registry = new AgentAdapterRegistry();
+  registry.register(createConfigAdapter({
+    id: 'MyAgent',
+    match: 'my-agent',
+    turn: '^> ',
+    inputTokens: 'in: ([\\d.]+k?)',
+    outputTokens: 'out: ([\\d.]+k?)',
+    cost: 'spent \\$([\\d.]+)',
+    failure: 'FATAL',
+  }), 'first');
+
+  it('takes priority over built-ins and counts with the configured patterns', () => {
+    expect(registry.match('my-agent --claude')?.id).toBe('myagent');
+    const stats = parse('myagent', ['> fix the bug', 'in: 1.5k out: 200', 'spent $0.10', '> again', 'spent $0.05'], registry);
+    expect(stats.turns).toBe(2);
+    expect(stats.tokens).toEqual({ input: 1_500, output: 200 });
+    expect(stats.costUsd).toBeCloseTo(0.15);
+    expect(stats.failed).toBeUndefined();
+  });
+
+  it('marks failed runs unsuccessful', () => {
+    const stats = parse('myagent', ['FATAL: out of credits'], registry);
+    expect(registry.classifySuccess(registry.get('myagent'), 0, stats)).toBe(false);
+  });
+
+  it('rejects entries without an id or match pattern', () => {
+    expect(() => createConfigAdapter({ id: '', match: 'x' })).toThrow();
+  });
+});
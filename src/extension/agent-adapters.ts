@@ -0,0 +1,244 @@
+// Agent adapters: how Token Acres recognises each coding agent and reads its output
+
+import { AgentOutputStats, TokenUsage } from './types';
+
+export interface AgentAdapter {
+  id: string;             // agent type, used for grading baselines
+  displayName: string;
+  patterns: RegExp[];     // matched against terminal names, command lines and process commands
+  promptSignature?: RegExp; // output shown when the agent is back at its input prompt
+  /** Fold one line of ANSI-stripped output into the running stats. */
+  parseLine?(line: string, stats: AgentOutputStats): void;
+  /** Whether a finished run counts as a success (default: exit code 0 or unknown, nothing failed). */
+  classifySuccess?(exitCode: number | undefined, stats: AgentOutputStats): boolean;
+}
+
+/**
+ * Shape of an entry in the `tokenacres.customAdapters` setting. Every
+ * pattern is a regular expression string; token/cost patterns capture the
+ * number in their first group (`12.3k` and `1.2M` suffixes are understood).
+ */
+export interface CustomAdapterConfig {
+  id: string;
+  name?: string;
+  match: string;
+  prompt?: string;
+  turn?: string;
+  inputTokens?: string;
+  outputTokens?: string;
+  cost?: string;
+  model?: string;
+  failure?: string;
+}
+
+// "12.3k input, 1.2k output, 45.6k cache read, 3.4k cache write" (Claude Code and Copilot CLI exit summaries)
+const USAGE_BY_MODEL_PATTERN = /^\s*([\w.-]+):?\s+([\d.]+[kKmM]?) input, ([\d.]+[kKmM]?) output(?:, ([\d.]+[kKmM]?) cache read)?(?:, ([\d.]+[kKmM]?) cache write)?/;
+
+/**
+ * Parse a count such as `1,234`, `12.3k` or `1.2M`.
+ */
+export function parseCount(value: string): number {
+  const number = parseFloat(value.replace(/,/g, ''));
+  if (isNaN(number)) return 0;
+  const suffix = value.slice(-1).toLowerCase();
+  if (suffix === 'k') return Math.round(number * 1_000);
+  if (suffix === 'm') return Math.round(number * 1_000_000);
+  return Math.round(number);
+}
+
+function addTokens(stats: AgentOutputStats, usage: Partial<TokenUsage>) {
+  const tokens = stats.tokens ??= { input: 0, output: 0 };
+  tokens.input += usage.input ?? 0;
+  tokens.output += usage.output ?? 0;
+  if (usage.cacheRead) tokens.cacheRead = (tokens.cacheRead ?? 0) + usage.cacheRead;
+  if (usage.cacheWrite) tokens.cacheWrite = (tokens.cacheWrite ?? 0) + usage.cacheWrite;
+}
+
+function parseUsageByModel(line: string, stats: AgentOutputStats) {
+  const match = USAGE_BY_MODEL_PATTERN.exec(line);
+  if (!match) return;
+  stats.model ??= match[1];
+  addTokens(stats, {
+    input: parseCount(match[2]),
+    output: parseCount(match[3]),
+    cacheRead: match[4] ? parseCount(match[4]) : undefined,
+    cacheWrite: match[5] ? parseCount(match[5]) : undefined,
+  });
+}
+
+const claudeAdapter: AgentAdapter = {
+  id: 'claude',
+  displayName: 'Claude Code',
+  patterns: [/claude/i],
+  promptSignature: /\? for shortcuts/,
+  parseLine(line, stats) {
+    // Exit summary: "Total cost: $0.45" then "Usage by model:" rows
+    const cost = /Total cost:\s+\$([\d.]+)/.exec(line);
+    if (cost) {
+      stats.costUsd = parseFloat(cost[1]);
+      return;
+    }
+    parseUsageByModel(line, stats);
+  },
+};
+
+const aiderAdapter: AgentAdapter = {
+  id: 'aider',
+  displayName: 'Aider',
+  patterns: [/aider/i],
+  promptSignature: /(?:^|\n)(?:[\w-]+)?> $/,
+  parseLine(line, stats) {
+    // After every reply: "Tokens: 2.3k sent, 150 received. Cost: $0.01 message, $0.05 session."
+    const usage = /Tokens: ([\d.]+[kKmM]?) sent(?:, ([\d.]+[kKmM]?) cache write)?(?:, ([\d.]+[kKmM]?) cache hit)?, ([\d.]+[kKmM]?) received/.exec(line);
+    if (usage) {
+      stats.turns++;
+      addTokens(stats, {
+        input: parseCount(usage[1]),
+        cacheWrite: usage[2] ? parseCount(usage[2]) : undefined,
+        cacheRead: usage[3] ? parseCount(usage[3]) : undefined,
+        output: parseCount(usage[4]),
+      });
+      const cost = /Cost: \$([\d.]+) message/.exec(line);
+      if (cost) stats.costUsd = (stats.costUsd ?? 0) + parseFloat(cost[1]);
+      return;
+    }
+
+    // Startup banner: "Main model: claude-3-5-sonnet-20241022 with diff edit format"
+    const model = /^(?:Main )?[Mm]odel: (\S+)/.exec(line);
+    if (model) stats.model ??= model[1];
+  },
+};
+
+const codexAdapter: AgentAdapter = {
+  id: 'codex',
+  displayName: 'OpenAI Codex',
+  patterns: [/codex/i],
+  parseLine(line, stats) {
+    // Exit summary: "Token usage: total=12345 input=10000 (+ 8000 cached) output=2345"
+    const usage = /Token usage: .*?input=([\d,]+)(?: \(\+ ([\d,]+) cached\))? output=([\d,]+)/.exec(line);
+    if (usage) {
+      const num = (v?: string) => (v ? parseInt(v.replace(/,/g, ''), 10) : undefined);
+      addTokens(stats, { input: num(usage[1]), cacheRead: num(usage[2]), output: num(usage[3]) });
+      return;
+    }
+    const model = /^model: (\S+)/.exec(line.trim());
+    if (model) stats.model ??= model[1];
+  },
+};
+
+const copilotAdapter: AgentAdapter = {
+  id: 'copilot',
+  displayName: 'GitHub Copilot CLI',
+  patterns: [/copilot/i],
+  parseLine(line, stats) {
+    // Exit summary "Usage by model:" rows, same shape as Claude Code's
+    parseUsageByModel(line, stats);
+  },
+};
+
+/**
+ * Adapter that only recognises an agent by name, for agents with no output parser.
+ */
+export function patternAdapter(id: string, displayName: string, pattern: RegExp): AgentAdapter {
+  return { id, displayName, patterns: [pattern] };
+}
+
+export const BUILTIN_ADAPTERS: AgentAdapter[] = [
+  claudeAdapter,
+  aiderAdapter,
+  codexAdapter,
+  copilotAdapter,
+  patternAdapter('cursor-agent', 'Cursor Agent', /cursor-agent/i),
+  patternAdapter('cline', 'Cline', /cline/i),
+  patternAdapter('continue', 'Continue', /continue/i),
+  patternAdapter('openai', 'OpenAI CLI', /openai/i),
+];
+
+/**
+ * Build an adapter from a `tokenacres.customAdapters` entry. Throws on
+ * missing ids or invalid regular expressions.
+ */
+export function createConfigAdapter(config: CustomAdapterConfig): AgentAdapter {
+  if (!config.id || !config.match) {
+    throw new Error('custom adapters need an "id" and a "match" pattern');
+  }
+
+  const regex = (source?: string, flags = 'i') => (source ? new RegExp(source, flags) : undefined);
+  const turn = regex(config.turn);
+  const inputTokens = regex(config.inputTokens);
+  const outputTokens = regex(config.outputTokens);
+  const cost = regex(config.cost);
+  const model = regex(config.model);
+  const failure = regex(config.failure);
+
+  return {
+    id: config.id.toLowerCase(),
+    displayName: config.name ?? config.id,
+    patterns: [new RegExp(config.match, 'i')],
+    promptSignature: regex(config.prompt, ''),
+    parseLine(line, stats) {
+      if (turn?.test(line)) stats.turns++;
+
+      const input = inputTokens?.exec(line);
+      const output = outputTokens?.exec(line);
+      if (input || output) {
+        addTokens(stats, {
+          input: input ? parseCount(input[1]) : 0,
+          output: output ? parseCount(output[1]) : 0,
+        });
+      }
+
+      const spent = cost?.exec(line);
+      if (spent) stats.costUsd = (stats.costUsd ?? 0) + parseFloat(spent[1]);
+
+      const name = model?.exec(line);
+      if (name) stats.model ??= name[1];
+
+      if (failure?.test(line)) stats.failed = true;
+    },
+  };
+}
+
+/**
+ * The set of adapters enabled for this window, in match priority order:
+ * custom adapters first so they can override a built-in, then built-ins.
+ */
+export class AgentAdapterRegistry {
+  private adapters: AgentAdapter[] = [];
+
+  constructor(adapters: AgentAdapter[] = BUILTIN_ADAPTERS) {
+    adapters.forEach(adapter => this.register(adapter));
+  }
+
+  /** Add an adapter, replacing any existing adapter with the same id. */
+  register(adapter: AgentAdapter, priority: 'first' | 'last' = 'last') {
+    this.adapters = this.adapters.filter(a => a.id !== adapter.id);
+    if (priority === 'first') {
+      this.adapters.unshift(adapter);
+    } else {
+      this.adapters.push(adapter);
+    }
+  }
+
+  /** The adapter whose patterns match a terminal name, command line or process command. */
+  match(text: string): AgentAdapter | undefined {
+    return this.adapters.find(adapter => adapter.patterns.some(p => p.test(text)));
+  }
+
+  get(id: string): AgentAdapter | undefined {
+    return this.adapters.find(adapter => adapter.id === id);
+  }
+
+  all(): readonly AgentAdapter[] {
+    return this.adapters;
+  }
+
+  patterns(): RegExp[] {
+    return this.adapters.flatMap(adapter => adapter.patterns);
+  }
+
+  classifySuccess(adapter: AgentAdapter | undefined, exitCode: number | undefined, stats: AgentOutputStats): boolean {
+    if (adapter?.classifySuccess) return adapter.classifySuccess(exitCode, stats);
+    return (exitCode === undefined || exitCode === 0) && !stats.failed;
+  }
+}
@@ -0,0 +1,179 @@
+import * as vscode from 'vscode';
+import { AgentSource } from './agent-source';
+
+// The farm runs in the UI extension host so it saves to the local home
+// directory. In a remote window (Remote-SSH, dev containers, WSL) agents run
+// on the remote machine, so a companion workspace extension tracks them
+// there and relays events back. Commands cross extension hosts, which makes
+// them the channel in both directions.
+export const REMOTE_EXTENSION_ID = 'pattynextdoor.token-acres-remote';
+const RELAY_COMMAND = 'tokenacres.relay.event';
+const FOCUS_COMMAND = 'tokenacres.relay.focusSession';
+const MANUAL_COMPLETE_COMMAND = 'tokenacres.relay.manualComplete';
+
+// How often the remote half pushes output rates for the pawn labels
+const RATE_INTERVAL_MS = 2000;
+
+// How long the farm waits for the remote half before suggesting its install
+const HELLO_TIMEOUT_MS = 30_000;
+
+// Retry delay while the farm's relay command isn't registered yet
+const RETRY_MS = 2000;
+
+// Events dropped if the farm never comes up; keeps memory bounded
+const MAX_QUEUED = 500;
+
+const RELAYED_EVENTS = ['agent-started', 'agent-completed', 'agent-idle', 'agent-resumed', 'agent-released', 'git-event'];
+
+export type RelayMessage =
+  | { type: 'hello'; remoteName: string; host: string }
+  | { type: 'event'; event: string; data: any }
+  | { type: 'output-rates'; rates: Record<string, number> };
+
+/**
+ * Workspace half: forwards a source's events to the farm in the UI host.
+ * Events are queued until the farm's relay command exists, since the two
+ * extension hosts start independently.
+ */
+export class AgentRelay {
+  private queue: RelayMessage[] = [];
+  private flushing = false;
+  private retryTimer?: ReturnType<typeof setTimeout>;
+  private rateTimer: ReturnType<typeof setInterval>;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(source: AgentSource, host: string) {
+    this.send({ type: 'hello', remoteName: vscode.env.remoteName ?? 'local', host });
+
+    for (const event of RELAYED_EVENTS) {
+      source.on(event, (data) => this.send({ type: 'event', event, data }));
+    }
+
+    this.rateTimer = setInterval(() => {
+      const rates = source.sampleOutputRates();
+      if (rates.size > 0) {
+        this.send({ type: 'output-rates', rates: Object.fromEntries(rates) });
+      }
+    }, RATE_INTERVAL_MS);
+
+    this.disposables.push(
+      vscode.commands.registerCommand(FOCUS_COMMAND, (sessionId: string) => source.focusSession(sessionId)),
+      vscode.commands.registerCommand(MANUAL_COMPLETE_COMMAND, () => source.manualComplete())
+    );
+  }
+
+  dispose() {
+    clearInterval(this.rateTimer);
+    clearTimeout(this.retryTimer);
+    this.disposables.forEach(d => d.dispose());
+  }
+
+  // ── internals ───────────────────────────────────────────────
+
+  private send(message: RelayMessage) {
+    // Rates go stale; only the latest is worth delivering
+    if (message.type === 'output-rates') {
+      this.queue = this.queue.filter(m => m.type !== 'output-rates');
+    }
+    this.queue.push(message);
+    this.queue.splice(0, this.queue.length - MAX_QUEUED);
+    this.flush();
+  }
+
+  private async flush() {
+    if (this.flushing || this.retryTimer) return;
+    this.flushing = true;
+    try {
+      while (this.queue.length > 0) {
+        await vscode.commands.executeCommand(RELAY_COMMAND, this.queue[0]);
+        this.queue.shift();
+      }
+    } catch {
+      // Farm not activated yet, or reloading; keep the queue and try again
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = undefined;
+        this.flush();
+      }, RETRY_MS);
+    } finally {
+      this.flushing = false;
+    }
+  }
+}
+
+/**
+ * UI half: agents relayed from the workspace extension host of a remote
+ * window, re-emitted as a local source for the farm.
+ */
+export class RemoteAgentSource extends AgentSource {
+  private rates = new Map<string, number>();
+  private helloTimer: ReturnType<typeof setTimeout>;
+  private command: vscode.Disposable;
+
+  constructor(private remoteName: string) {
+    super();
+    this.command = vscode.commands.registerCommand(RELAY_COMMAND, (message: RelayMessage) => this.receive(message));
+    this.helloTimer = setTimeout(() => this.suggestInstall(), HELLO_TIMEOUT_MS);
+  }
+
+  sampleOutputRates(): Map<string, number> {
+    return this.rates;
+  }
+
+  async focusSession(sessionId: string): Promise<boolean> {
+    try {
+      return (await vscode.commands.executeCommand<boolean>(FOCUS_COMMAND, sessionId)) ?? false;
+    } catch {
+      return false;
+    }
+  }
+
+  manualComplete() {
+    vscode.commands.executeCommand(MANUAL_COMPLETE_COMMAND).then(undefined, (err) => {
+      console.warn('Token Acres: Remote agent relay unavailable', err);
+    });
+  }
+
+  reloadConfiguration() {
+    // The workspace half watches its own configuration
+  }
+
+  dispose() {
+    clearTimeout(this.helloTimer);
+    this.command.dispose();
+    this.removeAllListeners();
+  }
+
+  // ── internals ───────────────────────────────────────────────
+
+  private receive(message: RelayMessage) {
+    switch (message?.type) {
+      case 'hello':
+        clearTimeout(this.helloTimer);
+        console.log(`Token Acres: Relaying agents from ${message.remoteName} host ${message.host}`);
+        break;
+      case 'event':
+        // A throwing listener would make the relay resend the event forever
+        try {
+          this.emit(message.event, message.data);
+        } catch (err) {
+          console.error(`Token Acres: Failed to handle relayed ${message.event}`, err);
+        }
+        break;
+      case 'output-rates':
+        this.rates = new Map(Object.entries(message.rates));
+        break;
+    }
+  }
+
+  private suggestInstall() {
+    if (vscode.extensions.getExtension(REMOTE_EXTENSION_ID)) return;
+    vscode.window.showInformationMessage(
+      `Token Acres: Agents in this ${this.remoteName} window run on the remote machine. Install Token Acres Remote there to see them on your farm.`,
+      'Install'
+    ).then(selection => {
+      if (selection === 'Install') {
+        vscode.commands.executeCommand('workbench.extensions.installExtension', REMOTE_EXTENSION_ID);
+      }
+    });
+  }
+}
@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import { EventEmitter } from 'events';
+import { AgentTracker } from './agent-tracker';
+import { GitDiffTracker } from './git-diff-tracker';
+import { GitEventClassifier } from './git-event-classifier';
+import { AgentIdleEvent, AgentResumedEvent, AgentTaskResult, GitEvent, TrackedAgent } from './types';
+
+/**
+ * Where the farm hears about agents. Events carry plain data only, so a
+ * source can run in another extension host and be relayed across.
+ *
+ * Events:
+ *  - `agent-started`   — `{ id, processName, startTime?, terminalName?, pid? }`
+ *  - `agent-completed` — the task result, including the session `id` and the
+ *                        git diff stats measured for it
+ *  - `agent-idle` / `agent-resumed` — the agent is waiting for input / working again
+ *  - `agent-released`  — a session scored turn by turn has ended
+ *  - `git-event`       — a classified {@link GitEvent}
+ */
+export abstract class AgentSource extends EventEmitter {
+  // ── public API ──────────────────────────────────────────────
+
+  onAgentStarted(callback: (agent: TrackedAgent) => void) {
+    this.on('agent-started', callback);
+  }
+
+  onAgentCompleted(callback: (agent: TrackedAgent, result: AgentTaskResult) => void) {
+    // Completion events carry both the session identity and the task result
+    this.on('agent-completed', (event: AgentTaskResult) => callback(event, event));
+  }
+
+  onAgentReleased(callback: (agent: TrackedAgent) => void) {
+    this.on('agent-released', callback);
+  }
+
+  onAgentIdle(callback: (agent: AgentIdleEvent) => void) {
+    this.on('agent-idle', callback);
+  }
+
+  onAgentResumed(callback: (agent: AgentResumedEvent) => void) {
+    this.on('agent-resumed', callback);
+  }
+
+  onGitEvent(callback: (event: GitEvent) => void) {
+    this.on('git-event', callback);
+  }
+
+  /** Output rate of each active session since the previous call, in bytes per second. */
+  abstract sampleOutputRates(): Map<string, number>;
+
+  /** Show the terminal a session runs in; false when it has none. */
+  abstract focusSession(sessionId: string): Promise<boolean>;
+
+  abstract manualComplete(): void;
+
+  abstract reloadConfiguration(): void;
+
+  abstract dispose(): void;
+}
+
+/**
+ * Agents and git activity in this extension host's workspace: wraps the
+ * AgentTracker, measures each task's git diff and classifies commits.
+ */
+export class LocalAgentSource extends AgentSource {
+  private tracker: AgentTracker;
+  private gitDiff: GitDiffTracker;
+  private gitEvents: GitEventClassifier;
+  private disposables: { dispose(): void }[] = [];
+  // Each agent's events in order: a completion waits on its git diff, and
+  // whatever follows it for that agent waits on the completion
+  private pending: Map<string, Promise<void>> = new Map();
+
+  constructor() {
+    super();
+    this.tracker = new AgentTracker();
+    this.gitDiff = new GitDiffTracker({
+      roots: () => (vscode.workspace.workspaceFolders ?? []).map(f => f.uri.fsPath),
+    });
+    this.gitEvents = new GitEventClassifier();
+
+    this.tracker.onAgentStarted((agent) => this.inOrder(agent.id, () => {
+      this.gitDiff.snapshot(agent.id);
+      this.emit('agent-started', {
+        id: agent.id,
+        processName: agent.processName,
+        startTime: agent.startTime,
+        terminalName: agent.terminal?.name,
+        pid: agent.pid,
+      });
+    }));
+
+    this.tracker.onAgentCompleted((agent, result) => this.inOrder(agent.id, async () => {
+      const diff = await this.gitDiff.measure(agent.id);
+      if (!result.continuing) {
+        this.gitDiff.forget(agent.id);
+      }
+      this.emit('agent-completed', { ...result, ...diff });
+    }));
+
+    this.tracker.onAgentIdle((agent) => this.inOrder(agent.id, () => {
+      this.emit('agent-idle', agent);
+    }));
+    this.tracker.onAgentResumed((agent) => this.inOrder(agent.id, () => {
+      this.emit('agent-resumed', agent);
+    }));
+
+    this.tracker.onAgentReleased((agent) => this.inOrder(agent.id, () => {
+      this.gitDiff.forget(agent.id);
+      this.emit('agent-released', agent);
+    }));
+
+    // A passing test run vouches for the commit that follows it
+    this.tracker.onRunFinished((run) => {
+      if (run.kind === 'test' && run.passed) {
+        this.gitEvents.noteTestsPassed();
+      }
+    });
+
+    this.gitEvents.on('git-event', (event) => this.emit('git-event', event));
+    this.watchRepositories();
+  }
+
+  sampleOutputRates(): Map<string, number> {
+    return this.tracker.sampleOutputRates();
+  }
+
+  async focusSession(sessionId: string): Promise<boolean> {
+    return this.tracker.focusSession(sessionId);
+  }
+
+  manualComplete() {
+    this.tracker.manualComplete('medium');
+  }
+
+  reloadConfiguration() {
+    this.tracker.reloadConfiguration();
+  }
+
+  dispose() {
+    this.tracker.cleanup();
+    this.gitDiff.dispose();
+    this.gitEvents.dispose();
+    this.disposables.forEach(d => d.dispose());
+  }
+
+  // ── internals ───────────────────────────────────────────────
+
+  /** Run `work` once the agent's earlier events have been emitted. */
+  private inOrder(agentId: string, work: () => void | Promise<void>) {
+    const previous = this.pending.get(agentId) ?? Promise.resolve();
+    // Listeners run inside the chain, so their errors must be caught here
+    const next = previous
+      .then(work)
+      .catch(err => console.error('Token Acres: Failed to handle agent event', err));
+    this.pending.set(agentId, next);
+    next.then(() => {
+      if (this.pending.get(agentId) === next) this.pending.delete(agentId);
+    });
+  }
+
+  private watchRepositories() {
+    const gitExtension = vscode.extensions.getExtension('vscode.git');
+    if (!gitExtension?.isActive) return;
+
+    const gitApi = gitExtension.exports.getAPI(1);
+    if (!gitApi) return;
+
+    gitApi.repositories.forEach((repo: any) => {
+      this.disposables.push(this.gitEvents.watch(repo));
+    });
+    this.disposables.push(
+      gitApi.onDidOpenRepository((repo: any) => {
+        this.disposables.push(this.gitEvents.watch(repo));
+      })
+    );
+  }
+}
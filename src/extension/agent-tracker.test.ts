@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AgentTracker } from './agent-tracker';
+import { AgentTaskResult, TrackedAgent } from './types';
+
+// Listeners the tracker registers on the fake vscode.window, by event name
+const listeners = vi.hoisted(() => new Map<string, (event: any) => void>());
+
+vi.mock('vscode', () => {
+  const on = (name: string) => (listener: (event: any) => void) => {
+    listeners.set(name, listener);
+    return { dispose() {} };
+  };
+  const settings: Record<string, unknown> = { processScanner: 'off' };
+  return {
+    window: {
+      terminals: [],
+      onDidOpenTerminal: on('open'),
+      onDidCloseTerminal: on('close'),
+      onDidChangeActiveTerminal: on('active'),
+      onDidStartTerminalShellExecution: on('execution-start'),
+      onDidEndTerminalShellExecution: on('execution-end'),
+      showWarningMessage: () => undefined,
+    },
+    workspace: {
+      workspaceFolders: [{ uri: { fsPath: '/work/app' } }],
+      getConfiguration: () => ({ get: (key: string, fallback?: unknown) => settings[key] ?? fallback }),
+    },
+    tasks: { onDidEndTaskProcess: on('task-end') },
+  };
+});
+
+// Keeps the tracker away from the real hook events directory
+vi.mock('./hook-ingestor', async () => {
+  const { EventEmitter } = await import('events');
+  return { HookIngestor: class extends EventEmitter { start() {} dispose() {} } };
+});
+
+function fire(name: string, event: unknown) {
+  listeners.get(name)!(event);
+}
+
+function terminal(name: string, pid: number) {
+  return { name, processId: Promise.resolve(pid), creationOptions: {}, exitStatus: { code: 0 } };
+}
+
+describe('AgentTracker', () => {
+  let tracker: AgentTracker;
+  let started: (TrackedAgent & { terminal?: unknown })[];
+  let completed: AgentTaskResult[];
+
+  beforeEach(() => {
+    listeners.clear();
+    tracker = new AgentTracker();
+    started = [];
+    completed = [];
+    tracker.onAgentStarted(agent => started.push(agent));
+    tracker.onAgentCompleted((_agent, result) => completed.push(result));
+  });
+
+  afterEach(() => {
+    tracker.cleanup();
+  });
+
+  it('keys sessions by terminal, so same-named agents do not collide', () => {
+    const first = terminal('claude', 100);
+    const second = terminal('claude', 200);
+    fire('open', first);
+    fire('open', second);
+    fire('active', first);
+
+    expect(started).toHaveLength(2);
+    expect(started[0].id).not.toBe(started[1].id);
+
+    // Another terminal with the same name is not either of them
+    fire('close', terminal('claude', 100));
+    expect(completed).toEqual([]);
+
+    fire('close', second);
+    expect(completed.map(c => c.id)).toEqual([started[1].id]);
+    expect(tracker.getActiveSessions().map(s => s.id)).toEqual([started[0].id]);
+  });
+
+  it('measures output from the shell execution stream', async () => {
+    const shell = terminal('zsh', 300);
+    const execution = {
+      commandLine: { value: 'claude "fix the tests"' },
+      async *read() {
+        yield '\x1b[32mhello\x1b[0m\n';
+        yield 'world\n';
+      },
+    };
+    fire('execution-start', { terminal: shell, execution });
+    expect(started).toHaveLength(1);
+
+    fire('execution-end', { terminal: shell, execution, exitCode: 0 });
+    await vi.waitFor(() => expect(completed).toHaveLength(1));
+    expect(completed[0]).toMatchObject({
+      id: started[0].id,
+      outputSource: 'stream',
+      outputLength: 12,
+      outputLines: 2,
+      project: '/work/app',
+      success: true,
+    });
+  });
+
+  it('falls back to an estimate when no stream was read', () => {
+    const shell = terminal('claude', 400);
+    fire('open', shell);
+    fire('close', shell);
+
+    expect(completed).toHaveLength(1);
+    expect(completed[0].outputSource).toBe('heuristic');
+    expect(completed[0].outputLength).toBeGreaterThan(0);
+  });
+});
@@ -1,64 +1,184 @@
 import * as vscode from 'vscode';
 import { EventEmitter } from 'events';
-import { AgentSession } from './types';
+import {
+  AgentHookEvent, AgentIdleEvent, AgentResumedEvent, AgentSession, AgentTaskResult, RunFinishedEvent, RunKind,
+  TrackedAgent,
+} from './types';
+import {
+  AgentAdapterRegistry,
+  BUILTIN_ADAPTERS,
+  CustomAdapterConfig,
+  createConfigAdapter,
+  patternAdapter,
+} from './agent-adapters';
 import { ProcessScanner } from './process-scanner';
+import { ProcessBackendKind, createProcessBackend } from './process-backends';
+import { AgentScopeMode, WorkspaceScope } from './workspace-scope';
+import { HookIngestor } from './hook-ingestor';
+import { classifyTask, isTestCommand, parseTestCounts, recordRun } from './test-outcomes';
 
-// Known agent process signatures
-const DEFAULT_AGENT_PATTERNS: RegExp[] = [
-  /claude/i,
-  /aider/i,
-  /cursor-agent/i,
-  /copilot/i,
-  /openai/i,
-  /cline/i,
-  /continue/i,
-  /codex/i,
-];
+// Matches CSI/OSC escape sequences so colour codes and shell integration
+// markers don't inflate measured output
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[ -\/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g;
+
+// Only the tail of test output is kept; runners print their summary last
+const TEST_OUTPUT_TAIL = 16 * 1024;
+
+// Characters of recent output checked against prompt signatures
+const PROMPT_TAIL = 256;
 
 export class AgentTracker extends EventEmitter {
   private activeSessions: Map<string, AgentSession> = new Map();
-  private outputTracker: Map<string, number> = new Map();
-  private agentPatterns: RegExp[];
+  private outputTracker: Map<string, number> = new Map();  // output length at the last rate sample
+  private lastRateSampleAt = Date.now();
+  private terminalSessions: Map<vscode.Terminal, string> = new Map();
+  private scannerPids: Map<number, string> = new Map();
+  private executionSessions: Map<vscode.TerminalShellExecution, string> = new Map();
+  private outputCaptures: Map<string, Promise<void>> = new Map();
+  private testCaptures: Map<vscode.TerminalShellExecution, Promise<string>> = new Map();
+  private hookTurns: Map<string, { sessionId: string; startTime: number; owned: boolean }> = new Map();
+  private adapters: AgentAdapterRegistry;
+  private scope: WorkspaceScope;
   private processScanner: ProcessScanner;
+  private hookIngestor: HookIngestor;
+  private idleThresholdMs: number;
+  private idleTimer: ReturnType<typeof setInterval>;
 
   constructor() {
     super();
-    this.loadAgentPatterns();
+    this.adapters = this.createAdapterRegistry();
+    this.scope = this.createScope();
+    this.idleThresholdMs = this.loadIdleThreshold();
     this.watchTerminals();
     this.watchProcesses();
+    this.watchTasks();
 
     // System process scanning for agents running outside VS Code terminals
+    const backend = vscode.workspace.getConfiguration('tokenacres')
+      .get<ProcessBackendKind | 'auto' | 'off'>('processScanner') || 'auto';
     this.processScanner = new ProcessScanner({
-      patterns: this.agentPatterns,
+      patterns: this.adapters.patterns(),
       intervalMs: 3000,
+      backend: backend === 'off' ? null : createProcessBackend(backend),
     });
     this.processScanner.on('agent-started', (agent) => {
-      // Dedup: skip if we already track a terminal session with same process name
-      const isDuplicate = Array.from(this.activeSessions.values())
-        .some(s => s.processName.toLowerCase() === agent.processName.toLowerCase());
-      if (!isDuplicate) {
-        this.activeSessions.set(agent.id, {
-          id: agent.id,
-          processName: agent.processName,
-          startTime: agent.startTime,
-          outputLength: 0,
-        });
-        this.emit('agent-started', agent);
+      // Dedup: a process belonging to a terminal session we already track
+      // is claimed by that session instead of becoming a second agent
+      const owner = this.findTerminalSessionForProcess(agent.ancestors ?? [])
+        ?? this.findUnpairedTerminalSession(agent.processName);
+      if (owner) {
+        this.scannerPids.set(agent.pid, owner.id);
+        owner.cwd ??= agent.cwd;
+        return;
       }
+
+      // Agents in other repositories belong to other windows' farms
+      if (!this.scope.admits(agent.cwd, false)) {
+        return;
+      }
+
+      this.activeSessions.set(agent.id, {
+        id: agent.id,
+        processName: agent.processName,
+        startTime: agent.startTime,
+        outputLength: 0,
+        outputLines: 0,
+        outputSource: 'heuristic',
+        lastActivityAt: Date.now(),
+        pid: agent.pid,
+        cwd: agent.cwd,
+        project: this.scope.projectFor(agent.cwd),
+        hookTurns: 0,
+      });
+      this.emit('agent-started', agent);
     });
     this.processScanner.on('agent-completed', (result) => {
-      if (this.activeSessions.has(result.id)) {
+      // A claimed process exiting frees its terminal session to claim the next run
+      if (this.scannerPids.delete(result.pid)) {
+        return;
+      }
+      const session = this.activeSessions.get(result.id);
+      if (session) {
         this.activeSessions.delete(result.id);
-        this.emit('agent-completed', result);
+        this.emit('agent-completed', {
+          ...result,
+          agentType: this.agentTypeFor(result.processName),
+          project: session.project,
+        });
       }
     });
     this.processScanner.start();
+
+    // Per-turn task boundaries posted by agent hooks
+    this.hookIngestor = new HookIngestor({
+      accept: (event) => this.admitsHookEvent(event),
+    });
+    this.hookIngestor.on('task-start', (event: AgentHookEvent) => this.startHookTurn(event));
+    this.hookIngestor.on('task-end', (event: AgentHookEvent) => this.endHookTurn(event));
+    this.hookIngestor.start();
+
+    // Streams that go quiet mean the agent is waiting on the user
+    this.idleTimer = setInterval(() => this.checkIdleSessions(), 5000);
+  }
+
+  /**
+   * Enable the built-in adapters named in `agentPatterns` (other entries
+   * become name-only adapters), then layer `customAdapters` on top.
+   */
+  private createAdapterRegistry(): AgentAdapterRegistry {
+    const config = vscode.workspace.getConfiguration('tokenacres');
+    const patterns = config.get<string[]>('agentPatterns') || BUILTIN_ADAPTERS.map(a => a.id);
+    const registry = new AgentAdapterRegistry([]);
+
+    for (const entry of patterns) {
+      const builtin = BUILTIN_ADAPTERS.find(a => a.id === entry.toLowerCase());
+      if (builtin) {
+        registry.register(builtin);
+        continue;
+      }
+      try {
+        const id = entry.replace(/[\\^$.*+?()[\]{}|]/g, '').toLowerCase() || entry;
+        registry.register(patternAdapter(id, entry, new RegExp(entry, 'i')));
+      } catch (err) {
+        console.warn(`Token Acres: Ignoring invalid agent pattern "${entry}"`, err);
+      }
+    }
+
+    for (const custom of config.get<CustomAdapterConfig[]>('customAdapters') || []) {
+      try {
+        registry.register(createConfigAdapter(custom), 'first');
+      } catch (err) {
+        console.warn('Token Acres: Ignoring invalid custom adapter', custom, err);
+        vscode.window.showWarningMessage(`Token Acres: Invalid custom adapter "${custom?.id}": ${err}`);
+      }
+    }
+
+    return registry;
   }
 
-  private loadAgentPatterns() {
+  /**
+   * Re-read adapter, scope and idle settings. Sessions already running
+   * keep being tracked; new output is parsed with the new adapters.
+   */
+  reloadConfiguration() {
+    this.adapters = this.createAdapterRegistry();
+    this.scope = this.createScope();
+    this.idleThresholdMs = this.loadIdleThreshold();
+    this.processScanner.setPatterns(this.adapters.patterns());
+  }
+
+  private loadIdleThreshold(): number {
     const config = vscode.workspace.getConfiguration('tokenacres');
-    const patterns = config.get<string[]>('agentPatterns') || ['claude', 'aider', 'cursor-agent', 'copilot'];
-    this.agentPatterns = patterns.map(p => new RegExp(p, 'i'));
+    return Math.max(5, config.get<number>('idleThresholdSeconds') ?? 45) * 1000;
+  }
+
+  private createScope(): WorkspaceScope {
+    const config = vscode.workspace.getConfiguration('tokenacres');
+    return new WorkspaceScope({
+      mode: config.get<AgentScopeMode>('agentScope') || 'workspace',
+      allowlist: config.get<string[]>('agentScopeFolders') || [],
+      folders: () => (vscode.workspace.workspaceFolders ?? []).map(f => f.uri.fsPath),
+    });
   }
 
   private watchTerminals() {
@@ -67,11 +187,11 @@ export class AgentTracker extends EventEmitter {
       this.evaluateTerminal(terminal);
     });
 
-    // Track terminal closure
+    // Track terminal closure — completes only the session bound to this terminal
     vscode.window.onDidCloseTerminal((terminal) => {
       const sessionId = this.getSessionIdForTerminal(terminal);
       if (sessionId) {
-        this.completeSession(sessionId, 'terminal-closed');
+        this.completeSession(sessionId, 'terminal-closed', terminal.exitStatus?.code);
       }
     });
 
@@ -90,51 +210,253 @@ export class AgentTracker extends EventEmitter {
 
   private watchProcesses() {
     // Use shell integration if available (VS Code 1.93+)
-    vscode.window.onDidChangeTerminalShellIntegration?.((e) => {
-      e.shellIntegration.onDidStartCommand?.((cmd) => {
-        if (this.isAgentCommand(cmd.command)) {
-          this.startSession(e.terminal, cmd.command);
+    vscode.window.onDidStartTerminalShellExecution?.((e) => {
+      const command = e.execution.commandLine.value;
+      // Agent launches come first: a prompt may well mention a test runner
+      if (!this.isAgentCommand(command)) {
+        if (isTestCommand(command)) {
+          this.testCaptures.set(e.execution, this.captureTestOutput(e.execution));
         }
-      });
+        return;
+      }
+
+      const sessionId = this.getSessionIdForTerminal(e.terminal)
+        ?? this.startSession(e.terminal, command, e.execution.cwd?.fsPath);
+      if (!sessionId) return;
+      this.executionSessions.set(e.execution, sessionId);
+      this.outputCaptures.set(sessionId, this.captureOutput(sessionId, e.execution));
+    });
+
+    vscode.window.onDidEndTerminalShellExecution?.(async (e) => {
+      const testOutput = this.testCaptures.get(e.execution);
+      if (testOutput) {
+        this.testCaptures.delete(e.execution);
+        const counts = parseTestCounts(await testOutput);
+        const passed = e.exitCode !== undefined
+          ? e.exitCode === 0
+          : counts.failed === 0 && (counts.passed ?? 0) > 0;
+        this.recordRunOutcome('test', e.execution.commandLine.value, passed, counts, e.terminal);
+        return;
+      }
+
+      const sessionId = this.executionSessions.get(e.execution);
+      if (!sessionId) return;
+      this.executionSessions.delete(e.execution);
+
+      // Let the read stream drain so trailing output is counted
+      await this.outputCaptures.get(sessionId);
+      this.completeSession(sessionId, 'command-ended', e.exitCode);
+    });
+  }
+
+  private watchTasks() {
+    // Test and build tasks run by agents or the user (e.g. "npm: test", "tsc: build")
+    vscode.tasks.onDidEndTaskProcess((e) => {
+      const task = e.execution.task;
+      const kind = classifyTask(task.group?.id, task.name);
+      if (kind && e.exitCode !== undefined) {
+        this.recordRunOutcome(kind, task.name, e.exitCode === 0);
+      }
+    });
+  }
+
+  /**
+   * Credit a finished test/build run to the agent session whose terminal ran
+   * it. A run outside any agent's terminal (a task, or the user's own
+   * `npm test`) is only credited when a single session is active, since it
+   * can't be told apart from the user's work otherwise.
+   */
+  private recordRunOutcome(
+    kind: RunKind,
+    command: string,
+    passed: boolean,
+    counts: { passed?: number; failed?: number } = {},
+    terminal?: vscode.Terminal
+  ) {
+    const ownerId = terminal && this.getSessionIdForTerminal(terminal);
+    const active = Array.from(this.activeSessions.values());
+    const sessions = ownerId
+      ? [this.activeSessions.get(ownerId)!]
+      : active.length === 1 ? active : [];
+
+    for (const session of sessions) {
+      session.outcome = recordRun(session.outcome, kind, passed, counts);
+    }
+
+    this.emit('run-finished', {
+      kind,
+      command,
+      passed,
+      passedCount: counts.passed,
+      failedCount: counts.failed,
+      sessionIds: sessions.map(s => s.id),
+    });
+  }
+
+  /** Keep the tail of a test command's output for summary parsing. */
+  private async captureTestOutput(execution: vscode.TerminalShellExecution): Promise<string> {
+    let tail = '';
+    try {
+      for await (const chunk of execution.read()) {
+        tail = (tail + chunk.replace(ANSI_PATTERN, '')).slice(-TEST_OUTPUT_TAIL);
+      }
+    } catch (err) {
+      console.warn('Token Acres: Test output capture ended early', err);
+    }
+    return tail;
+  }
+
+  /**
+   * Consume the execution's read stream, accumulating real output size on the session.
+   * read() must be called right after the execution starts or early data is lost.
+   */
+  private async captureOutput(sessionId: string, execution: vscode.TerminalShellExecution): Promise<void> {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) return;
+
+    session.outputSource = 'stream';
+    const adapter = this.adapters.match(session.processName);
+    const stats = session.outputStats = { turns: 0 };
+    let tail = '';
+    let partialLine = '';
+
+    try {
+      for await (const chunk of execution.read()) {
+        const text = chunk.replace(ANSI_PATTERN, '');
+        session.outputLength += Buffer.byteLength(text, 'utf8');
+        session.outputLines += this.countLines(text);
 
-      e.shellIntegration.onDidEndCommand?.((cmd) => {
-        const sessionId = this.getSessionIdForTerminal(e.terminal);
-        if (sessionId) {
-          this.completeSession(sessionId, 'command-ended', cmd.exitCode);
+        // A chunk ending in the prompt (often just a redraw of it) isn't activity
+        tail = (tail + text).slice(-PROMPT_TAIL);
+        if (adapter?.promptSignature?.test(tail)) {
+          this.markIdle(session, 'prompt');
+          tail = ''; // the next chunk resumes unless it redraws the prompt
+        } else {
+          this.markActive(session);
         }
-      });
+
+        // Hand complete lines to the adapter's parser
+        if (adapter?.parseLine) {
+          const lines = (partialLine + text).split(/\r?\n|\r/);
+          partialLine = lines.pop() ?? '';
+          lines.forEach(line => adapter.parseLine!(line, stats));
+        }
+      }
+      if (partialLine) {
+        adapter?.parseLine?.(partialLine, stats);
+      }
+    } catch (err) {
+      console.warn('Token Acres: Terminal output capture ended early', err);
+    }
+  }
+
+  private checkIdleSessions() {
+    const now = Date.now();
+    for (const session of this.activeSessions.values()) {
+      if (session.outputSource === 'stream' && now - session.lastActivityAt >= this.idleThresholdMs) {
+        this.markIdle(session, 'quiet');
+      }
+    }
+  }
+
+  private markIdle(session: AgentSession, reason: 'quiet' | 'prompt' | 'turn-ended') {
+    if (session.idleSince !== undefined) return;
+    session.idleSince = reason === 'quiet' ? session.lastActivityAt : Date.now();
+    this.emit('agent-idle', {
+      id: session.id,
+      processName: session.processName,
+      reason,
+      since: session.idleSince,
     });
   }
 
+  private markActive(session: AgentSession, timestamp: number = Date.now()) {
+    session.lastActivityAt = timestamp;
+    if (session.idleSince === undefined) return;
+    const idleMs = timestamp - session.idleSince;
+    session.idleSince = undefined;
+    this.emit('agent-resumed', { id: session.id, processName: session.processName, idleMs });
+  }
+
+  private countLines(text: string): number {
+    let count = 0;
+    for (let i = 0; i < text.length; i++) {
+      if (text.charCodeAt(i) === 10) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Normalize a terminal name, command line or process name to the id of
+   * the adapter it matched, so `claude --resume` and `claude` share a baseline.
+   */
+  private agentTypeFor(name: string): string {
+    return this.adapters.match(name)?.id ?? name.trim().split(/\s+/)[0].toLowerCase();
+  }
+
   private isAgentCommand(command: string): boolean {
-    return this.agentPatterns.some(pattern => pattern.test(command));
+    return this.adapters.match(command) !== undefined;
   }
 
   private evaluateTerminal(terminal: vscode.Terminal) {
     const name = terminal.name.toLowerCase();
-    if (this.agentPatterns.some(pattern => pattern.test(name))) {
+    if (this.adapters.match(name)) {
       if (!this.getSessionIdForTerminal(terminal)) {
         this.startSession(terminal, name);
       }
     }
   }
 
-  private startSession(terminal: vscode.Terminal, processName: string) {
+  /**
+   * Start tracking an agent terminal. Returns undefined when the terminal's
+   * directory is outside the configured agent scope.
+   */
+  private startSession(terminal: vscode.Terminal, processName: string, cwd?: string): string | undefined {
+    cwd ??= this.terminalCwd(terminal);
+    if (!this.scope.admits(cwd, true)) {
+      return undefined;
+    }
+
     const id = `agent-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
     const session: AgentSession = {
       id,
       processName,
       startTime: Date.now(),
       outputLength: 0,
+      outputLines: 0,
+      outputSource: 'heuristic',
+      lastActivityAt: Date.now(),
+      cwd,
+      project: this.scope.projectFor(cwd),
+      terminalName: terminal.name,
+      hookTurns: 0,
     };
 
     this.activeSessions.set(id, session);
+    this.terminalSessions.set(terminal, id);
+
+    // Shell pid resolves asynchronously; used to pair scanner-detected processes
+    terminal.processId.then((pid) => {
+      if (pid !== undefined && this.activeSessions.get(id) === session) {
+        session.pid = pid;
+      }
+    });
+
     this.emit('agent-started', {
       id,
       processName,
       startTime: session.startTime,
       terminal
     });
+    return id;
+  }
+
+  private terminalCwd(terminal: vscode.Terminal): string | undefined {
+    const shellCwd = terminal.shellIntegration?.cwd;
+    if (shellCwd) return shellCwd.fsPath;
+
+    const cwd = (terminal.creationOptions as vscode.TerminalOptions).cwd;
+    return typeof cwd === 'string' ? cwd : cwd?.fsPath;
   }
 
   private completeSession(sessionId: string, reason: string, exitCode?: number) {
@@ -143,21 +465,150 @@ export class AgentTracker extends EventEmitter {
 
     const duration = Date.now() - session.startTime;
     this.activeSessions.delete(sessionId);
+    this.outputCaptures.delete(sessionId);
+    this.releaseSessionBindings(sessionId);
 
-    // Estimate output length (in absence of direct terminal output capture)
-    // Use a heuristic based on duration and success
-    const outputLength = this.estimateOutputLength(duration, exitCode);
+    // Hooks already reported this session's work turn by turn; just free the pawn
+    if (session.hookTurns > 0) {
+      this.emit('agent-released', { id: sessionId, processName: session.processName });
+      return;
+    }
+
+    // Prefer measured output; only fall back to the duration heuristic
+    // when no shell integration stream was available for this session
+    const measured = session.outputSource === 'stream';
+    const outputLength = measured ? session.outputLength : this.estimateOutputLength(duration, exitCode);
+    const stats = session.outputStats ?? { turns: 0 };
+    const adapter = this.adapters.match(session.processName);
 
     this.emit('agent-completed', {
       id: sessionId,
       processName: session.processName,
+      agentType: this.agentTypeFor(session.processName),
+      model: stats.model,
+      project: session.project,
       duration,
       exitCode,
       outputLength,
-      success: exitCode === undefined || exitCode === 0,
+      outputLines: measured ? session.outputLines : undefined,
+      outputSource: session.outputSource,
+      tokens: stats.tokens,
+      costUsd: stats.costUsd,
+      turns: stats.turns > 0 ? stats.turns : undefined,
+      success: this.adapters.classifySuccess(adapter, exitCode, stats),
+      outcome: session.outcome,
+    });
+  }
+
+  private startHookTurn(event: AgentHookEvent) {
+    const key = this.hookKey(event);
+    if (this.hookTurns.has(key)) return; // duplicate start
+
+    // A turn inside an agent we already track is credited to that session
+    const parent = this.findSessionForHookAgent(event.agent);
+    if (parent) {
+      this.hookTurns.set(key, { sessionId: parent.id, startTime: event.timestamp, owned: false });
+      this.markActive(parent, event.timestamp);
+      return;
+    }
+
+    const id = `hook-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    this.activeSessions.set(id, {
+      id,
+      processName: event.agent,
+      startTime: event.timestamp,
+      outputLength: 0,
+      outputLines: 0,
+      outputSource: 'hook',
+      lastActivityAt: event.timestamp,
+      cwd: event.cwd,
+      project: this.scope.projectFor(event.cwd),
+      hookTurns: 0,
+    });
+    this.hookTurns.set(key, { sessionId: id, startTime: event.timestamp, owned: true });
+    this.emit('agent-started', { id, processName: event.agent, startTime: event.timestamp });
+  }
+
+  private endHookTurn(event: AgentHookEvent) {
+    const key = this.hookKey(event);
+    if (!this.hookTurns.has(key)) {
+      // Hook only wired to the end of a turn (e.g. Claude Code Stop): backdate a start
+      this.startHookTurn({ ...event, type: 'task-start', timestamp: event.timestamp - (event.durationMs ?? 0) });
+    }
+
+    const turn = this.hookTurns.get(key);
+    if (!turn) return;
+    this.hookTurns.delete(key);
+
+    const session = this.activeSessions.get(turn.sessionId);
+    if (!session) return;
+
+    const duration = event.durationMs ?? Math.max(0, event.timestamp - turn.startTime);
+    const reported = event.outputLength !== undefined;
+
+    // Runs observed during the turn belong to it; the next turn starts clean
+    const outcome = session.outcome;
+    session.outcome = undefined;
+
+    if (turn.owned) {
+      this.activeSessions.delete(session.id);
+    } else {
+      session.hookTurns++;
+    }
+
+    // A session that keeps running after its turn is back at the prompt
+    if (!turn.owned) {
+      this.markIdle(session, 'turn-ended');
+    }
+
+    this.emit('agent-completed', {
+      id: session.id,
+      processName: session.processName,
+      agentType: this.agentTypeFor(session.processName),
+      model: event.model,
+      project: session.project,
+      duration,
+      exitCode: event.exitCode,
+      outputLength: reported ? event.outputLength : this.estimateOutputLength(duration, event.exitCode),
+      outputSource: reported ? 'hook' : 'heuristic',
+      success: event.success ?? (event.exitCode === undefined || event.exitCode === 0),
+      tokens: event.tokens,
+      costUsd: event.costUsd,
+      toolCalls: event.toolCalls,
+      filesTouched: event.filesTouched,
+      outcome,
+      continuing: !turn.owned,
     });
   }
 
+  /**
+   * Hook events without a cwd can't be attributed, so any window may claim them.
+   */
+  private admitsHookEvent(event: AgentHookEvent): boolean {
+    return event.cwd === undefined || this.scope.admits(event.cwd, false);
+  }
+
+  private hookKey(event: AgentHookEvent): string {
+    return `${event.agent}:${event.sessionId ?? ''}`;
+  }
+
+  /**
+   * Find a running terminal or process session for a hook's agent, preferring one
+   * without a turn already in flight so concurrent agents each get their own.
+   */
+  private findSessionForHookAgent(agent: string): AgentSession | undefined {
+    const busy = new Set<string>();
+    const hookOwned = new Set<string>();
+    for (const turn of this.hookTurns.values()) {
+      busy.add(turn.sessionId);
+      if (turn.owned) hookOwned.add(turn.sessionId);
+    }
+
+    const candidates = Array.from(this.activeSessions.values())
+      .filter(s => !hookOwned.has(s.id) && s.processName.toLowerCase().includes(agent));
+    return candidates.find(s => !busy.has(s.id)) ?? candidates[0];
+  }
+
   private estimateOutputLength(duration: number, exitCode?: number): number {
     // Heuristic for output estimation when we can't directly capture terminal output
     // Base on duration and success/failure
@@ -169,16 +620,50 @@ export class AgentTracker extends EventEmitter {
   }
 
   private getSessionIdForTerminal(terminal: vscode.Terminal): string | undefined {
-    for (const [id, session] of this.activeSessions) {
-      // Note: We can't directly compare terminals, so we use a workaround
-      // In a real implementation, we'd need to track terminals more carefully
-      if (session.processName && terminal.name.toLowerCase().includes(session.processName.toLowerCase())) {
-        return id;
+    return this.terminalSessions.get(terminal);
+  }
+
+  /**
+   * Find the terminal session whose shell is an ancestor of a scanned process.
+   */
+  private findTerminalSessionForProcess(ancestors: number[]): AgentSession | undefined {
+    for (const sessionId of this.terminalSessions.values()) {
+      const session = this.activeSessions.get(sessionId);
+      if (session?.pid !== undefined && ancestors.includes(session.pid)) {
+        return session;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Find a terminal session for this agent that has not yet claimed a scanned process.
+   * Fallback for when the process tree can't link the two (e.g. no shell pid yet).
+   */
+  private findUnpairedTerminalSession(processName: string): AgentSession | undefined {
+    const name = processName.toLowerCase();
+    const paired = new Set(this.scannerPids.values());
+    for (const sessionId of this.terminalSessions.values()) {
+      const session = this.activeSessions.get(sessionId);
+      if (session && !paired.has(sessionId) && session.processName.toLowerCase().includes(name)) {
+        return session;
       }
     }
     return undefined;
   }
 
+  private releaseSessionBindings(sessionId: string) {
+    for (const [terminal, id] of this.terminalSessions) {
+      if (id === sessionId) this.terminalSessions.delete(terminal);
+    }
+    for (const [pid, id] of this.scannerPids) {
+      if (id === sessionId) this.scannerPids.delete(pid);
+    }
+    for (const [execution, id] of this.executionSessions) {
+      if (id === sessionId) this.executionSessions.delete(execution);
+    }
+  }
+
   /**
    * Manual task completion for testing/fallback
    */
@@ -189,9 +674,11 @@ export class AgentTracker extends EventEmitter {
     this.emit('agent-completed', {
       id: `manual-${Date.now()}`,
       processName: 'manual',
+      agentType: 'manual',
       duration,
       exitCode: 0,
       outputLength,
+      outputSource: 'manual',
       success: true,
       manual: true,
       complexity
@@ -199,12 +686,29 @@ export class AgentTracker extends EventEmitter {
   }
 
   // Public API for typed event handlers
-  onAgentStarted(callback: (agent: any) => void) {
+  onAgentStarted(callback: (agent: TrackedAgent & { terminal?: vscode.Terminal }) => void) {
     this.on('agent-started', callback);
   }
 
-  onAgentCompleted(callback: (agent: any, result: any) => void) {
-    this.on('agent-completed', callback);
+  onAgentCompleted(callback: (agent: TrackedAgent, result: AgentTaskResult) => void) {
+    // Completion events carry both the session identity and the task result
+    this.on('agent-completed', (event: AgentTaskResult) => callback(event, event));
+  }
+
+  onAgentReleased(callback: (agent: TrackedAgent) => void) {
+    this.on('agent-released', callback);
+  }
+
+  onAgentIdle(callback: (agent: AgentIdleEvent) => void) {
+    this.on('agent-idle', callback);
+  }
+
+  onAgentResumed(callback: (agent: AgentResumedEvent) => void) {
+    this.on('agent-resumed', callback);
+  }
+
+  onRunFinished(callback: (run: RunFinishedEvent) => void) {
+    this.on('run-finished', callback);
   }
 
   /**
@@ -214,12 +718,49 @@ export class AgentTracker extends EventEmitter {
     return Array.from(this.activeSessions.values());
   }
 
+  /**
+   * Output rate of each active session since the previous call, in bytes
+   * per second. Sessions without a measured output stream report 0.
+   */
+  sampleOutputRates(): Map<string, number> {
+    const now = Date.now();
+    const seconds = Math.max((now - this.lastRateSampleAt) / 1000, 0.001);
+    const rates = new Map<string, number>();
+    const lengths = new Map<string, number>();
+
+    for (const session of this.activeSessions.values()) {
+      const previous = this.outputTracker.get(session.id) ?? session.outputLength;
+      rates.set(session.id, Math.max(0, session.outputLength - previous) / seconds);
+      lengths.set(session.id, session.outputLength);
+    }
+
+    this.outputTracker = lengths;
+    this.lastRateSampleAt = now;
+    return rates;
+  }
+
+  /**
+   * Show the terminal a session runs in. Returns false when the session has
+   * no terminal (an agent found by the process scanner or reported by hooks).
+   */
+  focusSession(sessionId: string): boolean {
+    for (const [terminal, id] of this.terminalSessions) {
+      if (id === sessionId) {
+        terminal.show(false);
+        return true;
+      }
+    }
+    return false;
+  }
+
   /**
    * Force complete all active sessions (for cleanup)
    */
   cleanup() {
     const sessionIds = Array.from(this.activeSessions.keys());
     sessionIds.forEach(id => this.completeSession(id, 'cleanup'));
+    clearInterval(this.idleTimer);
     this.processScanner.dispose();
+    this.hookIngestor.dispose();
   }
 }
\ No newline at end of file
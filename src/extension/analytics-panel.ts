@@ -0,0 +1,363 @@
+import * as vscode from 'vscode';
+import { buildAnalytics } from './analytics';
+import { SessionLog } from './session-log';
+import { FarmState, SessionLogEntry, TaskRecord } from './types';
+import { getNonce } from './webview-provider';
+
+const RANGES = [7, 30, 90];
+
+/**
+ * Editor panel charting agent productivity and the farm economy over time:
+ * tasks per day, grade mix, per-agent efficiency trends, seeds earned vs
+ * spent and crop yields per season. Redraws as tasks complete.
+ */
+export class AnalyticsPanel {
+  private static current?: AnalyticsPanel;
+
+  private records?: TaskRecord[];
+  private rangeDays = 30;
+
+  private readonly onAppended = (entry: SessionLogEntry) => {
+    if (this.records) {
+      this.records.push(entry);
+      this.render();
+    }
+  };
+
+  static show(log: SessionLog, getState: () => FarmState) {
+    if (AnalyticsPanel.current) {
+      AnalyticsPanel.current.panel.reveal();
+      return;
+    }
+    const panel = vscode.window.createWebviewPanel(
+      'tokenacres.analytics',
+      'Token Acres: Analytics',
+      vscode.ViewColumn.Active,
+      { enableScripts: true, localResourceRoots: [] }
+    );
+    AnalyticsPanel.current = new AnalyticsPanel(panel, log, getState);
+  }
+
+  private constructor(
+    private panel: vscode.WebviewPanel,
+    private log: SessionLog,
+    private getState: () => FarmState
+  ) {
+    panel.webview.html = this.getHtml(panel.webview);
+    panel.webview.onDidReceiveMessage((message) => {
+      if (message?.type === 'ready') {
+        this.load();
+      } else if (message?.type === 'range' && RANGES.includes(message.days)) {
+        this.rangeDays = message.days;
+        this.render();
+      }
+    });
+    // Seeds spent outside tasks only show up on the next redraw
+    panel.onDidChangeViewState(() => {
+      if (panel.visible) this.render();
+    });
+    log.on('appended', this.onAppended);
+    panel.onDidDispose(() => {
+      log.off('appended', this.onAppended);
+      AnalyticsPanel.current = undefined;
+    });
+  }
+
+  private async load() {
+    try {
+      const entries = await this.log.read();
+      this.records = entries.length > 0 ? entries : [...this.getState().stats.taskHistory];
+      this.render();
+    } catch (err) {
+      console.error('Token Acres: Failed to read session log', err);
+      vscode.window.showErrorMessage(`Token Acres: Failed to load analytics: ${err}`);
+    }
+  }
+
+  private render() {
+    if (!this.records) return;
+    const data = buildAnalytics(this.records, this.getState(), this.rangeDays);
+    this.panel.webview.postMessage({ type: 'analytics', data });
+  }
+
+  private getHtml(webview: vscode.Webview): string {
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy"
+    content="default-src 'none';
+             script-src 'nonce-${nonce}';
+             style-src ${webview.cspSource} 'unsafe-inline';">
+  <title>Analytics</title>
+  <style>
+    body {
+      font-family: var(--vscode-font-family);
+      font-size: var(--vscode-font-size);
+      color: var(--vscode-foreground);
+      padding: 0 16px 16px;
+    }
+
+    header {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      padding: 12px 0;
+    }
+
+    header h2 {
+      margin: 0;
+      margin-right: auto;
+    }
+
+    select {
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      border: 1px solid var(--vscode-input-border, transparent);
+      padding: 2px 4px;
+    }
+
+    .tiles {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(140px, 1fr));
+      gap: 8px;
+      margin-bottom: 16px;
+    }
+
+    .tile {
+      background: var(--vscode-editorWidget-background);
+      border: 1px solid var(--vscode-panel-border);
+      padding: 8px 12px;
+    }
+
+    .tile .value {
+      font-size: 1.6em;
+      font-weight: bold;
+    }
+
+    .tile .label {
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .charts {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(420px, 1fr));
+      gap: 16px;
+    }
+
+    .chart {
+      background: var(--vscode-editorWidget-background);
+      border: 1px solid var(--vscode-panel-border);
+      padding: 8px 12px;
+    }
+
+    .chart h3 {
+      margin: 0 0 8px;
+      font-size: 1em;
+    }
+
+    .chart svg {
+      width: 100%;
+      height: 200px;
+      overflow: visible;
+    }
+
+    .chart svg text {
+      fill: var(--vscode-descriptionForeground);
+      font-size: 10px;
+    }
+
+    .chart .axis {
+      stroke: var(--vscode-panel-border);
+    }
+
+    .legend {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px 12px;
+      margin-top: 6px;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .legend span::before {
+      content: '';
+      display: inline-block;
+      width: 10px;
+      height: 10px;
+      margin-right: 4px;
+      background: var(--swatch);
+    }
+
+    .empty {
+      color: var(--vscode-descriptionForeground);
+      padding: 40px 0;
+      text-align: center;
+    }
+  </style>
+</head>
+<body>
+  <header>
+    <h2>🌾 Farm Analytics</h2>
+    <label>Range
+      <select id="range">
+        ${RANGES.map(days => `<option value="${days}"${days === this.rangeDays ? ' selected' : ''}>Last ${days} days</option>`).join('')}
+      </select>
+    </label>
+  </header>
+  <div class="tiles" id="tiles"></div>
+  <div class="charts">
+    <div class="chart"><h3>Tasks per day</h3><div id="tasks"></div></div>
+    <div class="chart"><h3>Grade distribution</h3><div id="grades"></div></div>
+    <div class="chart"><h3>Efficiency by agent (weekly)</h3><div id="agents"></div></div>
+    <div class="chart"><h3>Seeds earned vs spent</h3><div id="economy"></div></div>
+    <div class="chart"><h3>Crop yields per season</h3><div id="yields"></div></div>
+  </div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const W = 420, H = 200, PAD = { left: 32, right: 8, top: 8, bottom: 22 };
+    const GRADE_COLORS = { S: '#f1c40f', A: '#2ecc71', B: '#5dade2', C: '#e74c3c' };
+    const PALETTE = ['#5dade2', '#f39c12', '#9b59b6', '#1abc9c', '#e74c3c', '#f1c40f', '#95a5a6', '#e67e22'];
+    const SEASON_ICONS = { spring: '🌸', summer: '☀️', fall: '🍂', winter: '❄️' };
+
+    const $ = (id) => document.getElementById(id);
+    const esc = (value) => String(value ?? '').replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]));
+    const shortDay = (day) => day.slice(5).replace('-', '/');
+
+    function legend(items) {
+      return '<div class="legend">' + items.map(([label, color]) =>
+        '<span style="--swatch:' + color + '">' + esc(label) + '</span>').join('') + '</div>';
+    }
+
+    // Y axis with a few round ticks; returns the scale function
+    function axes(max, labels, percent) {
+      const top = percent ? 100 : Math.max(1, niceCeil(max));
+      const plotH = H - PAD.top - PAD.bottom;
+      const y = (v) => PAD.top + plotH - (v / top) * plotH;
+      let svg = '<line class="axis" x1="' + PAD.left + '" x2="' + (W - PAD.right) + '" y1="' + y(0) + '" y2="' + y(0) + '"/>';
+      for (const tick of [0, top / 2, top]) {
+        svg += '<text x="' + (PAD.left - 4) + '" y="' + (y(tick) + 3) + '" text-anchor="end">' + Math.round(tick) + (percent ? '%' : '') + '</text>';
+      }
+      const step = Math.max(1, Math.ceil(labels.length / 8));
+      const slot = (W - PAD.left - PAD.right) / labels.length;
+      labels.forEach((label, i) => {
+        if (i % step === 0) {
+          svg += '<text x="' + (PAD.left + slot * (i + 0.5)) + '" y="' + (H - 6) + '" text-anchor="middle">' + esc(label) + '</text>';
+        }
+      });
+      return { svg, y, slot };
+    }
+
+    function niceCeil(value) {
+      const magnitude = Math.pow(10, Math.floor(Math.log10(value || 1)));
+      return Math.ceil(value / magnitude) * magnitude;
+    }
+
+    // series: [{ label, color, values }]; stacked bars, or side by side when grouped
+    function barChart(labels, series, options = {}) {
+      const totals = labels.map((_, i) => series.reduce((sum, s) => sum + s.values[i], 0));
+      const max = options.grouped ? Math.max(0, ...series.flatMap(s => s.values)) : Math.max(0, ...totals);
+      const { svg: axisSvg, y, slot } = axes(max, labels, options.percent);
+      let svg = axisSvg;
+      labels.forEach((label, i) => {
+        const width = slot * 0.7;
+        let x = PAD.left + slot * i + slot * 0.15;
+        let base = 0;
+        series.forEach(s => {
+          let value = s.values[i];
+          if (options.percent) value = totals[i] ? (value / totals[i]) * 100 : 0;
+          if (options.grouped) {
+            const w = width / series.length;
+            svg += rect(x, y(value), w, y(0) - y(value), s.color, label + ' ' + s.label + ': ' + s.values[i]);
+            x += w;
+          } else {
+            svg += rect(x, y(base + value), width, y(base) - y(base + value), s.color, label + ' ' + s.label + ': ' + s.values[i]);
+            base += value;
+          }
+        });
+      });
+      return '<svg viewBox="0 0 ' + W + ' ' + H + '">' + svg + '</svg>' + legend(series.map(s => [s.label, s.color]));
+    }
+
+    function rect(x, y, w, h, color, title) {
+      if (h <= 0) return '';
+      return '<rect x="' + x + '" y="' + y + '" width="' + w + '" height="' + h + '" fill="' + color + '"><title>' + esc(title) + '</title></rect>';
+    }
+
+    // series values may be null for gaps
+    function lineChart(labels, series) {
+      const { svg: axisSvg, y, slot } = axes(100, labels, true);
+      let svg = axisSvg;
+      series.forEach(s => {
+        let path = '';
+        s.values.forEach((value, i) => {
+          if (value === null) return;
+          const x = PAD.left + slot * (i + 0.5);
+          path += (path && s.values[i - 1] !== null ? 'L' : 'M') + x + ' ' + y(value);
+          svg += '<circle cx="' + x + '" cy="' + y(value) + '" r="2.5" fill="' + s.color + '"><title>' + esc(s.label + ' ' + labels[i] + ': ' + value + '%') + '</title></circle>';
+        });
+        svg += '<path d="' + path + '" fill="none" stroke="' + s.color + '" stroke-width="2"/>';
+      });
+      return '<svg viewBox="0 0 ' + W + ' ' + H + '">' + svg + '</svg>' + legend(series.map(s => [s.label, s.color]));
+    }
+
+    function empty(message) {
+      return '<div class="empty">' + esc(message) + '</div>';
+    }
+
+    function render(data) {
+      const t = data.totals;
+      $('tiles').innerHTML = [
+        [t.tasks, 'tasks'],
+        [t.activeDays + '/' + data.rangeDays, 'active days'],
+        [t.efficiency + '%', 'efficiency'],
+        [t.actions, 'farm actions'],
+        ['+' + t.earned + ' / -' + t.spent, 'seeds earned / spent'],
+      ].map(([value, label]) => '<div class="tile"><div class="value">' + esc(value) + '</div><div class="label">' + label + '</div></div>').join('');
+
+      const labels = data.days.map(d => shortDay(d.day));
+      const gradeSeries = ['S', 'A', 'B', 'C'].map(g => ({ label: g, color: GRADE_COLORS[g], values: data.days.map(d => d.grades[g]) }));
+
+      $('tasks').innerHTML = t.tasks
+        ? barChart(labels, [{ label: 'Tasks', color: '#5dade2', values: data.days.map(d => d.tasks) }])
+        : empty('No tasks in this range yet');
+      $('grades').innerHTML = t.tasks ? barChart(labels, gradeSeries, { percent: true }) : empty('No graded tasks yet');
+
+      $('agents').innerHTML = data.agents.length
+        ? lineChart(data.weeks.map(shortDay), data.agents.slice(0, PALETTE.length).map((a, i) => ({ label: a.agent, color: PALETTE[i], values: a.efficiency })))
+        : empty('No agent activity in the last 12 weeks');
+
+      $('economy').innerHTML = t.earned || t.spent
+        ? barChart(labels, [
+            { label: 'Earned', color: '#2ecc71', values: data.days.map(d => d.earned) },
+            { label: 'Spent', color: '#e67e22', values: data.days.map(d => d.spent) },
+          ], { grouped: true })
+        : empty('No seeds earned or spent in this range');
+
+      const crops = [...new Set(data.seasons.flatMap(s => Object.keys(s.harvests)))].sort();
+      $('yields').innerHTML = crops.length
+        ? barChart(
+            data.seasons.map(s => (SEASON_ICONS[s.season] ?? '') + ' ' + s.startDate.slice(5, 10).replace('-', '/')),
+            crops.map((crop, i) => ({ label: crop, color: PALETTE[i % PALETTE.length], values: data.seasons.map(s => s.harvests[crop] ?? 0) }))
+          )
+        : empty('Nothing harvested yet');
+    }
+
+    $('range').addEventListener('change', (event) => {
+      vscode.postMessage({ type: 'range', days: Number(event.target.value) });
+    });
+
+    window.addEventListener('message', (event) => {
+      if (event.data.type === 'analytics') {
+        render(event.data.data);
+      }
+    });
+
+    vscode.postMessage({ type: 'ready' });
+  </script>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,132 @@
+import { efficiencyPercent } from './efficiency-scorer';
+import { FarmState, Grade, SeasonYield, TaskRecord } from './types';
+
+const DAY_MS = 86_400_000;
+
+// Weeks of history in the per-agent efficiency trend
+const TREND_WEEKS = 12;
+
+export interface DailyActivity {
+  day: string;            // local date, YYYY-MM-DD
+  tasks: number;
+  grades: Record<Grade, number>;
+  actions: number;
+  earned: number;         // seeds
+  spent: number;
+}
+
+export interface AgentTrend {
+  agent: string;
+  tasks: number;
+  efficiency: (number | null)[];  // per week, aligned with AnalyticsData.weeks; null when idle
+}
+
+export interface AnalyticsData {
+  rangeDays: number;
+  days: DailyActivity[];  // oldest first, one per day in the range
+  weeks: string[];        // Monday of each trend week, oldest first
+  agents: AgentTrend[];   // busiest first
+  seasons: SeasonYield[];
+  totals: {
+    tasks: number;
+    actions: number;
+    efficiency: number;
+    earned: number;
+    spent: number;
+    activeDays: number;
+  };
+}
+
+/**
+ * Local calendar date of a timestamp, as YYYY-MM-DD.
+ */
+export function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Local midnight on the Monday of a timestamp's week.
+ */
+export function weekStart(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7)); // back to Monday
+  return date.getTime();
+}
+
+/**
+ * Aggregate task history and the farm's economy into dashboard series.
+ * `records` is the full session log when there is one; older installs
+ * fall back to the rolling task history in the save.
+ */
+export function buildAnalytics(records: TaskRecord[], state: FarmState, rangeDays: number, now = Date.now()): AnalyticsData {
+  const economy = state.stats.economyByDay;
+
+  // One bucket per day in the range, including empty days
+  const days: DailyActivity[] = [];
+  const byDay = new Map<string, DailyActivity>();
+  const today = new Date(now);
+  today.setHours(12, 0, 0, 0); // noon steps over DST changes safely
+  for (let i = rangeDays - 1; i >= 0; i--) {
+    const day = dayKey(today.getTime() - i * DAY_MS);
+    const bucket: DailyActivity = {
+      day,
+      tasks: 0,
+      grades: { S: 0, A: 0, B: 0, C: 0 },
+      actions: 0,
+      earned: economy[day]?.earned ?? 0,
+      spent: economy[day]?.spent ?? 0,
+    };
+    days.push(bucket);
+    byDay.set(day, bucket);
+  }
+
+  const inRange: TaskRecord[] = [];
+  for (const record of records) {
+    const bucket = byDay.get(dayKey(record.timestamp));
+    if (!bucket) continue;
+    bucket.tasks++;
+    bucket.grades[record.grade]++;
+    bucket.actions += record.actionsEarned;
+    inRange.push(record);
+  }
+
+  // Per-agent weekly efficiency over a fixed number of weeks
+  const firstWeek = weekStart(now) - (TREND_WEEKS - 1) * 7 * DAY_MS;
+  const weeks = Array.from({ length: TREND_WEEKS }, (_, i) => dayKey(firstWeek + i * 7 * DAY_MS + DAY_MS / 2));
+  const byAgent = new Map<string, TaskRecord[][]>();
+  for (const record of records) {
+    const week = Math.floor((weekStart(record.timestamp) - firstWeek + DAY_MS / 2) / (7 * DAY_MS));
+    if (week < 0 || week >= TREND_WEEKS) continue;
+    const agent = record.agentType ?? 'unknown';
+    if (!byAgent.has(agent)) {
+      byAgent.set(agent, Array.from({ length: TREND_WEEKS }, () => []));
+    }
+    byAgent.get(agent)![week].push(record);
+  }
+  const agents: AgentTrend[] = [...byAgent.entries()]
+    .map(([agent, perWeek]) => ({
+      agent,
+      tasks: perWeek.reduce((sum, week) => sum + week.length, 0),
+      efficiency: perWeek.map(week => (week.length > 0 ? efficiencyPercent(week) : null)),
+    }))
+    .sort((a, b) => b.tasks - a.tasks);
+
+  return {
+    rangeDays,
+    days,
+    weeks,
+    agents,
+    seasons: state.stats.seasonYields,
+    totals: {
+      tasks: inRange.length,
+      actions: inRange.reduce((sum, r) => sum + r.actionsEarned, 0),
+      efficiency: efficiencyPercent(inRange),
+      earned: days.reduce((sum, d) => sum + d.earned, 0),
+      spent: days.reduce((sum, d) => sum + d.spent, 0),
+      activeDays: days.filter(d => d.tasks > 0).length,
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { EfficiencyScorer, efficiencyPercent } from './efficiency-scorer';
+import { taskRecord } from './test-fixtures';
+import { TaskRecord, TaskResult } from './types';
+
+// Ten tasks at 1..10 chars per second, a minute each
+function history(agentType: string, model?: string): TaskRecord[] {
+  return Array.from({ length: 10 }, (_, i) =>
+    taskRecord(i, { agentType, model, duration: 60_000, outputLength: (i + 1) * 60 }));
+}
+
+function result(charsPerSecond: number, extra: Partial<TaskResult> = {}): TaskResult {
+  return { agentType: 'claude', duration: 60_000, outputLength: charsPerSecond * 60, success: true, ...extra };
+}
+
+describe('efficiencyPercent', () => {
+  it('maps average grades onto 0-100', () => {
+    expect(efficiencyPercent([])).toBe(0);
+    expect(efficiencyPercent([{ grade: 'C' }])).toBe(0);
+    expect(efficiencyPercent([{ grade: 'S' }])).toBe(100);
+    expect(efficiencyPercent([{ grade: 'A' }, { grade: 'B' }])).toBe(50);
+  });
+});
+
+describe('EfficiencyScorer', () => {
+  it('grades by percentile against the agent history', () => {
+    const scorer = new EfficiencyScorer(history('claude'), { mode: 'density' });
+    expect(scorer.score(result(11)).grade).toBe('S');  // above all 10
+    expect(scorer.score(result(7)).grade).toBe('A');   // above 6 of 10
+    expect(scorer.score(result(4)).grade).toBe('B');   // above 3 of 10
+    expect(scorer.score(result(2)).grade).toBe('C');   // above 1 of 10
+  });
+
+  it('gives a B until there are enough comparable tasks', () => {
+    const scorer = new EfficiencyScorer(history('claude').slice(0, 9), { mode: 'density' });
+    expect(scorer.score(result(100))).toEqual({ grade: 'B', baseline: 'default' });
+  });
+
+  it("ranks an agent only against its own history", () => {
+    const scorer = new EfficiencyScorer(history('aider'), { mode: 'density' });
+    expect(scorer.score(result(100)).baseline).toBe('default');
+    expect(scorer.score(result(100, { agentType: 'aider' }))).toEqual({ grade: 'S', baseline: 'aider' });
+  });
+
+  it('prefers a per-model baseline, falling back to the agent', () => {
+    const records = [...history('claude', 'opus'), ...history('claude', 'sonnet')];
+    const scorer = new EfficiencyScorer(records, { mode: 'density' });
+    expect(scorer.score(result(11, { model: 'opus' })).baseline).toBe('claude/opus');
+    expect(scorer.score(result(11, { model: 'haiku' })).baseline).toBe('claude');
+    scorer.configure({ byModel: false });
+    expect(scorer.score(result(11, { model: 'opus' })).baseline).toBe('claude');
+  });
+
+  it('grades failed and manual tasks without ranking them', () => {
+    const scorer = new EfficiencyScorer(history('claude'));
+    expect(scorer.score(result(100, { success: false }))).toEqual({ grade: 'C', baseline: 'failed' });
+    expect(scorer.score(result(0, { manual: true }))).toEqual({ grade: 'B', baseline: 'manual' });
+  });
+
+  it('keeps a rolling window per agent type', () => {
+    const records: TaskRecord[] = [taskRecord(0, { agentType: 'aider' })];
+    const scorer = new EfficiencyScorer(records);
+    for (let i = 1; i <= 60; i++) scorer.addRecord(taskRecord(i, { agentType: 'claude' }));
+
+    expect(records.filter(r => r.agentType === 'claude')).toHaveLength(50);
+    expect(records.filter(r => r.agentType === 'aider')).toHaveLength(1);
+  });
+
+  it('caps the whole history however many agent types it holds', () => {
+    const records: TaskRecord[] = [];
+    const scorer = new EfficiencyScorer(records);
+    for (let i = 0; i < 300; i++) scorer.addRecord(taskRecord(i, { agentType: `agent-${i % 10}` }));
+
+    expect(records).toHaveLength(200);
+    expect(records[records.length - 1].timestamp).toBe(299);
+  });
+});
@@ -1,58 +1,122 @@
-import { Grade, TaskRecord, TaskResult } from './types';
+import { Grade, ScoringOptions, TaskRecord, TaskResult } from './types';
+
+// Fields shared by TaskRecord and TaskResult that metrics read from
+type ScoredTask = Pick<TaskRecord, 'duration' | 'outputLength' | 'tokens' | 'costUsd' | 'linesChanged'>;
+type Metric = (task: ScoredTask) => number | undefined;
+
+interface Baseline {
+  label: string;
+  agentType: string;
+  model?: string;
+}
+
+export interface ScoreResult {
+  grade: Grade;
+  baseline: string;       // e.g. 'claude/claude-sonnet-4', 'aider', 'default'
+}
+
+// Cache reads are billed at a fraction of fresh input tokens
+const CACHE_READ_WEIGHT = 0.1;
+
+// Rolling window of tasks kept per agent type
+const HISTORY_WINDOW = 50;
+
+// Cap on the whole history, which is saved with the farm, however many agent types it holds
+const HISTORY_CAP = 200;
+
+const DEFAULT_OPTIONS: ScoringOptions = { mode: 'auto', minSamples: 10, byModel: true };
+
+const GRADE_POINTS: Record<Grade, number> = { S: 4, A: 3, B: 2, C: 1 };
+
+/**
+ * Average grade of a set of tasks on a 0-100 scale (all C = 0, all S = 100).
+ */
+export function efficiencyPercent(tasks: Pick<TaskRecord, 'grade'>[]): number {
+  if (tasks.length === 0) return 0;
+  const avgGrade = tasks.reduce((sum, task) => sum + (GRADE_POINTS[task.grade] ?? 2), 0) / tasks.length;
+  return Math.round(((avgGrade - 1) / 3) * 100);
+}
 
 export class EfficiencyScorer {
   private history: TaskRecord[];
+  private options: ScoringOptions;
 
-  constructor(history: TaskRecord[]) {
+  /**
+   * The history array is owned by the scorer from here on: addRecord appends
+   * to it and prunes it in place, so pass the persisted FarmState array.
+   */
+  constructor(history: TaskRecord[], options: Partial<ScoringOptions> = {}) {
     this.history = history;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  configure(options: Partial<ScoringOptions>) {
+    this.options = { ...this.options, ...options };
   }
 
   /**
    * Score a completed task using rolling percentile from history.
    * 
-   * Efficiency heuristic: outputLength / duration = output density
+   * Density heuristic: outputLength / duration = output density
    * High density = agent produced a lot quickly = efficient
    * 
-   * Without API token data, this is our best proxy for agent efficiency.
+   * Token heuristic: output per billable token and per dollar, each ranked
+   * against past tasks that reported the same metric, then averaged.
+   * 'auto' uses token metrics whenever the task reports token usage.
+   *
+   * Landed code: lines changed in git per minute is ranked alongside either
+   * heuristic whenever the task was measured, so work that actually reached
+   * the repo outweighs terminal chatter.
    */
-  score(result: TaskResult): Grade {
+  score(result: TaskResult): ScoreResult {
     if (result.manual) {
-      return 'B'; // Manual completions always B grade
+      return { grade: 'B', baseline: 'manual' }; // Manual completions always B grade
     }
-
-    // Not enough history - default to B
-    if (this.history.length < 10) {
-      return 'B';
+    if (!result.success) {
+      return { grade: 'C', baseline: 'failed' }; // Failed output isn't productive, however dense
     }
 
-    // Calculate output density: chars per second
-    const durationSec = Math.max(result.duration / 1000, 1);
-    const density = (result.outputLength || 100) / durationSec;
+    const { mode } = this.options;
+    const useTokens = mode === 'tokens' || (mode === 'auto' && !!result.tokens);
+    const metrics = useTokens
+      ? [EfficiencyScorer.outputPerToken, EfficiencyScorer.outputPerDollar]
+      : [EfficiencyScorer.outputDensity];
+    metrics.push(EfficiencyScorer.landedDensity);
 
-    // Get percentile against historical performance
-    const historicalDensities = this.history
-      .filter(h => h.duration > 0)
-      .map(h => (h.outputLength || 100) / (h.duration / 1000));
+    // Most specific baseline with enough comparable history wins
+    for (const baseline of this.baselinesFor(result)) {
+      const peers = this.history
+        .filter(h => !h.failed && this.inBaseline(h, baseline))
+        .slice(-HISTORY_WINDOW);
 
-    historicalDensities.sort((a, b) => a - b);
-    const percentile = this.getPercentile(density, historicalDensities);
+      const percentiles = metrics
+        .map(metric => this.percentileFor(metric, result, peers))
+        .filter((p): p is number => p !== undefined);
 
-    // Grade thresholds
-    if (percentile >= 90) return 'S';
-    if (percentile >= 60) return 'A';
-    if (percentile >= 30) return 'B';
-    return 'C';
+      if (percentiles.length > 0) {
+        const percentile = percentiles.reduce((sum, p) => sum + p, 0) / percentiles.length;
+        return { grade: this.percentileToGrade(percentile), baseline: baseline.label };
+      }
+    }
+
+    // Not enough comparable history - default to B
+    return { grade: 'B', baseline: 'default' };
   }
 
   /**
-   * Update internal history with new task record.
+   * Update history with a new task record, keeping a rolling window per agent type
+   * so a rarely used agent's baseline isn't evicted by a busy one, and the
+   * oldest tasks overall once the whole history reaches its cap.
    */
   addRecord(record: TaskRecord) {
     this.history.push(record);
-    // Keep rolling window of last 50 tasks
-    if (this.history.length > 50) {
-      this.history.shift();
+
+    const agentType = record.agentType ?? 'unknown';
+    const sameAgent = this.history.filter(h => (h.agentType ?? 'unknown') === agentType);
+    if (sameAgent.length > HISTORY_WINDOW) {
+      this.history.splice(this.history.indexOf(sameAgent[0]), 1);
     }
+    this.history.splice(0, this.history.length - HISTORY_CAP);
   }
 
   /**
@@ -60,20 +124,77 @@ export class EfficiencyScorer {
    */
   getCurrentEfficiency(): number {
     if (this.history.length === 0) return 50;
-    
-    const recentTasks = this.history.slice(-10);
-    const avgGrade = recentTasks.reduce((sum, task) => {
-      switch (task.grade) {
-        case 'S': return sum + 4;
-        case 'A': return sum + 3;
-        case 'B': return sum + 2;
-        case 'C': return sum + 1;
-        default: return sum + 2;
-      }
-    }, 0) / recentTasks.length;
+    return efficiencyPercent(this.history.slice(-10));
+  }
+
+  /**
+   * Rank a task on one metric against history entries that report it.
+   * Returns undefined when the task lacks the metric or history is too thin.
+   */
+  private percentileFor(metric: Metric, result: TaskResult, peers: TaskRecord[]): number | undefined {
+    const value = metric(result);
+    if (value === undefined) return undefined;
+
+    const historical = peers
+      .map(metric)
+      .filter((v): v is number => v !== undefined);
+
+    if (historical.length < this.options.minSamples) return undefined;
+
+    historical.sort((a, b) => a - b);
+    return this.getPercentile(value, historical);
+  }
+
+  private baselinesFor(result: TaskResult): Baseline[] {
+    const agentType = result.agentType ?? 'unknown';
+    const baselines: Baseline[] = [];
+    if (this.options.byModel && result.model) {
+      baselines.push({ label: `${agentType}/${result.model}`, agentType, model: result.model });
+    }
+    baselines.push({ label: agentType, agentType });
+    return baselines;
+  }
+
+  private inBaseline(record: TaskRecord, baseline: Baseline): boolean {
+    if ((record.agentType ?? 'unknown') !== baseline.agentType) return false;
+    return baseline.model === undefined || record.model === baseline.model;
+  }
+
+  private percentileToGrade(percentile: number): Grade {
+    // Grade thresholds
+    if (percentile >= 90) return 'S';
+    if (percentile >= 60) return 'A';
+    if (percentile >= 30) return 'B';
+    return 'C';
+  }
+
+  /** Chars of output per second of runtime. */
+  private static outputDensity(task: ScoredTask): number | undefined {
+    if (task.duration <= 0) return undefined;
+    const durationSec = Math.max(task.duration / 1000, 1);
+    return (task.outputLength || 100) / durationSec;
+  }
+
+  /** Chars of output per billable token. */
+  private static outputPerToken(task: ScoredTask): number | undefined {
+    if (!task.tokens) return undefined;
+    const { input, output, cacheRead = 0, cacheWrite = 0 } = task.tokens;
+    const billable = input + output + cacheWrite + cacheRead * CACHE_READ_WEIGHT;
+    if (billable <= 0) return undefined;
+    return (task.outputLength || 0) / billable;
+  }
+
+  /** Chars of output per US dollar spent. */
+  private static outputPerDollar(task: ScoredTask): number | undefined {
+    if (!task.costUsd || task.costUsd <= 0) return undefined;
+    return (task.outputLength || 0) / task.costUsd;
+  }
 
-    // Convert to percentile (1-4 scale to 0-100)
-    return Math.round(((avgGrade - 1) / 3) * 100);
+  /** Lines changed in git per minute of runtime. */
+  private static landedDensity(task: ScoredTask): number | undefined {
+    if (task.linesChanged === undefined || task.duration <= 0) return undefined;
+    const durationMin = Math.max(task.duration / 60_000, 1 / 60);
+    return task.linesChanged / durationMin;
   }
 
   private getPercentile(value: number, sortedArray: number[]): number {
@@ -85,4 +206,4 @@ export class EfficiencyScorer {
     }
     return (count / sortedArray.length) * 100;
   }
-}
\ No newline at end of file
+}
@@ -1,15 +1,25 @@
 import * as vscode from 'vscode';
-import { AgentTracker } from './agent-tracker';
+import * as os from 'os';
+import { AgentSource, LocalAgentSource } from './agent-source';
+import { RemoteAgentSource } from './agent-relay';
 import { FarmEngine } from './farm-engine';
+import { FarmSync, SyncStatus } from './farm-sync';
 import { PersistenceManager } from './persistence';
 import { TokenAcresWebviewProvider } from './webview-provider';
 import { StatusBarManager } from './status-bar';
+import { SessionLog } from './session-log';
+import { SessionHistoryPanel } from './session-history-panel';
+import { AnalyticsPanel } from './analytics-panel';
+import { ReportFormat, buildWeeklyReport, formatWeeklyReport } from './weekly-report';
+import { BudgetOptions, BudgetPeriod, BudgetUnit, ScoringMode, ScoringOptions } from './types';
 
 let farmEngine: FarmEngine;
-let agentTracker: AgentTracker;
+let agents: AgentSource;
 let webviewProvider: TokenAcresWebviewProvider;
 let statusBar: StatusBarManager;
 let persistence: PersistenceManager;
+let sessionLog: SessionLog;
+let farmSync: FarmSync | undefined;
 
 export function activate(context: vscode.ExtensionContext) {
   console.log('Token Acres extension activated');
@@ -18,9 +28,14 @@ export function activate(context: vscode.ExtensionContext) {
   persistence = new PersistenceManager(context);
   const farmState = persistence.load();
   farmEngine = new FarmEngine(farmState);
-  agentTracker = new AgentTracker();
-  webviewProvider = new TokenAcresWebviewProvider(context, farmEngine);
+  farmEngine.configureScoring(getScoringOptions());
+  farmEngine.configureBudget(getBudgetOptions());
+  // The farm always runs on the local side; in a remote window the agents
+  // are tracked on the remote machine by Token Acres Remote
+  agents = vscode.env.remoteName ? new RemoteAgentSource(vscode.env.remoteName) : new LocalAgentSource();
+  webviewProvider = new TokenAcresWebviewProvider(context, farmEngine, agents);
   statusBar = new StatusBarManager();
+  sessionLog = new SessionLog();
 
   // Register webview view
   context.subscriptions.push(
@@ -36,16 +51,32 @@ export function activate(context: vscode.ExtensionContext) {
   );
 
   // Agent tracking events
-  agentTracker.onAgentStarted((agent) => {
+  agents.onAgentStarted((agent) => {
     console.log('Agent started:', agent.processName);
     const pawn = farmEngine.spawnPawn(agent);
     webviewProvider.sendUpdate(farmEngine.getState());
     statusBar.update(farmEngine.getState());
   });
 
-  agentTracker.onAgentCompleted((agent, result) => {
+  agents.onAgentCompleted((agent, result) => {
     console.log('Agent completed:', agent.processName, 'Success:', result.success);
     const taskResult = farmEngine.completeTask(agent, result);
+    console.log(`Graded ${taskResult.grade} against ${taskResult.baseline} baseline`);
+    sessionLog.append({
+      ...taskResult.record,
+      processName: agent.processName,
+      startTime: taskResult.record.timestamp - taskResult.record.duration,
+      success: result.success !== false,
+      cropsAdvanced: taskResult.cropsAdvanced,
+      pawnId: taskResult.pawn?.id,
+      pawnName: taskResult.pawn?.name,
+    });
+    const { outcomeEvent, weatherEvent, failureEvent, streakEvent, clearEvent } = taskResult;
+    for (const event of [clearEvent, failureEvent, outcomeEvent, streakEvent, weatherEvent]) {
+      if (event) {
+        webviewProvider.sendMessage({ type: 'event', data: event });
+      }
+    }
     webviewProvider.sendUpdate(farmEngine.getState());
     persistence.save(farmEngine.getState());
     statusBar.update(farmEngine.getState());
@@ -55,28 +86,42 @@ export function activate(context: vscode.ExtensionContext) {
       vscode.window.showInformationMessage(
         `🌟 Perfect work! Your pawn earned ${taskResult.actionsEarned} farm actions!`
       );
-    } else if (taskResult.seedsEarned > 0) {
+    } else if (taskResult.itemsHarvested > 0) {
       vscode.window.showInformationMessage(
-        `🌱 Harvest complete! Earned ${taskResult.seedsEarned} seeds`
+        `🧺 Harvest complete! ${taskResult.itemsHarvested} items went to the storehouse`
       );
     }
   });
 
+  agents.onAgentIdle((agent) => {
+    console.log('Agent waiting for input:', agent.processName, agent.reason);
+    if (farmEngine.setPawnWaiting(agent.id, true)) {
+      webviewProvider.sendUpdate(farmEngine.getState());
+    }
+  });
+
+  agents.onAgentResumed((agent) => {
+    if (farmEngine.setPawnWaiting(agent.id, false)) {
+      webviewProvider.sendUpdate(farmEngine.getState());
+    }
+  });
+
+  agents.onAgentReleased((agent) => {
+    console.log('Agent released:', agent.processName);
+    farmEngine.releasePawn(agent.id);
+    webviewProvider.sendUpdate(farmEngine.getState());
+    statusBar.update(farmEngine.getState());
+  });
+
   // Git events for bonus farm actions
-  const gitExtension = vscode.extensions.getExtension('vscode.git');
-  if (gitExtension?.isActive) {
-    const gitApi = gitExtension.exports.getAPI(1);
-    if (gitApi) {
-      gitApi.repositories.forEach((repo: any) => {
-        repo.state.onDidChange(() => {
-          // Simple git bonus - any state change gives 1 farm action
-          farmEngine.onGitEvent(repo);
-          webviewProvider.sendUpdate(farmEngine.getState());
-          persistence.save(farmEngine.getState());
-        });
-      });
+  agents.onGitEvent((event) => {
+    const farmEvent = farmEngine.onGitEvent(event);
+    if (farmEvent) {
+      webviewProvider.sendMessage({ type: 'event', data: farmEvent });
+      webviewProvider.sendUpdate(farmEngine.getState());
+      persistence.save(farmEngine.getState());
     }
-  }
+  });
 
   // Farm engine events
   farmEngine.on('season-changed', (data) => {
@@ -91,7 +136,7 @@ export function activate(context: vscode.ExtensionContext) {
       type: 'event', 
       data: { 
         type: 'harvest', 
-        message: `Harvested ${data.plots.length} crops for ${data.seedsEarned} seeds!`,
+        message: `Harvested ${data.plots.length} crops: ${data.items} items in the storehouse to sell`,
         timestamp: Date.now()
       }
     });
@@ -100,6 +145,12 @@ export function activate(context: vscode.ExtensionContext) {
   // Periodic season check and auto-save
   const periodicUpdate = setInterval(() => {
     farmEngine.updateSeason();
+    // A new budget day or week clears the weather
+    const weatherEvent = farmEngine.updateWeather();
+    if (weatherEvent) {
+      webviewProvider.sendMessage({ type: 'event', data: weatherEvent });
+      webviewProvider.sendUpdate(farmEngine.getState());
+    }
     persistence.save(farmEngine.getState());
     statusBar.update(farmEngine.getState());
   }, 60_000); // every minute
@@ -108,6 +159,25 @@ export function activate(context: vscode.ExtensionContext) {
     dispose: () => clearInterval(periodicUpdate)
   });
 
+  // Live output rates for the labels above working pawns
+  const rateUpdate = setInterval(() => {
+    const sessions = farmEngine.updateOutputRates(agents.sampleOutputRates());
+    if (Object.keys(sessions).length > 0) {
+      webviewProvider.sendMessage({ type: 'pawn-sessions-update', data: { sessions } });
+    }
+  }, 2000);
+
+  context.subscriptions.push({
+    dispose: () => clearInterval(rateUpdate)
+  });
+
+  // Team farm: share plots, storehouse and seeds through a sync server
+  const restartSync = () => {
+    farmSync?.stop();
+    farmSync = startSync();
+  };
+  farmSync = startSync();
+
   // Register commands
   context.subscriptions.push(
     vscode.commands.registerCommand('tokenacres.openFarm', () => {
@@ -116,10 +186,20 @@ export function activate(context: vscode.ExtensionContext) {
     }),
 
     vscode.commands.registerCommand('tokenacres.manualComplete', () => {
-      agentTracker.manualComplete('medium');
+      agents.manualComplete();
       vscode.window.showInformationMessage('Manual task completed!');
     }),
 
+    vscode.commands.registerCommand('tokenacres.showSessionHistory', () => {
+      SessionHistoryPanel.show(sessionLog);
+    }),
+
+    vscode.commands.registerCommand('tokenacres.showAnalytics', () => {
+      AnalyticsPanel.show(sessionLog, () => farmEngine.getState());
+    }),
+
+    vscode.commands.registerCommand('tokenacres.weeklyReport', () => generateWeeklyReport()),
+
     vscode.commands.registerCommand('tokenacres.exportFarm', async () => {
       const farmData = persistence.export();
       const uri = await vscode.window.showSaveDialog({
@@ -147,9 +227,12 @@ export function activate(context: vscode.ExtensionContext) {
           
           // Reinitialize farm engine with new state
           farmEngine = new FarmEngine(newState);
-          webviewProvider = new TokenAcresWebviewProvider(context, farmEngine);
+          farmEngine.configureScoring(getScoringOptions());
+          farmEngine.configureBudget(getBudgetOptions());
+          webviewProvider = new TokenAcresWebviewProvider(context, farmEngine, agents);
           webviewProvider.sendUpdate(farmEngine.getState());
           statusBar.update(farmEngine.getState());
+          restartSync();
           
           vscode.window.showInformationMessage('Farm imported successfully!');
         } catch (error) {
@@ -189,10 +272,13 @@ export function activate(context: vscode.ExtensionContext) {
           persistence.reset();
           const newState = persistence.load();
           farmEngine = new FarmEngine(newState);
+          farmEngine.configureScoring(getScoringOptions());
+          farmEngine.configureBudget(getBudgetOptions());
           
           // Update webview with new state
           webviewProvider.sendUpdate(farmEngine.getState());
           statusBar.update(farmEngine.getState());
+          restartSync();
           
           vscode.window.showInformationMessage('Farm has been reset to its initial state.');
         }
@@ -204,8 +290,15 @@ export function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.workspace.onDidChangeConfiguration((e) => {
       if (e.affectsConfiguration('tokenacres')) {
-        // Reload agent patterns if they changed
-        agentTracker = new AgentTracker();
+        // Reload agent adapters, scope and idle settings in place so listeners stay attached
+        agents.reloadConfiguration();
+        farmEngine.configureScoring(getScoringOptions());
+        farmEngine.configureBudget(getBudgetOptions());
+        if (['syncServerUrl', 'syncFarmId', 'syncUserName', 'syncToken'].some(key => e.affectsConfiguration(`tokenacres.${key}`))) {
+          restartSync();
+        }
+        webviewProvider.sendUpdate(farmEngine.getState());
+        statusBar.update(farmEngine.getState());
         console.log('Token Acres configuration updated');
       }
     })
@@ -229,11 +322,139 @@ export function activate(context: vscode.ExtensionContext) {
   console.log('Token Acres extension fully activated');
 }
 
+/**
+ * Join the team farm configured in settings, if any. Without one the farm
+ * is personal, and pawns left over from teammates are dropped.
+ */
+function startSync(): FarmSync | undefined {
+  const config = vscode.workspace.getConfiguration('tokenacres');
+  const serverUrl = config.get<string>('syncServerUrl')?.trim();
+  if (!serverUrl) {
+    const state = farmEngine.getState();
+    state.pawns = state.pawns.filter(p => !p.owner);
+    return undefined;
+  }
+
+  const sync = new FarmSync(persistence, () => farmEngine.getState(), {
+    serverUrl,
+    farmId: config.get<string>('syncFarmId')?.trim() || 'default',
+    owner: config.get<string>('syncUserName')?.trim() || `${os.userInfo().username}@${os.hostname()}`,
+    token: config.get<string>('syncToken') || undefined,
+  });
+
+  sync.on('changed', () => {
+    webviewProvider.sendUpdate(farmEngine.getState());
+    statusBar.update(farmEngine.getState());
+    persistence.save(farmEngine.getState());
+  });
+
+  sync.on('conflicts', (count: number) => {
+    webviewProvider.sendMessage({
+      type: 'event',
+      data: {
+        type: 'sync-conflict',
+        message: `${count} farm change${count === 1 ? '' : 's'} clashed with a teammate's and ${count === 1 ? 'was' : 'were'} merged`,
+        timestamp: Date.now(),
+      },
+    });
+  });
+
+  sync.on('status', (status: SyncStatus) => {
+    if (status === 'connected') {
+      vscode.window.setStatusBarMessage('$(sync) Token Acres: Team farm synced', 5000);
+    } else {
+      vscode.window.showWarningMessage(`Token Acres: Can't reach the team farm at ${serverUrl}. Your farm keeps growing and syncs once it's back.`);
+    }
+  });
+
+  sync.start();
+  return sync;
+}
+
+/**
+ * Summarise a week of tasks as Markdown or HTML in a new editor, ready to
+ * copy into a team update or save into the workspace.
+ */
+async function generateWeeklyReport() {
+  const week = await vscode.window.showQuickPick(
+    [
+      { label: 'This week', weekOf: Date.now() },
+      { label: 'Last week', weekOf: Date.now() - 7 * 86_400_000 },
+    ],
+    { placeHolder: 'Which week should the report cover?' }
+  );
+  if (!week) return;
+  const choice = await vscode.window.showQuickPick(
+    [
+      { label: 'Markdown', format: 'markdown' as ReportFormat, extension: 'md' },
+      { label: 'HTML', format: 'html' as ReportFormat, extension: 'html' },
+    ],
+    { placeHolder: 'Report format' }
+  );
+  if (!choice) return;
+
+  let content: string;
+  let weekStart: string;
+  try {
+    // The session log has full history; older installs fall back to the save's
+    const entries = await sessionLog.read();
+    const records = entries.length > 0 ? entries : [...farmEngine.getState().stats.taskHistory];
+    const report = buildWeeklyReport(records, farmEngine.getState(), week.weekOf);
+    content = formatWeeklyReport(report, choice.format);
+    weekStart = report.weekStart;
+  } catch (err) {
+    console.error('Token Acres: Failed to build weekly report', err);
+    vscode.window.showErrorMessage(`Token Acres: Failed to build weekly report: ${err}`);
+    return;
+  }
+
+  const document = await vscode.workspace.openTextDocument({ content, language: choice.format });
+  await vscode.window.showTextDocument(document);
+
+  const folder = vscode.workspace.workspaceFolders?.[0];
+  const selection = await vscode.window.showInformationMessage(
+    `Token Acres: Weekly report for the week of ${weekStart} is ready.`,
+    ...(folder ? ['Save to Workspace'] : []),
+    'Copy'
+  );
+  if (selection === 'Copy') {
+    await vscode.env.clipboard.writeText(content);
+  } else if (selection === 'Save to Workspace' && folder) {
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.joinPath(folder.uri, `token-acres-week-${weekStart}.${choice.extension}`),
+      filters: { [choice.label]: [choice.extension] },
+    });
+    if (uri) {
+      await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+      vscode.window.showInformationMessage(`Weekly report saved to ${vscode.workspace.asRelativePath(uri)}`);
+    }
+  }
+}
+
+function getScoringOptions(): ScoringOptions {
+  const config = vscode.workspace.getConfiguration('tokenacres');
+  return {
+    mode: config.get<ScoringMode>('scoringMode') || 'auto',
+    minSamples: Math.max(1, config.get<number>('baselineMinSamples') ?? 10),
+    byModel: config.get<boolean>('baselineByModel') ?? true,
+  };
+}
+
+function getBudgetOptions(): BudgetOptions {
+  const config = vscode.workspace.getConfiguration('tokenacres');
+  return {
+    period: config.get<BudgetPeriod | 'off'>('budgetPeriod') || 'off',
+    unit: config.get<BudgetUnit>('budgetUnit') || 'usd',
+    limit: Math.max(0, config.get<number>('budgetLimit') ?? 0),
+  };
+}
+
 export function deactivate() {
   console.log('Token Acres extension deactivated');
   
   // Cleanup
-  agentTracker?.cleanup();
+  farmSync?.stop();
+  agents?.dispose();
   statusBar?.dispose();
   
   // Final save
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { FarmEngine } from './farm-engine';
+import { crop, farmState, pawn } from './test-fixtures';
+import { FarmState, PlotState } from './types';
+
+function plotAt(state: FarmState, x: number, y: number): PlotState {
+  return state.farm.plots.find(p => p.x === x && p.y === y)!;
+}
+
+describe('FarmEngine', () => {
+  describe('pawnClearPlot', () => {
+    it('clears pests for one action of growth', () => {
+      const state = farmState();
+      state.pawns.push(pawn('p1'));
+      Object.assign(plotAt(state, 2, 3), { type: 'planted', crop: crop(1, 2, { pest: true }) });
+      Object.assign(plotAt(state, 3, 3), { type: 'planted', crop: crop(1, 2) });
+      const engine = new FarmEngine(state);
+
+      expect(engine.pawnClearPlot('p1', 2, 3)?.type).toBe('plot-cleared');
+      expect(plotAt(state, 2, 3).crop!.pest).toBeUndefined();
+      expect(plotAt(state, 3, 3).crop!.tasksUntilNextStage).toBe(3);
+    });
+
+    it('costs nothing when the plot has nothing to clear', () => {
+      const state = farmState();
+      state.pawns.push(pawn('p1'));
+      Object.assign(plotAt(state, 3, 3), { type: 'planted', crop: crop(1, 2) });
+      const engine = new FarmEngine(state);
+
+      expect(engine.pawnClearPlot('p1', 3, 3)).toBeNull();
+      expect(plotAt(state, 3, 3).crop!.tasksUntilNextStage).toBe(2);
+    });
+  });
+
+  describe('buyUpgrade: land', () => {
+    it('adds a strip of empty land and keeps what is already on the farm', () => {
+      const state = farmState();
+      state.economy.seeds = 1000;
+      Object.assign(plotAt(state, 2, 3), { type: 'planted', crop: crop(2) });
+      const before = JSON.parse(JSON.stringify(state.farm));
+      const engine = new FarmEngine(state);
+
+      expect(engine.buyUpgrade('land')?.type).toBe('upgrade-bought');
+      expect(state.farm.gridSize).toBe(10);
+      expect(state.farm.plots).toHaveLength(64 + 16);
+      expect(state.farm.plots.slice(0, 64)).toEqual(before.plots);
+      expect(state.farm.buildings).toEqual(before.buildings);
+      expect(state.farm.plots.slice(64).every(p => p.x >= 8 && p.y < 8 && p.type === 'empty')).toBe(true);
+      expect(state.economy.seeds).toBe(920);
+    });
+
+    it('grows south once the farm is wider than it is tall', () => {
+      const state = farmState();
+      state.economy.seeds = 1000;
+      const engine = new FarmEngine(state);
+      engine.buyUpgrade('land');
+      engine.buyUpgrade('land');
+
+      expect(state.farm.plots.slice(80).every(p => p.y >= 8 && p.x < 10)).toBe(true);
+      expect(state.farm.plots).toHaveLength(100);
+    });
+
+    it('refuses a sixth expansion', () => {
+      const state = farmState();
+      state.economy.seeds = 5000;
+      const engine = new FarmEngine(state);
+      for (let i = 0; i < 5; i++) expect(engine.buyUpgrade('land')).not.toBeNull();
+      const plots = state.farm.plots.length;
+      const seeds = state.economy.seeds;
+
+      expect(engine.buyUpgrade('land')).toBeNull();
+      expect(state.upgrades.land).toBe(5);
+      expect(state.farm.plots).toHaveLength(plots);
+      expect(state.economy.seeds).toBe(seeds);
+    });
+  });
+
+  describe('useTool', () => {
+    it('does nothing out of reach', () => {
+      const state = farmState();
+      const engine = new FarmEngine(state);
+
+      expect(engine.useTool('hoe', 4, 1)).toBeNull();
+      expect(engine.useTool('hoe', 6, 6)).toBeNull();
+      expect(plotAt(state, 6, 6).type).toBe('empty');
+    });
+
+    it('tills only as many fields as Extra Plots allows', () => {
+      const state = farmState();
+      state.player.position = { x: 4, y: 3 };
+      const engine = new FarmEngine(state);
+
+      expect(engine.useTool('hoe', 4, 2)?.type).toBe('tool-blocked');
+      expect(plotAt(state, 4, 2).type).toBe('empty');
+
+      // Hoeing a field back into grass makes room for one elsewhere
+      expect(engine.useTool('hoe', 5, 3)?.type).toBe('tool-used');
+      expect(engine.useTool('hoe', 4, 2)?.type).toBe('tool-used');
+      expect(plotAt(state, 4, 2).type).toBe('tilled');
+
+      state.upgrades['extra-plots'] = 1;
+      expect(engine.useTool('hoe', 3, 2)?.type).toBe('tool-used');
+    });
+
+    it('cuts away pests with the scythe for one action of growth', () => {
+      const state = farmState();
+      Object.assign(plotAt(state, 4, 4), { type: 'planted', crop: crop(1, 2, { pest: true }) });
+      Object.assign(plotAt(state, 2, 3), { type: 'planted', crop: crop(1, 2) });
+      Object.assign(plotAt(state, 3, 3), { type: 'planted', crop: crop(4, 0) });
+      const engine = new FarmEngine(state);
+
+      expect(engine.useTool('scythe', 4, 4)?.type).toBe('plot-cleared');
+      expect(plotAt(state, 4, 4).crop!.pest).toBeUndefined();
+      expect(plotAt(state, 4, 4).crop!.tasksUntilNextStage).toBe(2);
+      expect(plotAt(state, 2, 3).crop!.tasksUntilNextStage).toBe(3);
+      expect(plotAt(state, 3, 3).crop!.tasksUntilNextStage).toBe(0);
+    });
+  });
+});
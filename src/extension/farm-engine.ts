@@ -1,4 +1,5 @@
 import { EventEmitter } from 'events';
+import * as path from 'path';
 import { EfficiencyScorer } from './efficiency-scorer';
 import { 
   FarmState, 
@@ -6,21 +7,95 @@ import {
   PlotState, 
   CropState, 
   TaskResult, 
+  TrackedAgent,
   TaskRecord, 
   Grade, 
   Mood, 
   Season, 
   CropType,
+  ScoringOptions,
   ItemStack,
+  FarmEvent,
+  GitEvent,
+  GitEventKind,
+  SeasonYield,
+  BudgetOptions,
+  BudgetPeriod,
+  BudgetUnit,
+  DailyEconomy,
+  PawnSessionInfo,
+  MarketListing,
+  ToolId,
+  UpgradeId,
+  UpgradeListing,
+  Weather,
   CROP_DATA 
 } from './types';
 import { InventoryManager } from './inventory';
-import { cropToHarvestItem, createItemStack } from './item-registry';
+import { Market } from './market';
+import {
+  HOE_SOIL_BOOST, LAND_STRIP_WIDTH, PLOTS_PER_LEVEL, STOREHOUSE_SLOTS_PER_LEVEL, UPGRADE_CATALOG,
+  fieldAllowance, getUpgradeListings, harvestSoilLoss, missingRequirement, pawnInventorySlots, upgradeLevel,
+} from './upgrades';
+import { cropToHarvestItem, createItemStack, getItem } from './item-registry';
+import { outcomeVerdict } from './test-outcomes';
+import { dayKey, weekStart } from './analytics';
+
+const QUALITY_ORDER: Grade[] = ['C', 'B', 'A', 'S'];
+
+// Tiles from the player a tool reaches, diagonals included
+const TOOL_REACH = 1;
+
+// Soil health a day's watering restores
+const WATERING_SOIL_BOOST = 5;
+
+// Crops the axe fells
+const FRUIT_TREES: CropType[] = ['appletree', 'lemontree'];
+
+// History kept in the save for the analytics dashboard
+const ECONOMY_DAYS_KEPT = 366;
+const SEASON_YIELDS_KEPT = 16;
+
+// Chance a failed task lets pests or weeds onto the farm
+const INFESTATION_CHANCE = 0.5;
+
+// Each run of this many successful tasks adds half a harvest item, up to the cap
+const STREAK_STEP = 3;
+const STREAK_BONUS_CAP = 1.5;
+
+// Weather by share of the budget spent; over budget is drought
+const WEATHER_THRESHOLDS: Array<[number, Weather]> = [
+  [0.5, 'clear'],
+  [0.75, 'cloudy'],
+  [0.9, 'rain'],
+  [1.0, 'storm'],
+];
+
+const WEATHER_MESSAGES: Record<Weather, string> = {
+  clear: '☀️ Skies cleared',
+  cloudy: '☁️ Clouds roll in',
+  rain: '🌧️ Rain starts to fall',
+  storm: '⛈️ A storm is brewing',
+  drought: '🏜️ Drought! Crops grow slowly until the budget resets',
+};
+
+// Farm actions granted per git event kind, and how many may be granted per hour
+const GIT_REWARDS: Record<GitEventKind, { actions: number; maxPerHour: number; label: string }> = {
+  'commit':               { actions: 1, maxPerHour: 4, label: 'Commit' },
+  'agent-commit':         { actions: 2, maxPerHour: 4, label: 'Agent co-authored commit' },
+  'tests-passing-commit': { actions: 2, maxPerHour: 4, label: 'Commit with passing tests' },
+  'merge':                { actions: 2, maxPerHour: 2, label: 'Branch merged' },
+  'revert':               { actions: 0, maxPerHour: 0, label: 'Revert' },
+};
 
 export class FarmEngine extends EventEmitter {
   private state: FarmState;
   private scorer: EfficiencyScorer;
+  private market: Market;
+  private budget: BudgetOptions = { period: 'off', unit: 'usd', limit: 0 };
   private factionColors: Array<'blue' | 'red' | 'purple' | 'yellow'> = ['blue', 'red', 'purple', 'yellow'];
+  private gitRewardTimes: Map<GitEventKind, number[]> = new Map();
+  private rewardedCommits: Map<string, number> = new Map();  // commit → when it was seen, kept for an hour
   private namePool: string[] = [
     'Ada', 'Bob', 'Cara', 'Dan', 'Eva', 'Finn', 'Gwen', 'Hal',
     'Ivy', 'Jack', 'Kate', 'Leo', 'Mia', 'Neo', 'Ora', 'Pike',
@@ -31,6 +106,7 @@ export class FarmEngine extends EventEmitter {
     super();
     this.state = initialState;
     this.scorer = new EfficiencyScorer(this.state.stats.taskHistory);
+    this.market = new Market(this.state.market);
     this.updateSeason();
   }
 
@@ -38,14 +114,23 @@ export class FarmEngine extends EventEmitter {
    * Called when an agent process starts.
    * Spawns a new Pawn or reactivates an existing idle one.
    */
-  spawnPawn(agent: { id: string; processName: string }): PawnState {
+  spawnPawn(agent: TrackedAgent): PawnState {
+    const session: PawnSessionInfo = {
+      label: agent.terminalName ?? agent.processName,
+      terminalName: agent.terminalName,
+      pid: agent.pid,
+      startTime: agent.startTime ?? Date.now(),
+      outputRate: 0,
+    };
+
     // Reuse idle pawn if one exists
-    const idlePawn = this.state.pawns.find(p => 
+    const idlePawn = this.ownPawns().find(p => 
       p.state === 'idle' && !p.agentSessionId
     );
 
     if (idlePawn) {
       idlePawn.agentSessionId = agent.id;
+      idlePawn.session = session;
       idlePawn.state = 'walking';
       this.emit('pawn-activated', idlePawn);
       return idlePawn;
@@ -53,7 +138,7 @@ export class FarmEngine extends EventEmitter {
 
     // Create new pawn
     const pawn: PawnState = {
-      id: `pawn-${Date.now()}`,
+      id: `pawn-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
       name: this.generateName(),
       factionColor: this.nextFactionColor(),
       mood: 'neutral',
@@ -66,6 +151,7 @@ export class FarmEngine extends EventEmitter {
       state: 'walking',
       position: this.getBarnPosition(),
       agentSessionId: agent.id,
+      session,
       inventory: [], // Empty inventory for new pawn
     };
 
@@ -77,66 +163,130 @@ export class FarmEngine extends EventEmitter {
   /**
    * Called when an agent task completes.
    * Scores efficiency, earns farm actions, advances crops, updates pawn.
+   * A failed task earns nothing, grows nothing and may bring pests or weeds.
    */
-  completeTask(agent: any, result: any): { grade: Grade; actionsEarned: number; seedsEarned: number } {
+  completeTask(agent: TrackedAgent | undefined, result: TaskResult): {
+    grade: Grade;
+    baseline: string;
+    actionsEarned: number;
+    itemsHarvested: number;
+    cropsAdvanced: number;
+    record: TaskRecord;
+    pawn?: PawnState;
+    outcomeEvent?: FarmEvent;
+    weatherEvent?: FarmEvent;
+    failureEvent?: FarmEvent;
+    streakEvent?: FarmEvent;
+    clearEvent?: FarmEvent;
+  } {
     const taskResult: TaskResult = {
+      agentType: result.agentType,
+      model: result.model,
+      project: result.project,
       duration: result.duration || 5000,
       exitCode: result.exitCode,
       outputLength: result.outputLength || 100,
+      outputLines: result.outputLines,
+      outputSource: result.outputSource,
       success: result.success !== false,
       manual: result.manual,
       complexity: result.complexity,
+      tokens: result.tokens,
+      costUsd: result.costUsd,
+      toolCalls: result.toolCalls,
+      turns: result.turns,
+      filesTouched: result.filesTouched,
+      linesChanged: result.linesChanged,
+      filesChanged: result.filesChanged,
+      outcome: result.outcome,
+      continuing: result.continuing,
     };
 
-    const grade = this.scorer.score(taskResult);
-    const actionsEarned = this.gradeToActions(grade);
+    const failed = !taskResult.success;
+    const { grade, baseline } = this.scorer.score(taskResult);
+    const actionsEarned = failed ? 0 : this.gradeToActions(grade);
 
     // Record task
     const record: TaskRecord = {
       timestamp: Date.now(),
       agentId: agent?.id,
+      agentType: taskResult.agentType,
+      model: taskResult.model,
+      baseline,
+      project: taskResult.project,
       duration: taskResult.duration,
       outputLength: taskResult.outputLength,
+      outputLines: taskResult.outputLines,
+      outputSource: taskResult.outputSource,
+      tokens: taskResult.tokens,
+      costUsd: taskResult.costUsd,
+      toolCalls: taskResult.toolCalls,
+      turns: taskResult.turns,
+      linesChanged: taskResult.linesChanged,
+      filesChanged: taskResult.filesChanged,
+      outcome: taskResult.outcome,
+      failed: failed || undefined,
       grade,
       actionsEarned,
     };
 
-    this.state.stats.taskHistory.push(record);
-    if (this.state.stats.taskHistory.length > 50) {
-      this.state.stats.taskHistory.shift(); // Rolling window
-    }
-    this.state.stats.totalTasksCompleted++;
+    // Scorer shares the taskHistory array and maintains its rolling window
     this.scorer.addRecord(record);
+    this.state.stats.totalTasksCompleted++;
+    this.recordProjectTask(record);
+    this.recordSpend(record);
+    const weatherEvent = this.updateWeather() ?? undefined;
+    const streakEvent = taskResult.manual ? undefined : this.updateStreak(failed);
 
     // Update pawn
-    const pawn = this.state.pawns.find(p => p.agentSessionId === agent?.id);
+    const pawn = this.ownPawns().find(p => p.agentSessionId === agent?.id);
     if (pawn) {
       pawn.totalTasks++;
       pawn.state = grade === 'S' ? 'celebrating' : 'working';
       pawn.mood = this.gradeToMood(grade);
       pawn.lifetimeEfficiency = this.calculatePawnEfficiency(pawn);
       
-      // Assign pawn to a plot for work animation
-      const workPlot = this.findPlotForWork();
+      // Assign pawn to a plot for work animation; pests and weeds come first
+      const workPlot = (failed ? undefined : this.findInfestedPlot()) ?? this.findPlotForWork();
       if (workPlot) {
         pawn.assignedPlot = { x: workPlot.x, y: workPlot.y };
       }
 
-      // Free the pawn after work animation
+      // Free the pawn after work animation; a pawn whose session is still
+      // running goes back to walking and waits for the next turn
       setTimeout(() => {
         if (pawn.agentSessionId === agent?.id) {
-          pawn.agentSessionId = undefined;
-          pawn.state = 'idle';
           pawn.assignedPlot = undefined;
+          if (taskResult.continuing) {
+            pawn.state = pawn.waitingSince ? 'resting' : 'walking';
+          } else {
+            pawn.agentSessionId = undefined;
+            pawn.session = undefined;
+            pawn.waitingSince = undefined;
+            pawn.state = 'idle';
+          }
         }
       }, 3000);
     }
 
-    // Advance all planted crops
-    this.advanceCrops(actionsEarned);
+    // Clearing the pawn's plot takes one of the task's actions
+    let growthActions = actionsEarned;
+    let clearEvent: FarmEvent | undefined;
+    if (pawn?.assignedPlot && !failed) {
+      const plot = this.getPlot(pawn.assignedPlot.x, pawn.assignedPlot.y);
+      clearEvent = (plot && this.clearInfestation(plot, pawn.name, pawn.id)) ?? undefined;
+      if (clearEvent) growthActions--;
+    }
+
+    // Advance all planted crops; a failed task may infest a plot instead
+    const cropsAdvanced = this.advanceCrops(growthActions);
+    const failureEvent = failed ? this.infest() : undefined;
+
+    // Test/build results from the task act on crop quality
+    const outcomeEvent = this.applyOutcome(taskResult);
 
     // Process harvests
-    const seedsEarned = this.processHarvests();
+    const itemsHarvested = this.processHarvests();
 
     // Auto-plant logic: find idle pawn and empty tilled plot
     this.performAutoPlanting();
@@ -144,19 +294,289 @@ export class FarmEngine extends EventEmitter {
     // Update lifetime efficiency
     this.state.stats.lifetimeEfficiency = this.scorer.getCurrentEfficiency();
 
-    this.emit('task-completed', { pawn, grade, actionsEarned, seedsEarned });
+    this.emit('task-completed', { pawn, grade, baseline, actionsEarned, itemsHarvested, outcomeEvent });
     
-    return { grade, actionsEarned, seedsEarned };
+    return {
+      grade, baseline, actionsEarned, itemsHarvested, cropsAdvanced, record, pawn,
+      outcomeEvent, weatherEvent, failureEvent, streakEvent, clearEvent,
+    };
+  }
+
+  /**
+   * Keep per-project totals, which outlive the rolling task history.
+   */
+  private recordProjectTask(record: TaskRecord) {
+    if (!record.project) return;
+
+    const projects = this.state.stats.projects;
+    const stats = projects[record.project] ??= {
+      name: path.basename(record.project),
+      tasksCompleted: 0,
+      actionsEarned: 0,
+      gradeCounts: { S: 0, A: 0, B: 0, C: 0 },
+      lastTaskAt: 0,
+    };
+    stats.tasksCompleted++;
+    stats.actionsEarned += record.actionsEarned;
+    stats.gradeCounts[record.grade]++;
+    stats.lastTaskAt = record.timestamp;
+  }
+
+  /**
+   * Add seeds earned or spent to today's totals.
+   */
+  private recordEconomy(kind: 'earned' | 'spent', amount: number) {
+    this.economyDay(Date.now())[kind] += amount;
+  }
+
+  /**
+   * Add a task's tokens and cost to today's agent spend.
+   */
+  private recordSpend(record: TaskRecord) {
+    const tokens = record.tokens ? record.tokens.input + record.tokens.output : 0;
+    if (!tokens && !record.costUsd) return;
+
+    const today = this.economyDay(record.timestamp);
+    today.tokens = (today.tokens ?? 0) + tokens;
+    today.costUsd = (today.costUsd ?? 0) + (record.costUsd ?? 0);
+  }
+
+  /**
+   * The economy bucket for a timestamp's day, created on first use.
+   * Keeps about a year of days.
+   */
+  private economyDay(timestamp: number): DailyEconomy {
+    const days = this.state.stats.economyByDay;
+    const key = dayKey(timestamp);
+    if (!days[key]) {
+      days[key] = { earned: 0, spent: 0 };
+      Object.keys(days).sort().slice(0, -ECONOMY_DAYS_KEPT).forEach(day => delete days[day]);
+    }
+    return days[key];
+  }
+
+  /**
+   * Add a harvest to the current season's yield and today's totals.
+   */
+  private recordHarvest(crop: CropState, quantity: number, value: number) {
+    const yields = this.state.stats.seasonYields;
+    const { currentSeason, seasonStartDate } = this.state.stats;
+    let current: SeasonYield | undefined = yields[yields.length - 1];
+    if (!current || current.season !== currentSeason || current.startDate !== seasonStartDate) {
+      current = { season: currentSeason, startDate: seasonStartDate, harvests: {}, goldenHarvests: 0, seedsEarned: 0 };
+      yields.push(current);
+      yields.splice(0, yields.length - SEASON_YIELDS_KEPT);
+    }
+    current.harvests[crop.type] = (current.harvests[crop.type] ?? 0) + quantity;
+    current.seedsEarned += value;
+    if (crop.isGolden) current.goldenHarvests++;
+
+    const today = this.economyDay(Date.now());
+    const harvests = today.harvests ??= {};
+    harvests[crop.type] = (harvests[crop.type] ?? 0) + quantity;
+  }
+
+  /**
+   * Green tests raise the quality of the weakest growing crop one grade;
+   * a failing test or build run lets pests onto a crop instead, damaging
+   * its soil and holding it back until they are cleared.
+   */
+  private applyOutcome(result: TaskResult): FarmEvent | undefined {
+    const verdict = outcomeVerdict(result.outcome);
+    const planted = this.state.farm.plots.filter(p => p.type === 'planted' && p.crop);
+    if (!verdict || planted.length === 0) return undefined;
+
+    if (verdict === 'green') {
+      const plot = planted.reduce((worst, p) =>
+        QUALITY_ORDER.indexOf(p.crop!.quality) < QUALITY_ORDER.indexOf(worst.crop!.quality) ? p : worst
+      );
+      const crop = plot.crop!;
+      const next = QUALITY_ORDER[QUALITY_ORDER.indexOf(crop.quality) + 1];
+      if (!next) return undefined; // every crop is already S quality
+
+      crop.quality = next;
+      const cases = result.outcome?.test?.passedCount;
+      return {
+        type: 'tests-passed',
+        message: `Tests passed${cases ? ` (${cases})` : ''} — ${crop.type} quality rose to ${next}`,
+        timestamp: Date.now(),
+      };
+    }
+
+    const healthy = planted.filter(p => !p.crop!.pest);
+    const candidates = healthy.length > 0 ? healthy : planted;
+    const plot = candidates[Math.floor(Math.random() * candidates.length)];
+    const crop = plot.crop!;
+    plot.soilHealth = Math.max(0, plot.soilHealth - 20);
+    crop.tasksUntilNextStage += 1;
+    crop.pest = true;
+    const failed = result.outcome?.test?.lastPassed === false ? 'tests' : 'build';
+    return {
+      type: 'pest',
+      message: `🐛 Pests! Failing ${failed} let bugs into the ${crop.type} at (${plot.x}, ${plot.y}) and it won't grow until a pawn clears them`,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Count consecutive successful tasks; a failure resets the streak.
+   * Announces each step up in the harvest bonus and the loss of one.
+   */
+  private updateStreak(failed: boolean): FarmEvent | undefined {
+    const stats = this.state.stats;
+    const previous = stats.successStreak;
+
+    if (failed) {
+      stats.successStreak = 0;
+      if (this.streakBonus(previous) === 0) return undefined;
+      return {
+        type: 'streak-broken',
+        message: `💔 A failed task ended a ${previous}-task streak`,
+        timestamp: Date.now(),
+      };
+    }
+
+    stats.successStreak = previous + 1;
+    stats.bestStreak = Math.max(stats.bestStreak, stats.successStreak);
+    const bonus = this.streakBonus(stats.successStreak);
+    if (bonus === this.streakBonus(previous)) return undefined;
+    return {
+      type: 'streak',
+      message: `🔥 ${stats.successStreak} successful tasks in a row — harvests yield +${bonus} items`,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Extra harvest items granted by a success streak.
+   */
+  private streakBonus(streak: number): number {
+    return Math.min(STREAK_BONUS_CAP, Math.floor(streak / STREAK_STEP) * 0.5);
+  }
+
+  /**
+   * After a failed task, maybe let pests onto a growing crop or weeds onto
+   * an empty plot. Either stays until a pawn clears it.
+   */
+  private infest(): FarmEvent {
+    const candidates = this.state.farm.plots.filter(p =>
+      (p.type === 'planted' && p.crop && !p.crop.pest && p.crop.stage < p.crop.maxStages) ||
+      (p.type === 'tilled' && !p.weeds)
+    );
+    if (candidates.length === 0 || Math.random() >= INFESTATION_CHANCE) {
+      return { type: 'task-failed', message: '❌ Task failed — nothing grew', timestamp: Date.now() };
+    }
+
+    const plot = candidates[Math.floor(Math.random() * candidates.length)];
+    if (plot.crop) {
+      plot.crop.pest = true;
+      return {
+        type: 'pest',
+        message: `🐛 Task failed — pests got into the ${plot.crop.type} at (${plot.x}, ${plot.y}) and it won't grow until a pawn clears them`,
+        timestamp: Date.now(),
+      };
+    }
+    plot.weeds = true;
+    return {
+      type: 'weeds',
+      message: `🌿 Task failed — weeds sprang up at (${plot.x}, ${plot.y}) and block planting until a pawn clears them`,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Remove the pests or weeds on a plot, by a pawn or (without a pawn id)
+   * the player. Returns null when there were none.
+   */
+  private clearInfestation(plot: PlotState, clearedBy: string, pawnId?: string): FarmEvent | null {
+    let cleared: string;
+    if (plot.crop?.pest) {
+      plot.crop.pest = undefined;
+      cleared = `the pests off the ${plot.crop.type}`;
+    } else if (plot.weeds) {
+      plot.weeds = undefined;
+      cleared = 'the weeds';
+    } else {
+      return null;
+    }
+
+    this.emit('plot-cleared', { plot, pawnId });
+    return {
+      type: 'plot-cleared',
+      message: `🧹 ${clearedBy} cleared ${cleared} at (${plot.x}, ${plot.y})`,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Called when a session ends whose work was already scored turn by turn.
+   * Frees the pawn without recording another task.
+   */
+  releasePawn(sessionId: string): PawnState | undefined {
+    const pawn = this.ownPawns().find(p => p.agentSessionId === sessionId);
+    if (pawn) {
+      pawn.agentSessionId = undefined;
+      pawn.session = undefined;
+      pawn.waitingSince = undefined;
+      pawn.state = 'idle';
+      pawn.assignedPlot = undefined;
+      this.emit('pawn-released', pawn);
+    }
+    return pawn;
+  }
+
+  /**
+   * Mark a session's pawn as resting while its agent waits for user input,
+   * or back to walking once the agent resumes. A pawn mid work animation
+   * picks the state up when the animation ends.
+   */
+  setPawnWaiting(sessionId: string, waiting: boolean): PawnState | undefined {
+    const pawn = this.ownPawns().find(p => p.agentSessionId === sessionId);
+    if (!pawn) return undefined;
+
+    pawn.waitingSince = waiting ? Date.now() : undefined;
+    if (pawn.state === 'walking' || pawn.state === 'resting') {
+      pawn.state = waiting ? 'resting' : 'walking';
+    }
+    this.emit(waiting ? 'pawn-waiting' : 'pawn-resumed', pawn);
+    return pawn;
+  }
+
+  /**
+   * Store freshly sampled output rates (bytes per second, keyed by session
+   * id) on the pawns working those sessions. Returns every working pawn's
+   * session info, keyed by pawn id.
+   */
+  updateOutputRates(rates: Map<string, number>): Record<string, PawnSessionInfo> {
+    const sessions: Record<string, PawnSessionInfo> = {};
+    for (const pawn of this.ownPawns()) {
+      if (!pawn.agentSessionId || !pawn.session) continue;
+      pawn.session.outputRate = rates.get(pawn.agentSessionId) ?? 0;
+      sessions[pawn.id] = pawn.session;
+    }
+    return sessions;
+  }
+
+  /**
+   * The agent session a pawn is working for, if any.
+   */
+  getPawnSessionId(pawnId: string): string | undefined {
+    return this.ownPawns().find(p => p.id === pawnId)?.agentSessionId;
   }
 
   /**
    * Advance all planted crops by N steps.
+   * Returns how many crops grew at least one stage.
    */
-  private advanceCrops(steps: number) {
+  private advanceCrops(steps: number): number {
+    let advanced = 0;
     for (const plot of this.state.farm.plots) {
-      if (plot.type === 'planted' && plot.crop) {
+      if (plot.type === 'planted' && plot.crop && !plot.crop.pest) {
         const crop = plot.crop;
         const soilPenalty = plot.soilHealth < 50 ? 1 : 0;
+        const sprinklers = upgradeLevel(this.state.upgrades, 'sprinklers') > 0;
+        const droughtPenalty = this.state.budget?.weather === 'drought' && !sprinklers ? 1 : 0;
+        const stageBefore = crop.stage;
         
         crop.tasksUntilNextStage -= steps;
 
@@ -165,7 +585,7 @@ export class FarmEngine extends EventEmitter {
           
           if (crop.stage < crop.maxStages) {
             const baseTasks = CROP_DATA[crop.type].tasksPerStage;
-            crop.tasksUntilNextStage += baseTasks + soilPenalty;
+            crop.tasksUntilNextStage += baseTasks + soilPenalty + droughtPenalty;
           }
 
           // Check for golden crop chance (5% for S-tier quality)
@@ -173,15 +593,33 @@ export class FarmEngine extends EventEmitter {
             crop.isGolden = true;
           }
         }
+
+        if (crop.stage > stageBefore) {
+          advanced++;
+        }
+      }
+    }
+    return advanced;
+  }
+
+  /**
+   * Take one action of growth back from every growing crop: the cost of
+   * clearing a plot by hand, as a pawn spends one of its task's actions.
+   */
+  private holdBackCrops() {
+    for (const plot of this.state.farm.plots) {
+      if (plot.type === 'planted' && plot.crop && !plot.crop.pest && plot.crop.stage < plot.crop.maxStages) {
+        plot.crop.tasksUntilNextStage++;
       }
     }
   }
 
   /**
-   * Harvest ready crops and add to storehouse inventory.
+   * Harvest ready crops into the storehouse; they earn seeds once sold at
+   * the market. Returns the number of items harvested.
    */
   private processHarvests(): number {
-    let totalSeeds = 0;
+    let totalItems = 0;
     const harvestedPlots: PlotState[] = [];
 
     for (const plot of this.state.farm.plots) {
@@ -197,12 +635,11 @@ export class FarmEngine extends EventEmitter {
           this.addToStorehouse(harvestItemId, harvestQuantity);
         }
 
-        // Calculate seed value for tracking (economy stats)
-        const sellValue = this.calculateSellValue(crop, plot.soilHealth);
-        totalSeeds += sellValue;
+        totalItems += harvestQuantity;
+        this.recordHarvest(crop, harvestQuantity, this.market.price(harvestItemId, this.state.stats.currentSeason) * harvestQuantity);
 
         // Degrade soil health from harvest
-        plot.soilHealth = Math.max(0, plot.soilHealth - 10);
+        plot.soilHealth = Math.max(0, plot.soilHealth - harvestSoilLoss(this.state.upgrades));
 
         // Check if crop regrows
         const cropData = CROP_DATA[crop.type];
@@ -220,15 +657,11 @@ export class FarmEngine extends EventEmitter {
       }
     }
 
-    if (totalSeeds > 0) {
-      // For now, still award seeds for backwards compatibility
-      // In the future, selling system will convert items to seeds
-      this.state.economy.seeds += totalSeeds;
-      this.state.economy.totalEarned += totalSeeds;
-      this.emit('crops-harvested', { plots: harvestedPlots, seedsEarned: totalSeeds });
+    if (harvestedPlots.length > 0) {
+      this.emit('crops-harvested', { plots: harvestedPlots, items: totalItems });
     }
 
-    return totalSeeds;
+    return totalItems;
   }
 
   /**
@@ -236,7 +669,7 @@ export class FarmEngine extends EventEmitter {
    */
   plantCrop(plotX: number, plotY: number, cropType: CropType): boolean {
     const plot = this.getPlot(plotX, plotY);
-    if (!plot || plot.type !== 'tilled') {
+    if (!plot || plot.type !== 'tilled' || plot.weeds) {
       return false;
     }
 
@@ -255,6 +688,7 @@ export class FarmEngine extends EventEmitter {
     // Deduct seed cost
     this.state.economy.seeds -= seedCost;
     this.state.economy.totalSpent += seedCost;
+    this.recordEconomy('spent', seedCost);
 
     // Create crop with quality based on current efficiency
     const efficiency = this.scorer.getCurrentEfficiency();
@@ -308,13 +742,39 @@ export class FarmEngine extends EventEmitter {
   }
 
   /**
-   * Handle git events (bonus farm actions).
+   * Handle a classified git event. Each kind grants its own number of farm
+   * actions, capped per hour so repeated commits can't farm endless growth.
+   * Returns the FarmEvent for the farm log, or null if nothing was granted.
    */
-  onGitEvent(repo: any) {
-    // Simple bonus: each commit gives 1 extra farm action
-    this.advanceCrops(1);
-    this.processHarvests();
-    this.emit('git-bonus', { actionsEarned: 1 });
+  onGitEvent(event: GitEvent): FarmEvent | null {
+    const hourAgo = event.timestamp - 60 * 60_000;
+    for (const [commit, seenAt] of this.rewardedCommits) {
+      if (seenAt <= hourAgo) this.rewardedCommits.delete(commit);
+    }
+    if (this.rewardedCommits.has(event.commit)) {
+      return null; // same commit seen through another repository handle
+    }
+    this.rewardedCommits.set(event.commit, event.timestamp);
+
+    const reward = GIT_REWARDS[event.kind];
+    const recent = (this.gitRewardTimes.get(event.kind) ?? []).filter(t => t > hourAgo);
+
+    let message: string;
+    if (reward.actions === 0) {
+      message = `${reward.label}: ${event.summary} — no growth`;
+    } else if (recent.length >= reward.maxPerHour) {
+      return null; // rate-limited
+    } else {
+      recent.push(event.timestamp);
+      this.advanceCrops(reward.actions);
+      this.processHarvests();
+      message = `${reward.label}: ${event.summary} — +${reward.actions} farm action${reward.actions > 1 ? 's' : ''}`;
+    }
+    this.gitRewardTimes.set(event.kind, recent);
+
+    const farmEvent: FarmEvent = { type: `git-${event.kind}`, message, timestamp: event.timestamp };
+    this.emit('git-bonus', { event, actionsEarned: reward.actions, farmEvent });
+    return farmEvent;
   }
 
   /**
@@ -347,6 +807,8 @@ export class FarmEngine extends EventEmitter {
             sellValue: plot.crop.stage >= plot.crop.maxStages ? 
                       this.calculateSellValue(plot.crop, plot.soilHealth) : null,
             soilHealth: plot.soilHealth,
+            pest: plot.crop.pest ?? false,
+            watered: plot.wateredOn === dayKey(Date.now()),
           }
         };
       } else {
@@ -356,6 +818,8 @@ export class FarmEngine extends EventEmitter {
           data: {
             plotType: plot.type,
             soilHealth: plot.soilHealth,
+            weeds: plot.weeds ?? false,
+            watered: plot.wateredOn === dayKey(Date.now()),
           }
         };
       }
@@ -412,10 +876,10 @@ export class FarmEngine extends EventEmitter {
    * Pawn picks up items (direct to inventory)
    */
   pawnPickup(pawnId: string, itemId: string, quantity: number): boolean {
-    const pawn = this.state.pawns.find(p => p.id === pawnId);
+    const pawn = this.ownPawns().find(p => p.id === pawnId);
     if (!pawn) return false;
 
-    const result = InventoryManager.addItem(pawn.inventory, itemId, quantity, 5);
+    const result = InventoryManager.addItem(pawn.inventory, itemId, quantity, pawnInventorySlots(this.state.upgrades));
     
     if (result.processed > 0) {
       this.emit('pawn-inventory-update', { pawnId, inventory: pawn.inventory });
@@ -428,7 +892,7 @@ export class FarmEngine extends EventEmitter {
    * Pawn deposits items (direct from inventory)
    */
   pawnDeposit(pawnId: string, itemId: string, quantity: number): boolean {
-    const pawn = this.state.pawns.find(p => p.id === pawnId);
+    const pawn = this.ownPawns().find(p => p.id === pawnId);
     if (!pawn) return false;
 
     const result = InventoryManager.removeItem(pawn.inventory, itemId, quantity);
@@ -444,7 +908,7 @@ export class FarmEngine extends EventEmitter {
    * Pawn deposits all items to storehouse
    */
   pawnDepositAll(pawnId: string): void {
-    const pawn = this.state.pawns.find(p => p.id === pawnId);
+    const pawn = this.ownPawns().find(p => p.id === pawnId);
     if (!pawn) return;
 
     const uniqueItems = InventoryManager.getUniqueItems(pawn.inventory);
@@ -470,7 +934,7 @@ export class FarmEngine extends EventEmitter {
    * Transfer items from pawn to storehouse
    */
   transferToStorehouse(pawnId: string, itemId: string, quantity: number): boolean {
-    const pawn = this.state.pawns.find(p => p.id === pawnId);
+    const pawn = this.ownPawns().find(p => p.id === pawnId);
     if (!pawn) return false;
 
     const result = InventoryManager.transfer(
@@ -493,7 +957,7 @@ export class FarmEngine extends EventEmitter {
    * Withdraw items from storehouse to pawn
    */
   withdrawFromStorehouse(pawnId: string, itemId: string, quantity: number): boolean {
-    const pawn = this.state.pawns.find(p => p.id === pawnId);
+    const pawn = this.ownPawns().find(p => p.id === pawnId);
     if (!pawn) return false;
 
     const result = InventoryManager.transfer(
@@ -501,7 +965,7 @@ export class FarmEngine extends EventEmitter {
       pawn.inventory,
       itemId,
       quantity,
-      5 // Pawn inventory max slots
+      pawnInventorySlots(this.state.upgrades)
     );
 
     if (result.processed > 0) {
@@ -523,7 +987,7 @@ export class FarmEngine extends EventEmitter {
    * Get pawn inventory
    */
   getPawnInventory(pawnId: string): ItemStack[] {
-    const pawn = this.state.pawns.find(p => p.id === pawnId);
+    const pawn = this.ownPawns().find(p => p.id === pawnId);
     return pawn ? [...pawn.inventory] : []; // Return copy
   }
 
@@ -543,10 +1007,224 @@ export class FarmEngine extends EventEmitter {
    * Check if pawn can carry items
    */
   canPawnCarry(pawnId: string, itemId: string, quantity: number): boolean {
-    const pawn = this.state.pawns.find(p => p.id === pawnId);
+    const pawn = this.ownPawns().find(p => p.id === pawnId);
     if (!pawn) return false;
 
-    return InventoryManager.hasSpace(pawn.inventory, itemId, quantity, 5);
+    return InventoryManager.hasSpace(pawn.inventory, itemId, quantity, pawnInventorySlots(this.state.upgrades));
+  }
+
+  // ===== MARKET =====
+
+  /**
+   * Sellable items at today's prices and how many the storehouse holds
+   */
+  getMarketListings(): MarketListing[] {
+    return this.market.getListings(this.state.storehouse.inventory, this.state.stats.currentSeason);
+  }
+
+  /**
+   * Sell storehouse items for seeds. Prices fall as the same item floods the market.
+   */
+  sellItem(itemId: string, quantity: number): FarmEvent | null {
+    const sale = this.market.sell(this.state.storehouse.inventory, itemId, quantity, this.state.stats.currentSeason);
+    if (!sale) return null;
+
+    this.state.economy.seeds += sale.earned;
+    this.state.economy.totalEarned += sale.earned;
+    this.recordEconomy('earned', sale.earned);
+    this.emit('storehouse-update', { inventory: this.state.storehouse.inventory });
+
+    return {
+      type: 'market-sale',
+      message: `Sold ${sale.quantity} ${sale.name} for ${sale.earned} seeds`,
+      timestamp: Date.now(),
+    };
+  }
+
+  // ===== UPGRADES =====
+
+  /**
+   * Every upgrade with its level, next cost and anything blocking it
+   */
+  getUpgradeListings(): UpgradeListing[] {
+    return getUpgradeListings(this.state.upgrades).map(listing =>
+      listing.id === 'extra-plots' && !listing.locked && listing.cost !== undefined && this.findPlotsToTill(1).length === 0
+        ? { ...listing, locked: 'Needs a Land Expansion' }
+        : listing
+    );
+  }
+
+  /**
+   * Buy the next level of an upgrade with seeds and apply it.
+   * Returns null when it is maxed, locked or unaffordable.
+   */
+  buyUpgrade(id: UpgradeId): FarmEvent | null {
+    const definition = UPGRADE_CATALOG[id];
+    if (!definition) return null;
+
+    const upgrades = this.state.upgrades;
+    const level = upgradeLevel(upgrades, id);
+    const cost = definition.costs[level];
+    if (cost === undefined || missingRequirement(upgrades, id) || this.state.economy.seeds < cost) {
+      return null;
+    }
+    if (id === 'extra-plots' && this.findPlotsToTill(1).length === 0) {
+      return null;
+    }
+
+    this.state.economy.seeds -= cost;
+    this.state.economy.totalSpent += cost;
+    this.recordEconomy('spent', cost);
+    upgrades[id] = level + 1;
+
+    switch (id) {
+      case 'land':
+        this.expandLand();
+        break;
+      case 'extra-plots':
+        for (const plot of this.findPlotsToTill(PLOTS_PER_LEVEL)) {
+          plot.type = 'tilled';
+        }
+        break;
+      case 'storehouse':
+        this.state.storehouse.capacity += STOREHOUSE_SLOTS_PER_LEVEL;
+        break;
+      case 'hoe':
+        for (const plot of this.state.farm.plots) {
+          if (plot.type === 'tilled' || plot.type === 'planted') {
+            plot.soilHealth = Math.min(100, plot.soilHealth + HOE_SOIL_BOOST);
+          }
+        }
+        break;
+      // Pawn packs, sprinklers and boots apply where they are used
+    }
+
+    const name = definition.names[Math.min(level, definition.names.length - 1)];
+    const levelLabel = definition.costs.length > 1 ? ` (level ${level + 1})` : '';
+    return {
+      type: 'upgrade-bought',
+      message: `Bought ${name}${levelLabel} for ${cost} seeds`,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Empty plots closest to the existing fields, skipping building sites
+   */
+  private findPlotsToTill(count: number): PlotState[] {
+    const fields = this.state.farm.plots.filter(p => p.type === 'tilled' || p.type === 'planted');
+    const buildings = new Set(this.state.farm.buildings.map(b => `${b.position.x},${b.position.y}`));
+    const distance = (plot: PlotState) => fields.length === 0 ? 0 :
+      Math.min(...fields.map(f => Math.abs(f.x - plot.x) + Math.abs(f.y - plot.y)));
+
+    return this.state.farm.plots
+      .filter(p => p.type === 'empty' && !buildings.has(`${p.x},${p.y}`))
+      .sort((a, b) => distance(a) - distance(b) || a.y - b.y || a.x - b.x)
+      .slice(0, count);
+  }
+
+  /**
+   * Add a strip of empty land along the east shore, or along the south
+   * shore once the farm is wider than it is tall
+   */
+  private expandLand() {
+    const plots = this.state.farm.plots;
+    const width = Math.max(...plots.map(p => p.x)) + 1;
+    const height = Math.max(...plots.map(p => p.y)) + 1;
+    const east = width <= height;
+
+    for (let strip = 0; strip < LAND_STRIP_WIDTH; strip++) {
+      for (let i = 0; i < (east ? height : width); i++) {
+        plots.push({
+          x: east ? width + strip : i,
+          y: east ? i : height + strip,
+          type: 'empty',
+          soilHealth: 80, // Same as the starting land
+        });
+      }
+    }
+
+    this.state.farm.gridSize = east ? Math.max(width + LAND_STRIP_WIDTH, height) : Math.max(width, height + LAND_STRIP_WIDTH);
+  }
+
+  // ===== TOOLS =====
+
+  /**
+   * The player uses a tool on a plot within reach:
+   *  - hoe: tills grass or path, up to the fields Extra Plots allows, or
+   *    turns bare soil back into grass
+   *  - watering can: waters soil once a day for a little soil health
+   *  - axe: fells a fruit tree, or breaks a path back up into grass
+   *  - scythe: cuts away pests or weeds for one action of crop growth, as a
+   *    pawn does, or mows grass into a path
+   * Returns a farm log event, or null when the tool does nothing there.
+   */
+  useTool(toolId: ToolId, x: number, y: number, now = Date.now()): FarmEvent | null {
+    const plot = this.getPlot(x, y);
+    if (getItem(toolId)?.category !== 'tool' || !plot) return null;
+
+    const { position } = this.state.player;
+    if (Math.max(Math.abs(position.x - x), Math.abs(position.y - y)) > TOOL_REACH) return null;
+
+    const buildingSite = plot.type === 'building' ||
+      this.state.farm.buildings.some(b => b.position.x === x && b.position.y === y);
+    let message: string | undefined;
+
+    switch (toolId) {
+      case 'hoe':
+        if ((plot.type === 'empty' || plot.type === 'path') && !buildingSite) {
+          const fields = this.state.farm.plots.filter(p => p.type === 'tilled' || p.type === 'planted').length;
+          if (fields >= fieldAllowance(this.state.upgrades)) {
+            return {
+              type: 'tool-blocked',
+              message: '⛏️ You have every field Extra Plots allows — buy another level, or hoe bare soil back into grass',
+              timestamp: now,
+            };
+          }
+          plot.type = 'tilled';
+          message = `⛏️ You tilled (${x}, ${y})`;
+        } else if (plot.type === 'tilled' && !plot.weeds) {
+          plot.type = 'empty';
+          message = `⛏️ You turned (${x}, ${y}) back into grass`;
+        }
+        break;
+
+      case 'watering_can': {
+        const today = dayKey(now);
+        if ((plot.type === 'tilled' || plot.type === 'planted') && plot.wateredOn !== today) {
+          plot.wateredOn = today;
+          plot.soilHealth = Math.min(100, plot.soilHealth + WATERING_SOIL_BOOST);
+          message = `💧 You watered (${x}, ${y})`;
+        }
+        break;
+      }
+
+      case 'axe':
+        if (plot.crop && FRUIT_TREES.includes(plot.crop.type)) {
+          message = `🪓 You felled the ${plot.crop.type} at (${x}, ${y})`;
+          plot.crop = undefined;
+          plot.type = 'tilled';
+        } else if (plot.type === 'path') {
+          plot.type = 'empty';
+          message = `🪓 You broke up the path at (${x}, ${y})`;
+        }
+        break;
+
+      case 'scythe':
+        if (plot.crop?.pest || plot.weeds) {
+          this.holdBackCrops();
+          return this.clearInfestation(plot, 'You');
+        }
+        if (plot.type === 'empty' && !buildingSite) {
+          plot.type = 'path';
+          message = `🌾 You mowed a path at (${x}, ${y})`;
+        }
+        break;
+    }
+
+    if (!message) return null;
+    this.emit('tool-used', { tool: toolId, plot });
+    return { type: 'tool-used', message, timestamp: now };
   }
 
   // Helper methods
@@ -568,6 +1246,9 @@ export class FarmEngine extends EventEmitter {
       quantity = Math.max(1, quantity - 0.5);
     }
 
+    // Success streak bonus
+    quantity += this.streakBonus(this.state.stats.successStreak);
+
     // Golden crops give more
     if (crop.isGolden) {
       quantity *= 1.5;
@@ -596,26 +1277,13 @@ export class FarmEngine extends EventEmitter {
     }
   }
 
+  /**
+   * What a ripe crop's harvest fetches at the market. Quality, soil and
+   * golden crops act through the harvest quantity and the item sold.
+   */
   private calculateSellValue(crop: CropState, soilHealth: number): number {
-    const baseValue = CROP_DATA[crop.type].baseSellValue;
-    let value = baseValue;
-
-    // Quality multiplier
-    switch (crop.quality) {
-      case 'S': value *= 1.5; break;
-      case 'A': value *= 1.2; break;
-      case 'B': value *= 1.0; break;
-      case 'C': value *= 0.7; break;
-    }
-
-    // Golden multiplier
-    if (crop.isGolden) value *= 3;
-
-    // Soil health bonus
-    if (soilHealth >= 80) value *= 1.2;
-    else if (soilHealth < 30) value *= 0.8;
-
-    return Math.round(value);
+    const itemId = cropToHarvestItem(crop.type, crop.isGolden);
+    return this.market.price(itemId, this.state.stats.currentSeason) * this.calculateHarvestQuantity(crop, soilHealth);
   }
 
   private calculatePawnEfficiency(pawn: PawnState): number {
@@ -652,6 +1320,14 @@ export class FarmEngine extends EventEmitter {
     ) as 'blue' | 'red' | 'purple' | 'yellow';
   }
 
+  /**
+   * Pawns working for this user. Teammates' pawns on a shared farm are
+   * mirrored from the sync server and only their owners move them.
+   */
+  private ownPawns(): PawnState[] {
+    return this.state.pawns.filter(p => !p.owner);
+  }
+
   private getBarnPosition(): { x: number; y: number } {
     const barn = this.state.farm.buildings.find(b => b.type === 'barn');
     return barn ? barn.position : { x: 7, y: 0 };
@@ -667,6 +1343,10 @@ export class FarmEngine extends EventEmitter {
     return workablePlots[Math.floor(Math.random() * workablePlots.length)];
   }
 
+  private findInfestedPlot(): PlotState | undefined {
+    return this.state.farm.plots.find(p => p.crop?.pest || p.weeds);
+  }
+
   private getPlot(x: number, y: number): PlotState | null {
     return this.state.farm.plots.find(p => p.x === x && p.y === y) || null;
   }
@@ -676,7 +1356,7 @@ export class FarmEngine extends EventEmitter {
    */
   private performAutoPlanting() {
     // Find idle pawn (not assigned to agent session)
-    const idlePawn = this.state.pawns.find(p => 
+    const idlePawn = this.ownPawns().find(p => 
       p.state === 'idle' && !p.agentSessionId
     );
     
@@ -684,7 +1364,7 @@ export class FarmEngine extends EventEmitter {
 
     // Find empty tilled plot
     const emptyPlot = this.state.farm.plots.find(p => 
-      p.type === 'tilled' && !p.crop && p.soilHealth > 20
+      p.type === 'tilled' && !p.crop && !p.weeds && p.soilHealth > 20
     );
     
     if (!emptyPlot) return;
@@ -709,7 +1389,7 @@ export class FarmEngine extends EventEmitter {
    */
   private plantCropFree(plotX: number, plotY: number, cropType: CropType, pawn?: PawnState): boolean {
     const plot = this.getPlot(plotX, plotY);
-    if (!plot || plot.type !== 'tilled') {
+    if (!plot || plot.type !== 'tilled' || plot.weeds) {
       return false;
     }
 
@@ -761,6 +1441,50 @@ export class FarmEngine extends EventEmitter {
   }
 
   // Public API
+  configureScoring(options: Partial<ScoringOptions>) {
+    this.scorer.configure(options);
+  }
+
+  configureBudget(options: BudgetOptions) {
+    this.budget = options;
+    this.updateWeather();
+  }
+
+  /**
+   * Recompute spend for the current budget period and set the weather from
+   * it. Called after every task and periodically, so a new day or week
+   * clears the skies. Returns an event when the weather changed.
+   */
+  updateWeather(): FarmEvent | null {
+    const previous = this.state.budget?.weather ?? 'clear';
+    const { period, unit, limit } = this.budget;
+
+    if (period === 'off' || !(limit > 0)) {
+      this.state.budget = undefined;
+    } else {
+      const spent = this.periodSpend(period, unit);
+      const ratio = spent / limit;
+      const weather = WEATHER_THRESHOLDS.find(([max]) => ratio < max)?.[1] ?? (ratio > 1 ? 'drought' : 'storm');
+      this.state.budget = { period, unit, limit, spent, weather };
+    }
+
+    const weather = this.state.budget?.weather ?? 'clear';
+    if (weather === previous) return null;
+
+    const event: FarmEvent = { type: 'weather', message: WEATHER_MESSAGES[weather], timestamp: Date.now() };
+    this.emit('weather-changed', { weather, previous });
+    return event;
+  }
+
+  private periodSpend(period: BudgetPeriod, unit: BudgetUnit): number {
+    const days = this.state.stats.economyByDay;
+    const now = Date.now();
+    const from = period === 'daily' ? dayKey(now) : dayKey(weekStart(now));
+    return Object.entries(days)
+      .filter(([day]) => day >= from)
+      .reduce((sum, [, economy]) => sum + ((unit === 'usd' ? economy.costUsd : economy.tokens) ?? 0), 0);
+  }
+
   getState(): FarmState {
     return this.state;
   }
@@ -781,7 +1505,7 @@ export class FarmEngine extends EventEmitter {
    * Pawn withdraws seeds from storehouse
    */
   pawnWithdrawSeeds(pawnId: string, maxSeeds: number): boolean {
-    const pawn = this.state.pawns.find(p => p.id === pawnId);
+    const pawn = this.ownPawns().find(p => p.id === pawnId);
     if (!pawn) return false;
 
     // Find available seed types in storehouse
@@ -803,7 +1527,7 @@ export class FarmEngine extends EventEmitter {
         pawn.inventory,
         seedStack.itemId,
         withdrawAmount,
-        5 // Pawn inventory max slots
+        pawnInventorySlots(this.state.upgrades)
       );
 
       if (result.processed > 0) {
@@ -821,11 +1545,11 @@ export class FarmEngine extends EventEmitter {
    * Pawn plants seed at specific position (from pawn inventory)
    */
   pawnPlantSeed(pawnId: string, plotX: number, plotY: number, seedItemId?: string): boolean {
-    const pawn = this.state.pawns.find(p => p.id === pawnId);
+    const pawn = this.ownPawns().find(p => p.id === pawnId);
     if (!pawn) return false;
 
     const plot = this.getPlot(plotX, plotY);
-    if (!plot || plot.type !== 'tilled') return false;
+    if (!plot || plot.type !== 'tilled' || plot.weeds) return false;
 
     // Find seed to plant
     let seedToUse: string;
@@ -890,6 +1614,19 @@ export class FarmEngine extends EventEmitter {
     return true;
   }
 
+  /**
+   * Pawn clears pests or weeds from a plot, for one action like the scythe.
+   * Returns a farm log event, or null when the plot had nothing to clear.
+   */
+  pawnClearPlot(pawnId: string, plotX: number, plotY: number): FarmEvent | null {
+    const pawn = this.ownPawns().find(p => p.id === pawnId);
+    const plot = this.getPlot(plotX, plotY);
+    if (!pawn || !plot || !(plot.crop?.pest || plot.weeds)) return null;
+
+    this.holdBackCrops();
+    return this.clearInfestation(plot, pawn.name, pawn.id);
+  }
+
   /**
    * Convert seed item ID to crop type
    */
@@ -0,0 +1,232 @@
+import { EventEmitter } from 'events';
+import { PersistenceManager } from './persistence';
+import { FarmState } from './types';
+import {
+  FarmDelta, SharedFarm, SyncResponse,
+  applyDelta, applySharedFarm, diffFarm, isEmptyDelta, plotKey, sharedFrom,
+} from './sync-protocol';
+
+/**
+ * Configuration options for FarmSync.
+ */
+export interface FarmSyncOptions {
+  /** Base URL of the team's sync server, e.g. http://localhost:4747 */
+  serverUrl: string;
+  /** Which farm on the server to join */
+  farmId: string;
+  /** This member's name; set as the owner of their pawns on teammates' farms */
+  owner: string;
+  /** Shared secret the server was started with */
+  token?: string;
+}
+
+export type SyncStatus = 'connected' | 'offline';
+
+// Longer than the server's 25s long-poll so an idle poll isn't cut short
+const POLL_TIMEOUT_MS = 35_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+const MIN_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60_000;
+
+/**
+ * FarmSync keeps this member's farm in step with a team farm on a sync
+ * server. Every save pushes what changed since the last sync as a delta;
+ * a long-poll brings in teammates' changes, with any local changes not yet
+ * pushed replayed on top so nothing is lost while offline.
+ *
+ * Events:
+ *  - `changed`   — the shared part of the state was replaced; redraw and save
+ *  - `conflicts` — (count) local changes that lost to a teammate's
+ *  - `status`    — (SyncStatus) the server became reachable or unreachable
+ */
+export class FarmSync extends EventEmitter {
+  private base?: SharedFarm;                        // farm as of the last sync
+  private plotBases: Record<string, number> = {};   // base revisions of plots changed before the last sync
+  private running = false;
+  private pushing = false;
+  private pushQueued = false;
+  private dirty = false;
+  private status?: SyncStatus;
+  private backoff = MIN_BACKOFF_MS;
+  private requests = new Set<AbortController>();
+  private onSaved = () => { this.push(); };
+
+  constructor(
+    private persistence: PersistenceManager,
+    private getState: () => FarmState,
+    private options: FarmSyncOptions
+  ) {
+    super();
+  }
+
+  // ── public API ──────────────────────────────────────────────
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    this.persistence.on('saved', this.onSaved);
+    this.run();
+  }
+
+  stop() {
+    this.running = false;
+    this.persistence.off('saved', this.onSaved);
+    this.requests.forEach(controller => controller.abort());
+    this.requests.clear();
+  }
+
+  // ── internals ───────────────────────────────────────────────
+
+  /** Join the farm, then long-poll it until stopped, backing off while offline. */
+  private async run() {
+    while (this.running) {
+      try {
+        if (!this.base) {
+          await this.join();
+        } else {
+          const since = this.base.revision;
+          const { farm } = await this.request<SyncResponse>('GET', `?since=${since}`, undefined, POLL_TIMEOUT_MS);
+          // A push in flight adopts the newer farm from its own response
+          if (this.running && !this.pushing && this.base && farm.revision > this.base.revision) {
+            this.adopt(farm, diffFarm(this.base, this.getState(), this.options.owner, this.plotBases));
+            this.emit('changed');
+          }
+        }
+        this.setStatus('connected');
+        this.backoff = MIN_BACKOFF_MS;
+        if (this.dirty) this.push();
+      } catch (err) {
+        if (!this.running) return;
+        console.warn('Token Acres: Farm sync failed', err);
+        this.setStatus('offline');
+        await new Promise(resolve => setTimeout(resolve, this.backoff));
+        this.backoff = Math.min(this.backoff * 2, MAX_BACKOFF_MS);
+      }
+    }
+  }
+
+  /** Fetch the team farm, creating it from this save if nobody has yet. */
+  private async join() {
+    let response: SyncResponse;
+    try {
+      response = await this.request<SyncResponse>('GET', '');
+    } catch (err) {
+      if (!(err instanceof SyncRequestError && err.status === 404)) throw err;
+      // 409 means a teammate created it first; their farm wins
+      response = await this.request<SyncResponse>('PUT', '', sharedFrom(this.getState(), this.options.owner), REQUEST_TIMEOUT_MS, [409]);
+    }
+    this.adopt(response.farm);
+    this.emit('changed');
+    this.dirty = true;
+  }
+
+  /** Send local changes since the last sync. Overlapping calls coalesce into one follow-up push. */
+  private async push() {
+    if (!this.running || !this.base) return;
+    if (this.pushing) {
+      this.pushQueued = true;
+      return;
+    }
+
+    const state = this.getState();
+    const delta = diffFarm(this.base, state, this.options.owner, this.plotBases);
+    if (isEmptyDelta(delta, this.base)) {
+      this.dirty = false;
+      return;
+    }
+
+    // What the server has once it merges the delta, as far as this member knows
+    const sent = sharedFrom(state, this.options.owner);
+    this.pushing = true;
+    try {
+      const { farm, conflicts } = await this.request<SyncResponse>('POST', '/deltas', delta);
+      this.dirty = false;
+      if (!this.running) return;
+      // Changes made while the delta was in flight build on the merged farm
+      const local = diffFarm({ ...sent, plotRevisions: farm.plotRevisions }, this.getState(), this.options.owner);
+      this.adopt(farm, local);
+      if (conflicts > 0) this.emit('conflicts', conflicts);
+      this.emit('changed');
+    } catch (err) {
+      // Picked up again once the long-poll reaches the server
+      this.dirty = true;
+      if (this.running) {
+        console.warn('Token Acres: Failed to push farm changes', err);
+        this.setStatus('offline');
+      }
+    } finally {
+      this.pushing = false;
+      if (this.pushQueued) {
+        this.pushQueued = false;
+        this.push();
+      }
+    }
+  }
+
+  /**
+   * Make `farm` the new base and copy it into the state, replaying `local`
+   * changes over it. Replayed plots keep the base revision they were made
+   * on, so the server still sees a conflict if a teammate changed them.
+   */
+  private adopt(farm: SharedFarm, local?: FarmDelta) {
+    const merged: SharedFarm = JSON.parse(JSON.stringify(farm));
+    const plotBases: Record<string, number> = {};
+    if (local) {
+      const plots = local.plots.map(change => {
+        const key = plotKey(change.x, change.y);
+        plotBases[key] = change.baseRevision;
+        return { ...change, baseRevision: merged.plotRevisions[key] ?? 0 };
+      });
+      applyDelta(merged, { ...local, plots });
+    }
+
+    applySharedFarm(this.getState(), merged, this.options.owner);
+    this.base = farm;
+    this.plotBases = plotBases;
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    timeoutMs = REQUEST_TIMEOUT_MS,
+    accept: number[] = []
+  ): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    this.requests.add(controller);
+    try {
+      const url = `${this.options.serverUrl.replace(/\/+$/, '')}/farms/${encodeURIComponent(this.options.farmId)}${path}`;
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (this.options.token) {
+        headers.Authorization = `Bearer ${this.options.token}`;
+      }
+      const response = await fetch(url, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+      });
+      if (!response.ok && !accept.includes(response.status)) {
+        const detail = await response.json().then((b: any) => b?.error, () => undefined);
+        throw new SyncRequestError(response.status, `${method} ${url} failed with ${response.status}${detail ? `: ${detail}` : ''}`);
+      }
+      return await response.json() as T;
+    } finally {
+      clearTimeout(timer);
+      this.requests.delete(controller);
+    }
+  }
+
+  private setStatus(status: SyncStatus) {
+    if (status === this.status) return;
+    this.status = status;
+    this.emit('status', status);
+  }
+}
+
+class SyncRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
@@ -0,0 +1,210 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Lines added/deleted for one path, as reported by `git diff --numstat`.
+ */
+interface FileStat {
+  added: number;
+  deleted: number;
+}
+
+/**
+ * Working tree state of one repository at a point in time, relative to the
+ * HEAD commit the session started on.
+ */
+interface RepoSnapshot {
+  root: string;
+  head: string;
+  files: Map<string, FileStat>;
+  untracked: Set<string>;
+}
+
+/**
+ * Configuration options for GitDiffTracker.
+ */
+interface GitDiffTrackerOptions {
+  /** Returns the directories to measure (default: none) */
+  roots?: () => string[];
+  /** Timeout for each git invocation in milliseconds (default: 5000) */
+  timeoutMs?: number;
+}
+
+export interface DiffStats {
+  linesChanged: number;
+  filesChanged: number;
+}
+
+// New untracked files larger than this are counted as changed but not read
+const MAX_UNTRACKED_BYTES = 1024 * 1024;
+
+/**
+ * GitDiffTracker measures how much code an agent session actually landed in
+ * the workspace. `snapshot()` records each repository's state when a session
+ * starts; `measure()` diffs against it when the session (or a prompt turn)
+ * completes, counting commits made in between as well as uncommitted edits.
+ * Changes that were already uncommitted at snapshot time are not credited.
+ *
+ * Snapshots cover the whole workspace, not one session's files: when agents
+ * work side by side, each is credited with everything changed while it ran,
+ * its neighbours' edits included.
+ */
+export class GitDiffTracker {
+  private readonly roots: () => string[];
+  private readonly timeoutMs: number;
+  private snapshots: Map<string, Promise<RepoSnapshot[]>> = new Map();
+
+  constructor(options: GitDiffTrackerOptions = {}) {
+    this.roots = options.roots ?? (() => []);
+    this.timeoutMs = options.timeoutMs ?? 5000;
+  }
+
+  // ── public API ──────────────────────────────────────────────
+
+  /** Record the current git state as the baseline for a session. */
+  snapshot(sessionId: string): void {
+    const pending = Promise.all(this.roots().map(root => this.snapshotRepo(root)))
+      .then(repos => repos.filter((r): r is RepoSnapshot => r !== null));
+    this.snapshots.set(sessionId, pending);
+  }
+
+  /**
+   * Diff the workspace against the session's baseline. The current state
+   * becomes the new baseline, so successive turns of one session are each
+   * credited only with their own changes. Resolves undefined when the
+   * session has no snapshot or no repository could be read.
+   */
+  async measure(sessionId: string): Promise<DiffStats | undefined> {
+    const pending = this.snapshots.get(sessionId);
+    if (!pending) return undefined;
+
+    const before = await pending;
+    if (before.length === 0) return undefined;
+
+    const after = await Promise.all(before.map(repo => this.readRepo(repo.root, repo.head)));
+    const stats: DiffStats = { linesChanged: 0, filesChanged: 0 };
+    const next: RepoSnapshot[] = [];
+
+    for (let i = 0; i < before.length; i++) {
+      const current = after[i];
+      if (!current) {
+        next.push(before[i]); // git failed this time; keep the old baseline
+        continue;
+      }
+      const repoStats = await this.compare(before[i], current);
+      stats.linesChanged += repoStats.linesChanged;
+      stats.filesChanged += repoStats.filesChanged;
+      next.push(current);
+    }
+
+    if (this.snapshots.get(sessionId) === pending) {
+      this.snapshots.set(sessionId, Promise.resolve(next));
+    }
+    return stats;
+  }
+
+  /** Drop a session's baseline once it has ended. */
+  forget(sessionId: string): void {
+    this.snapshots.delete(sessionId);
+  }
+
+  dispose(): void {
+    this.snapshots.clear();
+  }
+
+  // ── internals ───────────────────────────────────────────────
+
+  private async snapshotRepo(root: string): Promise<RepoSnapshot | null> {
+    try {
+      const head = (await this.git(root, ['rev-parse', 'HEAD'])).trim();
+      return await this.readRepo(root, head);
+    } catch (err) {
+      return null; // Not a git repository, or no commits yet
+    }
+  }
+
+  /** Read per-file changes of the working tree relative to `head`. */
+  private async readRepo(root: string, head: string): Promise<RepoSnapshot | null> {
+    try {
+      const [numstat, others] = await Promise.all([
+        this.git(root, ['diff', '--numstat', head]),
+        this.git(root, ['ls-files', '--others', '--exclude-standard']),
+      ]);
+      return {
+        root,
+        head,
+        files: this.parseNumstat(numstat),
+        untracked: new Set(others.split('\n').filter(Boolean)),
+      };
+    } catch (err) {
+      return null;
+    }
+  }
+
+  private async compare(before: RepoSnapshot, after: RepoSnapshot): Promise<DiffStats> {
+    const stats: DiffStats = { linesChanged: 0, filesChanged: 0 };
+    const none: FileStat = { added: 0, deleted: 0 };
+
+    for (const file of new Set([...before.files.keys(), ...after.files.keys()])) {
+      const b = after.files.get(file);
+      // A file staged or committed after being counted as untracked already got its credit
+      const a = before.files.get(file) ?? (before.untracked.has(file) && b ? b : none);
+      // A path that vanished from the diff was reverted to its HEAD content
+      const delta = b
+        ? Math.abs(b.added - a.added) + Math.abs(b.deleted - a.deleted)
+        : a.added + a.deleted;
+      if (delta > 0 || (b && a === none)) {
+        stats.filesChanged++;
+        stats.linesChanged += delta;
+      }
+    }
+
+    // Brand new files are invisible to `git diff` until they are staged
+    for (const file of after.untracked) {
+      if (before.untracked.has(file)) continue;
+      stats.filesChanged++;
+      stats.linesChanged += await this.countLines(path.join(after.root, file));
+    }
+
+    return stats;
+  }
+
+  private parseNumstat(output: string): Map<string, FileStat> {
+    const files = new Map<string, FileStat>();
+    for (const line of output.split('\n')) {
+      // Format: "<added>\t<deleted>\t<path>"; binary files report "-\t-"
+      const [added, deleted, ...rest] = line.split('\t');
+      if (rest.length === 0) continue;
+      files.set(rest.join('\t'), {
+        added: parseInt(added, 10) || 0,
+        deleted: parseInt(deleted, 10) || 0,
+      });
+    }
+    return files;
+  }
+
+  private async countLines(filePath: string): Promise<number> {
+    try {
+      const stat = await fs.promises.stat(filePath);
+      if (!stat.isFile() || stat.size > MAX_UNTRACKED_BYTES) return 0;
+      const content = await fs.promises.readFile(filePath, 'utf-8');
+      if (!content) return 0;
+      return content.split('\n').length - (content.endsWith('\n') ? 1 : 0);
+    } catch (err) {
+      return 0;
+    }
+  }
+
+  private git(cwd: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      execFile('git', args, { cwd, timeout: this.timeoutMs, maxBuffer: 10 * 1024 * 1024 }, (error, stdout) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(stdout);
+        }
+      });
+    });
+  }
+}
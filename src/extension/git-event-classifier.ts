@@ -0,0 +1,144 @@
+import { EventEmitter } from 'events';
+import { GitEvent, GitEventKind } from './types';
+
+/**
+ * Last observed HEAD of a repository.
+ */
+interface HeadState {
+  branch?: string;
+  commit?: string;
+}
+
+/**
+ * The parts of a vscode.git Repository the classifier reads.
+ */
+export interface GitRepository {
+  rootUri: { fsPath: string };
+  state: {
+    HEAD?: { name?: string; commit?: string };
+    onDidChange(listener: () => void): { dispose(): void };
+  };
+  getCommit(ref: string): Promise<{ hash: string; message?: string; parents?: string[] }>;
+}
+
+/**
+ * Configuration options for GitEventClassifier.
+ */
+interface GitEventClassifierOptions {
+  /** How long a passing test run vouches for the next commit, in ms (default: 10 min) */
+  testPassWindowMs?: number;
+}
+
+// Co-author trailers written by coding agents (name or noreply address)
+const AGENT_TRAILER_PATTERN = /claude|anthropic|aider|copilot|codex|openai|cursor|cline/i;
+const CO_AUTHOR_PATTERN = /^co-authored-by:(.*)$/gim;
+
+/**
+ * GitEventClassifier turns raw `repository.state.onDidChange` notifications
+ * from the built-in git extension (which fire on every index refresh, save
+ * or checkout) into discrete events. Only a HEAD that moved forward on the
+ * same branch by a commit whose parent is the previous HEAD counts; amends,
+ * resets, checkouts and pulls are ignored.
+ *
+ * Events:
+ *  - `git-event` — a classified {@link GitEvent}
+ */
+export class GitEventClassifier extends EventEmitter {
+  private readonly testPassWindowMs: number;
+  private heads: Map<string, HeadState> = new Map();  // keyed by repository root path
+  private lastTestPass = 0;
+
+  constructor(options: GitEventClassifierOptions = {}) {
+    super();
+    this.testPassWindowMs = options.testPassWindowMs ?? 10 * 60_000;
+  }
+
+  // ── public API ──────────────────────────────────────────────
+
+  /** Start watching a vscode.git Repository. Returns a disposable for its listener. */
+  watch(repo: GitRepository): { dispose(): void } {
+    this.heads.set(repo.rootUri.fsPath, this.readHead(repo));
+    const listener = repo.state.onDidChange(() => {
+      this.onRepositoryChange(repo).catch(err =>
+        console.warn('Token Acres: Failed to classify git change', err)
+      );
+    });
+    return {
+      dispose: () => {
+        listener.dispose();
+        this.heads.delete(repo.rootUri.fsPath);
+      },
+    };
+  }
+
+  /** Record a passing test run; the next commit soon after counts as tests-passing. */
+  noteTestsPassed(timestamp: number = Date.now()): void {
+    this.lastTestPass = timestamp;
+  }
+
+  dispose(): void {
+    this.heads.clear();
+    this.removeAllListeners();
+  }
+
+  // ── internals ───────────────────────────────────────────────
+
+  private async onRepositoryChange(repo: GitRepository): Promise<void> {
+    const root = repo.rootUri.fsPath;
+    const previous = this.heads.get(root);
+    const current = this.readHead(repo);
+    if (!previous || current.commit === previous.commit) {
+      return; // index refresh, file save, ...
+    }
+    this.heads.set(root, current);
+
+    if (!current.commit || !previous.commit || current.branch !== previous.branch) {
+      return; // checkout or detached HEAD
+    }
+
+    const commit = await repo.getCommit(current.commit);
+    if (!commit?.parents?.includes(previous.commit)) {
+      return; // amend, reset or multi-commit pull
+    }
+
+    const message: string = commit.message ?? '';
+    const event: GitEvent = {
+      kind: this.classify(message, commit.parents.length),
+      commit: commit.hash,
+      summary: message.split('\n')[0].slice(0, 72),
+      repository: root,
+      timestamp: Date.now(),
+    };
+    this.emit('git-event', event);
+  }
+
+  private classify(message: string, parentCount: number): GitEventKind {
+    if (/^revert\b/i.test(message) || /this reverts commit [0-9a-f]{7,}/i.test(message)) {
+      return 'revert';
+    }
+    if (parentCount > 1) {
+      return 'merge';
+    }
+    if (this.hasAgentCoAuthor(message)) {
+      return 'agent-commit';
+    }
+    if (Date.now() - this.lastTestPass <= this.testPassWindowMs) {
+      return 'tests-passing-commit';
+    }
+    return 'commit';
+  }
+
+  private hasAgentCoAuthor(message: string): boolean {
+    for (const match of message.matchAll(CO_AUTHOR_PATTERN)) {
+      if (AGENT_TRAILER_PATTERN.test(match[1])) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private readHead(repo: GitRepository): HeadState {
+    const head = repo.state?.HEAD;
+    return { branch: head?.name, commit: head?.commit };
+  }
+}
@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HookIngestor } from './hook-ingestor';
+import { AgentHookEvent } from './types';
+
+describe('HookIngestor', () => {
+  let directory: string;
+  const ingestors: HookIngestor[] = [];
+
+  function ingestor(accept?: (event: AgentHookEvent) => boolean): { events: AgentHookEvent[]; ingestor: HookIngestor } {
+    const result = { events: [] as AgentHookEvent[], ingestor: new HookIngestor({ directory, intervalMs: 20, accept }) };
+    result.ingestor.on('task-start', event => result.events.push(event));
+    result.ingestor.on('task-end', event => result.events.push(event));
+    ingestors.push(result.ingestor);
+    return result;
+  }
+
+  function drop(name: string, body: unknown) {
+    fs.writeFileSync(path.join(directory, name), JSON.stringify(body));
+  }
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'token-acres-hooks-'));
+  });
+
+  afterEach(() => {
+    ingestors.splice(0).forEach(i => i.dispose());
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('emits normalized events and deletes the file', async () => {
+    const { events, ingestor: hooks } = ingestor();
+    drop('1-claude.json', { type: 'task-end', agent: ' Claude ', durationMs: 1200, tokens: { input: 10, output: -3 }, bogus: true });
+    hooks.start();
+
+    await vi.waitFor(() => expect(events).toHaveLength(1));
+    expect(events[0]).toMatchObject({ type: 'task-end', agent: 'claude', durationMs: 1200, tokens: { input: 10, output: 0 } });
+    expect(events[0]).not.toHaveProperty('bogus');
+    expect(fs.readdirSync(directory)).toEqual([]);
+  });
+
+  it('drops malformed files', async () => {
+    const { ingestor: hooks } = ingestor();
+    fs.writeFileSync(path.join(directory, '1-bad.json'), '{ not json');
+    hooks.start();
+    await vi.waitFor(() => expect(fs.readdirSync(directory)).toEqual([]));
+  });
+
+  it("leaves files with none of this window's events for other windows", async () => {
+    const { events, ingestor: hooks } = ingestor(event => event.sessionId === 'mine');
+    drop('1-other.json', { type: 'task-start', agent: 'claude', sessionId: 'theirs' });
+    hooks.start();
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(events).toEqual([]);
+    expect(fs.readdirSync(directory)).toEqual(['1-other.json']);
+  });
+
+  it("emits only its own events from a shared file and puts the rest back", async () => {
+    const mine = ingestor(event => event.sessionId === 'mine');
+    const theirs = ingestor(event => event.sessionId === 'theirs');
+    drop('1-both.json', [
+      { type: 'task-start', agent: 'claude', sessionId: 'mine' },
+      { type: 'task-start', agent: 'aider', sessionId: 'theirs' },
+    ]);
+    mine.ingestor.start();
+    await vi.waitFor(() => expect(mine.events).toHaveLength(1));
+    theirs.ingestor.start();
+    await vi.waitFor(() => expect(theirs.events).toHaveLength(1));
+
+    expect(mine.events[0].agent).toBe('claude');
+    expect(theirs.events[0].agent).toBe('aider');
+    await vi.waitFor(() => expect(fs.readdirSync(directory)).toEqual([]));
+  });
+});
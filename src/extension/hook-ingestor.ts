@@ -0,0 +1,226 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { AgentHookEvent } from './types';
+
+/**
+ * Configuration options for HookIngestor.
+ */
+interface HookIngestorOptions {
+  /** Directory agent hooks drop event files into (default: ~/.token-acres/events) */
+  directory?: string;
+  /** Polling interval in milliseconds (default: 1000) */
+  intervalMs?: number;
+  /** Whether this window should claim an event; others are left for other windows */
+  accept?: (event: AgentHookEvent) => boolean;
+}
+
+const DEFAULT_DIRECTORY = path.join(os.homedir(), '.token-acres', 'events');
+
+// Event files no window claimed are dropped after this long
+const UNCLAIMED_TTL_MS = 10 * 60_000;
+
+/**
+ * HookIngestor picks up JSON task events written by agent hooks (Claude Code
+ * Stop/PostToolUse hooks, aider post-commit scripts, ...) into a drop
+ * directory. Each `*.json` file holds one event object or an array of them;
+ * files are deleted once read. Writers should write to a temporary name and
+ * rename into place so half-written files are never picked up. When several
+ * windows poll the same directory, each claims only files holding an event
+ * it accepts, emits those events and puts the rest back for the others.
+ *
+ * Events:
+ *  - `task-start` — an agent began a prompt turn
+ *  - `task-end`   — an agent finished a prompt turn, with metrics
+ */
+export class HookIngestor extends EventEmitter {
+  private readonly directory: string;
+  private readonly intervalMs: number;
+  private readonly accept: (event: AgentHookEvent) => boolean;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  constructor(options: HookIngestorOptions = {}) {
+    super();
+    this.directory = options.directory ?? DEFAULT_DIRECTORY;
+    this.intervalMs = options.intervalMs ?? 1000;
+    this.accept = options.accept ?? (() => true);
+  }
+
+  // ── public API ──────────────────────────────────────────────
+
+  /** Create the drop directory and begin polling. Safe to call multiple times. */
+  start(): void {
+    if (this.timer) {
+      return; // already running
+    }
+    try {
+      fs.mkdirSync(this.directory, { recursive: true });
+    } catch (err) {
+      console.error('Token Acres: Failed to create hook event directory', err);
+      return;
+    }
+    this.timer = setInterval(() => this.poll(), this.intervalMs);
+    this.poll();
+  }
+
+  /** Stop polling. Unread event files stay on disk for the next start. */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Stop polling and remove all listeners. */
+  dispose(): void {
+    this.stop();
+    this.removeAllListeners();
+  }
+
+  /** Directory hooks should write event files into. */
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  // ── internals ───────────────────────────────────────────────
+
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return; // previous poll still draining
+    }
+    this.polling = true;
+
+    try {
+      const entries = await fs.promises.readdir(this.directory);
+      // File names are expected to sort chronologically (e.g. epoch-ms prefix)
+      const files = entries.filter(name => name.endsWith('.json')).sort();
+
+      for (const name of files) {
+        await this.ingestFile(path.join(this.directory, name));
+      }
+    } catch (err) {
+      // Directory missing or unreadable is non-fatal; retry next tick.
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async ingestFile(filePath: string): Promise<void> {
+    let raw: string;
+    let mtimeMs: number;
+    try {
+      [raw, { mtimeMs }] = await Promise.all([
+        fs.promises.readFile(filePath, 'utf-8'),
+        fs.promises.stat(filePath),
+      ]);
+    } catch (err) {
+      return; // Another window may have claimed it first
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (err) {
+      console.warn(`Token Acres: Ignoring malformed hook event ${path.basename(filePath)}`);
+      await this.unlink(filePath);
+      return;
+    }
+
+    const events = (Array.isArray(parsed) ? parsed : [parsed])
+      .map(event => this.normalize(event))
+      .filter((event): event is AgentHookEvent => event !== null);
+
+    const accepted = events.filter(this.accept);
+    if (accepted.length === 0) {
+      // Belongs to another window; drop it only once nobody has claimed it for a while
+      if (Date.now() - mtimeMs > UNCLAIMED_TTL_MS) {
+        await this.unlink(filePath);
+      }
+      return;
+    }
+
+    // Unlinking is the claim: only the window whose unlink succeeds emits
+    if (!(await this.unlink(filePath))) {
+      return;
+    }
+    const others = events.filter(event => !accepted.includes(event));
+    if (others.length > 0) {
+      await this.putBack(filePath, others, mtimeMs);
+    }
+    for (const event of accepted) {
+      this.emit(event.type, event);
+    }
+  }
+
+  /**
+   * Write events another window should claim back into the drop directory,
+   * keeping the original file's age so the unclaimed timeout still applies.
+   */
+  private async putBack(filePath: string, events: AgentHookEvent[], mtimeMs: number): Promise<void> {
+    const restPath = filePath.replace(/\.json$/, '-rest.json');
+    const tmpPath = restPath + '.tmp';
+    try {
+      await fs.promises.writeFile(tmpPath, JSON.stringify(events));
+      await fs.promises.utimes(tmpPath, mtimeMs / 1000, mtimeMs / 1000);
+      await fs.promises.rename(tmpPath, restPath);
+    } catch (err) {
+      console.error('Token Acres: Failed to return hook events to other windows', err);
+    }
+  }
+
+  private async unlink(filePath: string): Promise<boolean> {
+    try {
+      await fs.promises.unlink(filePath);
+      return true;
+    } catch (err) {
+      return false;
+    }
+  }
+
+  /**
+   * Validate an untrusted event object, dropping unknown or mistyped fields.
+   */
+  private normalize(input: any): AgentHookEvent | null {
+    if (!input || typeof input !== 'object') return null;
+    if (input.type !== 'task-start' && input.type !== 'task-end') return null;
+    if (typeof input.agent !== 'string' || !input.agent.trim()) return null;
+
+    const num = (v: unknown): number | undefined =>
+      typeof v === 'number' && Number.isFinite(v) && v >= 0 ? v : undefined;
+
+    const event: AgentHookEvent = {
+      type: input.type,
+      agent: input.agent.trim().toLowerCase(),
+      sessionId: typeof input.sessionId === 'string' ? input.sessionId : undefined,
+      model: typeof input.model === 'string' ? input.model : undefined,
+      cwd: typeof input.cwd === 'string' && input.cwd ? input.cwd : undefined,
+      timestamp: num(input.timestamp) ?? Date.now(),
+    };
+
+    if (input.type === 'task-end') {
+      event.exitCode = typeof input.exitCode === 'number' ? input.exitCode : undefined;
+      event.success = typeof input.success === 'boolean' ? input.success : undefined;
+      event.durationMs = num(input.durationMs);
+      event.outputLength = num(input.outputLength);
+      event.toolCalls = num(input.toolCalls);
+      event.costUsd = num(input.costUsd);
+
+      if (input.tokens && typeof input.tokens === 'object') {
+        event.tokens = {
+          input: num(input.tokens.input) ?? 0,
+          output: num(input.tokens.output) ?? 0,
+          cacheRead: num(input.tokens.cacheRead),
+          cacheWrite: num(input.tokens.cacheWrite),
+        };
+      }
+
+      if (Array.isArray(input.filesTouched)) {
+        event.filesTouched = input.filesTouched.filter((f: unknown) => typeof f === 'string');
+      }
+    }
+
+    return event;
+  }
+}
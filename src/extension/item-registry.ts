@@ -375,6 +375,40 @@ export const ITEM_REGISTRY: Record<string, ItemDefinition> = {
     sellValue: undefined, // Not sellable directly, but compostable
     description: 'Cover crop that enriches soil. Can be composted.',
     icon: 'crop-clover'
+  },
+
+  // Tools (the player always carries these; they can't be sold)
+  'hoe': {
+    id: 'hoe',
+    name: 'Hoe',
+    category: 'tool',
+    maxStack: 1,
+    description: 'Tills grass or path into soil ready for planting.',
+    icon: 'tool-hoe'
+  },
+  'watering_can': {
+    id: 'watering_can',
+    name: 'Watering Can',
+    category: 'tool',
+    maxStack: 1,
+    description: 'Waters soil once a day, restoring a little soil health.',
+    icon: 'tool-watering-can'
+  },
+  'axe': {
+    id: 'axe',
+    name: 'Axe',
+    category: 'tool',
+    maxStack: 1,
+    description: 'Fells fruit trees and breaks up paths.',
+    icon: 'tool-axe'
+  },
+  'scythe': {
+    id: 'scythe',
+    name: 'Scythe',
+    category: 'tool',
+    maxStack: 1,
+    description: 'Cuts weeds and pests away, or mows grass into a path.',
+    icon: 'tool-scythe'
   }
 };
 
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Market } from './market';
+import { ItemStack } from './item-registry';
+import { MarketState } from './types';
+
+const APRIL_1 = new Date(2026, 3, 1, 9).getTime();
+const DAY_MS = 86_400_000;
+
+function carrots(quantity: number): ItemStack[] {
+  return [{ itemId: 'carrot', quantity, maxStack: 64 }];
+}
+
+describe('Market', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('prices items at their sell value on a fresh market', () => {
+    const market = new Market({ day: '', items: {} });
+    expect(market.price('carrot', 'spring', APRIL_1)).toBe(6);
+    expect(market.price('turnip_seed', 'spring', APRIL_1)).toBe(2);
+  });
+
+  it('pays nothing for items it does not buy', () => {
+    const market = new Market({ day: '', items: {} });
+    expect(market.price('hoe', 'spring', APRIL_1)).toBe(0);
+    expect(market.price('no_such_item', 'spring', APRIL_1)).toBe(0);
+    expect(market.sell(carrots(3), 'hoe', 1, 'spring', APRIL_1)).toBeNull();
+  });
+
+  it('pays 50% more for crops out of season, but not for seeds', () => {
+    const market = new Market({ day: '', items: {} });
+    expect(market.price('carrot', 'summer', APRIL_1)).toBe(9);
+    expect(market.price('turnip_seed', 'summer', APRIL_1)).toBe(2);
+
+    const listing = market.getListings([], 'summer', APRIL_1).find(l => l.itemId === 'carrot')!;
+    expect(listing.outOfSeason).toBe(true);
+    expect(listing.baseValue).toBe(6);
+  });
+
+  it('lowers the price with every item sold', () => {
+    const market = new Market({ day: '', items: {} });
+    const inventory = carrots(30);
+    const sale = market.sell(inventory, 'carrot', 24, 'spring', APRIL_1)!;
+
+    expect(sale.quantity).toBe(24);
+    expect(sale.earned).toBeLessThan(24 * 6);
+    expect(inventory[0].quantity).toBe(6);
+    expect(market.price('carrot', 'spring', APRIL_1)).toBe(3);
+  });
+
+  it('sells only what the inventory holds', () => {
+    const market = new Market({ day: '', items: {} });
+    expect(market.sell(carrots(2), 'carrot', 5, 'spring', APRIL_1)!.quantity).toBe(2);
+    expect(market.sell([], 'carrot', 1, 'spring', APRIL_1)).toBeNull();
+  });
+
+  it('closes each day since the last update and lets sales fade', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5); // no drift
+    const state: MarketState = { day: '', items: {} };
+    const market = new Market(state);
+    market.sell(carrots(24), 'carrot', 24, 'spring', APRIL_1);
+
+    expect(market.price('carrot', 'spring', APRIL_1 + 3 * DAY_MS)).toBe(5);
+    expect(state.items.carrot.history).toEqual([3, 4, 5]);
+    expect(state.items.carrot.sold).toBe(3);
+    expect(state.items.carrot.drift).toBe(1);
+  });
+
+  it('keeps two weeks of closing prices after a long break', () => {
+    const state: MarketState = { day: '', items: {} };
+    const market = new Market(state);
+    market.price('carrot', 'spring', APRIL_1);
+    market.price('carrot', 'spring', APRIL_1 + 40 * DAY_MS);
+
+    expect(state.items.carrot.history).toHaveLength(14);
+    expect(state.items.carrot.drift).toBeGreaterThanOrEqual(0.7);
+    expect(state.items.carrot.drift).toBeLessThanOrEqual(1.3);
+  });
+
+  it("lists recent prices ending with today's", () => {
+    const market = new Market({ day: '', items: { carrot: { drift: 1, sold: 0, history: [5, 7] } } });
+    const listing = market.getListings(carrots(4), 'spring', APRIL_1).find(l => l.itemId === 'carrot')!;
+    expect(listing.history).toEqual([5, 7, 6]);
+    expect(listing.owned).toBe(4);
+  });
+});
@@ -0,0 +1,169 @@
+// Market for Token Acres: turns storehouse items into seeds
+
+import { InventoryManager } from './inventory';
+import { ITEM_REGISTRY, ItemStack, getItem } from './item-registry';
+import { dayKey } from './analytics';
+import { CROP_DATA, CropType, MarketItemState, MarketListing, MarketState, Season } from './types';
+
+export interface Sale {
+  itemId: string;
+  name: string;
+  quantity: number;
+  earned: number;             // seeds
+}
+
+const DAY_MS = 86_400_000;
+
+// Closing prices kept per item for the shop's sparklines
+const PRICE_HISTORY_DAYS = 14;
+
+// Daily random walk of each price, pulled back towards the base value
+const DRIFT_STEP = 0.08;
+const DRIFT_PULL = 0.2;
+const MIN_DRIFT = 0.7;
+const MAX_DRIFT = 1.3;
+
+// Selling this many of an item halves its price; recent sales halve daily
+const MARKET_DEPTH = 24;
+const SUPPLY_DECAY = 0.5;
+const MIN_SUPPLY_FACTOR = 0.4;
+
+// Crops are scarce, and dear, outside their growing season
+const OUT_OF_SEASON_MULTIPLIER = 1.5;
+
+// Tree crops are sold as their fruit
+const FRUIT_TREES: Record<string, CropType> = { apple: 'appletree', lemon: 'lemontree' };
+
+/**
+ * Market prices start from each item's registry sell value and move with:
+ *  - a daily drift of up to ±30%
+ *  - supply: every item sold pushes that item's price down until sales
+ *    fade over the following days
+ *  - seasons: crops sell for 50% more while out of season
+ */
+export class Market {
+  /**
+   * The state object is owned by the market from here on: prices are
+   * updated in place, so pass the persisted FarmState.market.
+   */
+  constructor(private state: MarketState) {}
+
+  /**
+   * Seeds the market pays for one of an item today; 0 when it can't be sold
+   */
+  price(itemId: string, season: Season, now = Date.now()): number {
+    if (!this.isSellable(itemId)) return 0;
+    this.rollover(season, now);
+    return this.quote(itemId, this.entry(itemId), season);
+  }
+
+  /**
+   * Every sellable item at today's price, with recent prices and how many
+   * the storehouse holds
+   */
+  getListings(inventory: ItemStack[], season: Season, now = Date.now()): MarketListing[] {
+    this.rollover(season, now);
+    return Object.values(ITEM_REGISTRY)
+      .filter(item => this.isSellable(item.id))
+      .map(item => {
+        const entry = this.entry(item.id);
+        const price = this.quote(item.id, entry, season);
+        const crop = cropOf(item.id);
+        return {
+          itemId: item.id,
+          name: item.name,
+          category: item.category,
+          sellValue: price,
+          baseValue: item.sellValue!,
+          quality: item.id.startsWith('golden_') ? 'golden' as const : 'regular' as const,
+          owned: InventoryManager.getCount(inventory, item.id),
+          history: [...entry.history, price],
+          outOfSeason: crop ? !CROP_DATA[crop].seasons.includes(season) : undefined,
+        };
+      });
+  }
+
+  /**
+   * Sell up to `quantity` of an item out of an inventory. Each item sold
+   * lowers the price of the next. Returns null when the item isn't
+   * sellable or none is held.
+   */
+  sell(inventory: ItemStack[], itemId: string, quantity: number, season: Season, now = Date.now()): Sale | null {
+    if (!this.isSellable(itemId) || quantity <= 0) return null;
+    this.rollover(season, now);
+
+    const result = InventoryManager.removeItem(inventory, itemId, Math.floor(quantity));
+    if (result.processed === 0) return null;
+
+    const entry = this.entry(itemId);
+    let earned = 0;
+    for (let i = 0; i < result.processed; i++) {
+      earned += this.quote(itemId, entry, season);
+      entry.sold++;
+    }
+
+    return {
+      itemId,
+      name: getItem(itemId)!.name,
+      quantity: result.processed,
+      earned,
+    };
+  }
+
+  // ── internals ───────────────────────────────────────────────
+
+  private isSellable(itemId: string): boolean {
+    return (getItem(itemId)?.sellValue ?? 0) > 0;
+  }
+
+  private entry(itemId: string): MarketItemState {
+    return this.state.items[itemId] ??= { drift: 1, sold: 0, history: [] };
+  }
+
+  private quote(itemId: string, entry: MarketItemState, season: Season): number {
+    const base = getItem(itemId)!.sellValue!;
+    const supply = Math.max(MIN_SUPPLY_FACTOR, 1 / (1 + entry.sold / MARKET_DEPTH));
+    const crop = cropOf(itemId);
+    const scarcity = crop && !CROP_DATA[crop].seasons.includes(season) ? OUT_OF_SEASON_MULTIPLIER : 1;
+    return Math.max(1, Math.round(base * entry.drift * supply * scarcity));
+  }
+
+  /**
+   * Close out each day since prices were last updated: record closing
+   * prices, move every price's drift and let recent sales fade.
+   */
+  private rollover(season: Season, now: number) {
+    const today = dayKey(now);
+    if (this.state.day === today) return;
+    if (!this.state.day) {
+      this.state.day = today;
+      return;
+    }
+
+    const [year, month, day] = this.state.day.split('-').map(Number);
+    const elapsed = Math.round((new Date(now).setHours(12, 0, 0, 0) - new Date(year, month - 1, day, 12).getTime()) / DAY_MS);
+    const days = Math.min(Math.max(elapsed, 1), PRICE_HISTORY_DAYS);
+
+    for (const item of Object.values(ITEM_REGISTRY)) {
+      if (!this.isSellable(item.id)) continue;
+      const entry = this.entry(item.id);
+      for (let i = 0; i < days; i++) {
+        entry.history.push(this.quote(item.id, entry, season));
+        const step = (Math.random() * 2 - 1) * DRIFT_STEP;
+        entry.drift = Math.min(MAX_DRIFT, Math.max(MIN_DRIFT, entry.drift + (1 - entry.drift) * DRIFT_PULL + step));
+        entry.sold *= SUPPLY_DECAY;
+      }
+      entry.history.splice(0, entry.history.length - PRICE_HISTORY_DAYS);
+    }
+    this.state.day = today;
+  }
+}
+
+/**
+ * The crop an item is harvested from, if any
+ */
+function cropOf(itemId: string): CropType | undefined {
+  const name = itemId.replace(/^golden_/, '');
+  const crop = FRUIT_TREES[name] ?? name;
+  return crop in CROP_DATA && getItem(itemId)?.category === 'crop' ? crop as CropType : undefined;
+}
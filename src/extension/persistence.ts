@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { EventEmitter } from 'events';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -6,12 +7,17 @@ import { FarmState, PlotState, Season } from './types';
 
 const SAVE_DIR = '.token-acres';
 const STATE_FILE = 'farm-state.json';
-const SCHEMA_VERSION = 2;
+const SCHEMA_VERSION = 7;
 
-export class PersistenceManager {
+/**
+ * Events:
+ *  - `saved` — (state) the farm was written to disk
+ */
+export class PersistenceManager extends EventEmitter {
   private savePath: string;
 
   constructor(private context: vscode.ExtensionContext) {
+    super();
     // Save in user home directory (portable across workspaces)
     const homeDir = os.homedir();
     this.savePath = path.join(homeDir, SAVE_DIR);
@@ -56,6 +62,7 @@ export class PersistenceManager {
 
       // Backup to VS Code globalState (secondary)
       this.context.globalState.update('tokenacres.farmState', state);
+      this.emit('saved', state);
     } catch (err) {
       console.error('Token Acres: Failed to save farm state', err);
     }
@@ -73,8 +80,9 @@ export class PersistenceManager {
       if (!state.version || !state.farm || !state.pawns) {
         throw new Error('Invalid farm state format');
       }
-      this.save(state);
-      return state;
+      const migrated = state.version < SCHEMA_VERSION ? this.migrate(state) : state;
+      this.save(migrated);
+      return migrated;
     } catch (err) {
       throw new Error(`Failed to import farm state: ${err}`);
     }
@@ -115,6 +123,11 @@ export class PersistenceManager {
         currentSeason: 'spring' as Season,
         seasonStartDate: new Date().toISOString(),
         daysSinceStart: 0,
+        projects: {},
+        economyByDay: {},
+        seasonYields: [],
+        successStreak: 0,
+        bestStreak: 0,
       },
       settings: {
         seasonLengthDays: 7,
@@ -135,6 +148,11 @@ export class PersistenceManager {
         ],
         capacity: 256,
       },
+      market: {
+        day: '',
+        items: {},
+      },
+      upgrades: {},
     };
   }
 
@@ -171,6 +189,33 @@ export class PersistenceManager {
       }
     }
     
+    // Version 2 -> 3: Per-project task stats
+    if (state.version < 3) {
+      state.stats.projects = {};
+    }
+
+    // Version 3 -> 4: Daily economy and per-season yields for analytics
+    if (state.version < 4) {
+      state.stats.economyByDay = {};
+      state.stats.seasonYields = [];
+    }
+
+    // Version 4 -> 5: Success streaks
+    if (state.version < 5) {
+      state.stats.successStreak = 0;
+      state.stats.bestStreak = 0;
+    }
+
+    // Version 5 -> 6: Dynamic market prices
+    if (state.version < 6) {
+      state.market = { day: '', items: {} };
+    }
+
+    // Version 6 -> 7: Upgrades bought with seeds
+    if (state.version < 7) {
+      state.upgrades = {};
+    }
+
     // Update version
     state.version = SCHEMA_VERSION;
     
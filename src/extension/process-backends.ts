@@ -0,0 +1,189 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * One row of a process listing.
+ */
+export interface ProcessInfo {
+  pid: number;
+  ppid: number;
+  command: string;
+  startTime?: number;     // epoch ms
+  cpuTimeMs?: number;     // user + system
+}
+
+/**
+ * A way of listing system processes. Backends only report cheap fields in
+ * `list()`; the working directory is looked up per process on demand since
+ * it costs a syscall (or a spawn) per PID.
+ */
+export interface ProcessBackend {
+  readonly name: ProcessBackendKind;
+  list(): Promise<ProcessInfo[]>;
+  cwd(pid: number): Promise<string | undefined>;
+}
+
+export type ProcessBackendKind = 'ps' | 'procfs';
+
+// Linux reports /proc/<pid>/stat times in USER_HZ ticks, which is 100 on every mainstream kernel
+const CLOCK_TICKS_PER_SEC = 100;
+
+/**
+ * Pick a backend: `procfs` on Linux (no process spawned per poll), `ps`
+ * elsewhere. Returns null where neither is available (Windows).
+ */
+export function createProcessBackend(preference: ProcessBackendKind | 'auto' = 'auto'): ProcessBackend | null {
+  const hasProcfs = process.platform === 'linux' && fs.existsSync('/proc/self/stat');
+  if (preference === 'procfs' || (preference === 'auto' && hasProcfs)) {
+    if (hasProcfs) return new ProcFsBackend();
+    console.warn('Token Acres: /proc is not available, falling back to ps');
+  }
+  return process.platform === 'win32' ? null : new PsBackend();
+}
+
+/**
+ * Lists processes with `ps`. Works on Linux and macOS.
+ */
+export class PsBackend implements ProcessBackend {
+  readonly name = 'ps';
+
+  list(): Promise<ProcessInfo[]> {
+    return new Promise((resolve, reject) => {
+      // lstart is a fixed five-token date ("Mon Oct 19 10:00:00 2026"); LC_ALL=C keeps it parseable
+      execFile(
+        'ps',
+        ['-axww', '-o', 'pid=,ppid=,lstart=,time=,command='],
+        { env: { ...process.env, LC_ALL: 'C' }, maxBuffer: 10 * 1024 * 1024 },
+        (error, stdout) => {
+          if (error) {
+            reject(error);
+          } else {
+            resolve(this.parse(stdout));
+          }
+        }
+      );
+    });
+  }
+
+  async cwd(pid: number): Promise<string | undefined> {
+    if (process.platform === 'linux') {
+      return readProcCwd(pid);
+    }
+    return new Promise((resolve) => {
+      execFile('lsof', ['-a', '-p', String(pid), '-d', 'cwd', '-Fn'], (error, stdout) => {
+        const line = error ? undefined : stdout.split('\n').find(l => l.startsWith('n'));
+        resolve(line?.slice(1));
+      });
+    });
+  }
+
+  private parse(output: string): ProcessInfo[] {
+    const processes: ProcessInfo[] = [];
+    for (const line of output.split('\n')) {
+      const tokens = line.trim().split(/\s+/);
+      if (tokens.length < 9) continue;
+
+      const pid = parseInt(tokens[0], 10);
+      const ppid = parseInt(tokens[1], 10);
+      if (isNaN(pid) || isNaN(ppid)) continue;
+
+      const started = Date.parse(tokens.slice(2, 7).join(' '));
+      processes.push({
+        pid,
+        ppid,
+        startTime: isNaN(started) ? undefined : started,
+        cpuTimeMs: parseCpuTime(tokens[7]),
+        command: tokens.slice(8).join(' '),
+      });
+    }
+    return processes;
+  }
+}
+
+/**
+ * Reads /proc directly. Linux only; avoids spawning `ps` every poll.
+ */
+export class ProcFsBackend implements ProcessBackend {
+  readonly name = 'procfs';
+  private bootTime?: number;
+
+  async list(): Promise<ProcessInfo[]> {
+    const bootTime = await this.getBootTime();
+    const entries = await fs.promises.readdir('/proc');
+    const processes: ProcessInfo[] = [];
+
+    for (const entry of entries) {
+      if (!/^\d+$/.test(entry)) continue;
+      const info = await this.readProcess(parseInt(entry, 10), bootTime);
+      if (info) processes.push(info);
+    }
+    return processes;
+  }
+
+  cwd(pid: number): Promise<string | undefined> {
+    return readProcCwd(pid);
+  }
+
+  private async readProcess(pid: number, bootTime: number | undefined): Promise<ProcessInfo | null> {
+    try {
+      const [stat, cmdline] = await Promise.all([
+        fs.promises.readFile(`/proc/${pid}/stat`, 'utf-8'),
+        fs.promises.readFile(`/proc/${pid}/cmdline`, 'utf-8'),
+      ]);
+
+      // The command name in parentheses may itself contain spaces or parens
+      const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+      const ppid = parseInt(fields[1], 10);
+      const cpuTicks = parseInt(fields[11], 10) + parseInt(fields[12], 10);
+      const startTicks = parseInt(fields[19], 10);
+
+      // Kernel threads have an empty cmdline; fall back to the comm name
+      const command = cmdline.replace(/\0+$/, '').split('\0').join(' ')
+        || stat.slice(stat.indexOf('(') + 1, stat.lastIndexOf(')'));
+
+      return {
+        pid,
+        ppid,
+        command,
+        cpuTimeMs: (cpuTicks / CLOCK_TICKS_PER_SEC) * 1000,
+        startTime: bootTime !== undefined ? bootTime + (startTicks / CLOCK_TICKS_PER_SEC) * 1000 : undefined,
+      };
+    } catch (err) {
+      return null; // Exited between readdir and read
+    }
+  }
+
+  private async getBootTime(): Promise<number | undefined> {
+    if (this.bootTime === undefined) {
+      try {
+        const stat = await fs.promises.readFile('/proc/stat', 'utf-8');
+        const match = /^btime (\d+)$/m.exec(stat);
+        if (match) this.bootTime = parseInt(match[1], 10) * 1000;
+      } catch (err) {
+        // Start times stay unknown
+      }
+    }
+    return this.bootTime;
+  }
+}
+
+async function readProcCwd(pid: number): Promise<string | undefined> {
+  try {
+    return path.resolve(await fs.promises.readlink(`/proc/${pid}/cwd`));
+  } catch (err) {
+    return undefined; // Another user's process, or already gone
+  }
+}
+
+/**
+ * Parse ps `time` output: "[dd-]hh:mm:ss" on Linux, "mm:ss.cc" on macOS.
+ */
+function parseCpuTime(value: string): number | undefined {
+  const [days, clock] = value.includes('-') ? value.split('-') : ['0', value];
+  const parts = clock.split(':').map(Number);
+  if (parts.some(isNaN)) return undefined;
+
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return (parseInt(days, 10) * 86400 + seconds) * 1000;
+}
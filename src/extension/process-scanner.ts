@@ -1,13 +1,18 @@
 import { EventEmitter } from 'events';
-import { execFile } from 'child_process';
+import { ProcessBackend, ProcessInfo, createProcessBackend } from './process-backends';
+import { BUILTIN_ADAPTERS } from './agent-adapters';
 
 /**
  * Metadata for a tracked external agent process.
  */
 interface TrackedProcess {
   pid: number;
+  ppid: number;
   processName: string;
   firstSeen: number;
+  startTime?: number;
+  cpuTimeMs?: number;
+  cwd?: string;
 }
 
 /**
@@ -18,25 +23,22 @@ interface ProcessScannerOptions {
   intervalMs?: number;
   /** RegExp patterns to match against process command lines */
   patterns?: RegExp[];
+  /** Process listing backend (default: procfs on Linux, ps elsewhere) */
+  backend?: ProcessBackend | null;
 }
 
-/** Default agent process patterns (mirrors AgentTracker defaults). */
-const DEFAULT_PATTERNS: RegExp[] = [
-  /claude/i,
-  /aider/i,
-  /cursor-agent/i,
-  /copilot/i,
-  /openai/i,
-  /cline/i,
-  /continue/i,
-  /codex/i,
-];
+// Parent chains longer than this are cut off (also guards against ppid cycles)
+const MAX_ANCESTRY_DEPTH = 32;
 
 /**
- * ProcessScanner polls system processes (`ps`) to detect AI agent processes
- * running outside VS Code integrated terminals. It emits the same
- * `agent-started` / `agent-completed` events as AgentTracker so the two
- * can be composed seamlessly.
+ * ProcessScanner polls system processes through a {@link ProcessBackend}
+ * to detect AI agent processes running outside VS Code integrated
+ * terminals. It emits the same `agent-started` / `agent-completed` events
+ * as AgentTracker so the two can be composed seamlessly.
+ *
+ * A matching process whose ancestor also matches (node workers, MCP
+ * servers, shells spawned by the agent) is treated as part of that agent
+ * rather than as a new one.
  *
  * Events:
  *  - `agent-started`   — a new matching PID appeared
@@ -44,22 +46,25 @@ const DEFAULT_PATTERNS: RegExp[] = [
  */
 export class ProcessScanner extends EventEmitter {
   private readonly intervalMs: number;
-  private readonly patterns: RegExp[];
+  private patterns: RegExp[];
+  private readonly backend: ProcessBackend | null;
   private tracked: Map<number, TrackedProcess> = new Map();
   private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
 
   constructor(options: ProcessScannerOptions = {}) {
     super();
     this.intervalMs = options.intervalMs ?? 3000;
-    this.patterns = options.patterns ?? DEFAULT_PATTERNS;
+    this.patterns = options.patterns ?? BUILTIN_ADAPTERS.flatMap(adapter => adapter.patterns);
+    this.backend = options.backend !== undefined ? options.backend : createProcessBackend();
   }
 
   // ── public API ──────────────────────────────────────────────
 
   /** Begin periodic polling. Safe to call multiple times. */
   start(): void {
-    if (this.timer) {
-      return; // already running
+    if (this.timer || !this.backend) {
+      return; // already running, or no backend on this platform
     }
     this.timer = setInterval(() => this.poll(), this.intervalMs);
     // Run an initial poll immediately so callers don't have to wait.
@@ -81,6 +86,11 @@ export class ProcessScanner extends EventEmitter {
     this.removeAllListeners();
   }
 
+  /** Replace the command line patterns; takes effect on the next poll. */
+  setPatterns(patterns: RegExp[]): void {
+    this.patterns = patterns;
+  }
+
   /** Return a snapshot of currently tracked processes. */
   getTrackedProcesses(): ReadonlyMap<number, Readonly<TrackedProcess>> {
     return this.tracked;
@@ -88,121 +98,147 @@ export class ProcessScanner extends EventEmitter {
 
   // ── internals ───────────────────────────────────────────────
 
-  private poll(): void {
-    execFile('ps', ['ax', '-o', 'pid=,command='], (error, stdout) => {
-      if (error) {
-        // ps failure is non-fatal; we'll retry on the next tick.
-        return;
-      }
-      this.reconcile(stdout);
-    });
+  private async poll(): Promise<void> {
+    if (this.polling || !this.backend) {
+      return; // previous poll still running
+    }
+    this.polling = true;
+
+    try {
+      await this.reconcile(await this.backend.list());
+    } catch (err) {
+      // Listing failure is non-fatal; we'll retry on the next tick.
+    } finally {
+      this.polling = false;
+    }
   }
 
   /**
-   * Compare the current `ps` output with tracked state:
+   * Compare the current process list with tracked state:
    *  - New matching PIDs  -> emit `agent-started`
    *  - Gone tracked PIDs  -> emit `agent-completed`
+   * A tracked PID whose start time changed was reused by a new process.
    */
-  private reconcile(psOutput: string): void {
-    const currentPids = this.parsePsOutput(psOutput);
+  private async reconcile(processes: ProcessInfo[]): Promise<void> {
+    const current = this.findAgentProcesses(processes);
+    const byPid = new Map(processes.map(p => [p.pid, p]));
 
-    // Detect new processes
-    for (const [pid, processName] of currentPids) {
-      if (!this.tracked.has(pid)) {
-        const now = Date.now();
-        const entry: TrackedProcess = { pid, processName, firstSeen: now };
-        this.tracked.set(pid, entry);
-
-        this.emit('agent-started', {
-          id: `proc-${pid}`,
-          processName,
-          startTime: now,
-          pid,
-        });
+    // Detect disappeared processes
+    for (const [pid, entry] of this.tracked) {
+      const match = current.get(pid);
+      if (match && match.info.startTime === entry.startTime) {
+        entry.cpuTimeMs = match.info.cpuTimeMs;
+        continue;
       }
+      this.tracked.delete(pid);
+
+      const duration = Date.now() - entry.firstSeen;
+      const outputLength = Math.round((duration / 1000) * 100);
+
+      this.emit('agent-completed', {
+        id: `proc-${pid}`,
+        processName: entry.processName,
+        pid,
+        duration,
+        exitCode: 0,
+        outputLength,
+        outputSource: 'heuristic',
+        cpuTimeMs: entry.cpuTimeMs,
+        success: true,
+      });
     }
 
-    // Detect disappeared processes
-    for (const [pid, entry] of this.tracked) {
-      if (!currentPids.has(pid)) {
-        this.tracked.delete(pid);
-
-        const duration = Date.now() - entry.firstSeen;
-        const outputLength = Math.round((duration / 1000) * 100);
-
-        this.emit('agent-completed', {
-          id: `proc-${pid}`,
-          processName: entry.processName,
-          duration,
-          exitCode: 0,
-          outputLength,
-          success: true,
-        });
+    // Detect new processes
+    for (const [pid, { info, processName }] of current) {
+      if (this.tracked.has(pid)) {
+        continue;
       }
+      const now = Date.now();
+      const entry: TrackedProcess = {
+        pid,
+        ppid: info.ppid,
+        processName,
+        firstSeen: now,
+        startTime: info.startTime,
+        cpuTimeMs: info.cpuTimeMs,
+      };
+      this.tracked.set(pid, entry);
+      entry.cwd = await this.backend!.cwd(pid);
+
+      this.emit('agent-started', {
+        id: `proc-${pid}`,
+        processName,
+        startTime: info.startTime ?? now,
+        pid,
+        ppid: info.ppid,
+        ancestors: this.ancestorsOf(info, byPid),
+        cwd: entry.cwd,
+      });
     }
   }
 
   /**
-   * Parse `ps ax -o pid=,command=` output and return a Map of PIDs whose
-   * command line matches at least one configured pattern.
+   * Return the processes whose command line matches an agent pattern, keyed
+   * by PID, keeping only the topmost process of each matching process tree.
    *
    * Filters out:
    *  - The current Node process (`process.pid`)
    *  - VS Code / Electron helper processes (`extensionHost`, `electron`)
    */
-  private parsePsOutput(output: string): Map<number, string> {
-    const results = new Map<number, string>();
+  private findAgentProcesses(processes: ProcessInfo[]): Map<number, { info: ProcessInfo; processName: string }> {
+    const matches = new Map<number, { info: ProcessInfo; processName: string }>();
     const ownPid = process.pid;
-    const lines = output.split('\n');
 
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!trimmed) {
+    for (const info of processes) {
+      // Skip own process
+      if (info.pid === ownPid) {
         continue;
       }
 
-      // Format: "  1234 /usr/bin/node ..."
-      const spaceIdx = trimmed.indexOf(' ');
-      if (spaceIdx === -1) {
+      // Skip VS Code / Electron helper processes
+      if (/extensionHost|electron/i.test(info.command)) {
         continue;
       }
 
-      const pidStr = trimmed.slice(0, spaceIdx);
-      const command = trimmed.slice(spaceIdx + 1);
-
-      const pid = parseInt(pidStr, 10);
-      if (isNaN(pid)) {
-        continue;
+      // Check if command matches any agent pattern; first match wins
+      const processName = this.matchProcessName(info.command);
+      if (processName) {
+        matches.set(info.pid, { info, processName });
       }
+    }
 
-      // Skip own process
-      if (pid === ownPid) {
-        continue;
+    // Drop children of another matching process
+    const byPid = new Map(processes.map(p => [p.pid, p]));
+    for (const [pid, { info }] of matches) {
+      if (this.ancestorsOf(info, byPid).some(ancestor => matches.has(ancestor))) {
+        matches.delete(pid);
       }
+    }
 
-      // Skip VS Code / Electron helper processes
-      if (/extensionHost|electron/i.test(command)) {
-        continue;
-      }
+    return matches;
+  }
 
-      // Check if command matches any agent pattern
-      for (const pattern of this.patterns) {
-        if (pattern.test(command)) {
-          const processName = this.extractProcessName(pattern);
-          results.set(pid, processName);
-          break; // first match wins
-        }
-      }
+  private ancestorsOf(info: ProcessInfo, byPid: Map<number, ProcessInfo>): number[] {
+    const ancestors: number[] = [];
+    let parent = byPid.get(info.ppid);
+    while (parent && ancestors.length < MAX_ANCESTRY_DEPTH && !ancestors.includes(parent.pid)) {
+      ancestors.push(parent.pid);
+      parent = byPid.get(parent.ppid);
     }
-
-    return results;
+    return ancestors;
   }
 
   /**
-   * Derive a human-readable process name from a RegExp's source,
-   * stripping common regex metacharacters.
+   * Label a process by the text its pattern matched in the command line
+   * (e.g. `cursor-agent` for `/cursor-?agent/`), lowercased.
    */
-  private extractProcessName(pattern: RegExp): string {
-    return pattern.source.replace(/[\\^$.*+?()[\]{}|]/g, '');
+  private matchProcessName(command: string): string | undefined {
+    for (const pattern of this.patterns) {
+      const match = pattern.exec(command);
+      if (match && match[0]) {
+        return match[0].toLowerCase();
+      }
+    }
+    return undefined;
   }
 }
@@ -0,0 +1,267 @@
+import * as vscode from 'vscode';
+import { SessionLog } from './session-log';
+import { SessionLogEntry } from './types';
+import { getNonce } from './webview-provider';
+
+/**
+ * Editor panel listing the session log as a table, filterable by agent,
+ * day and grade. Only one panel is open at a time; new entries are pushed
+ * to it as tasks complete.
+ */
+export class SessionHistoryPanel {
+  private static current?: SessionHistoryPanel;
+
+  private readonly onAppended = (entry: SessionLogEntry) => {
+    this.panel.webview.postMessage({ type: 'entry', entry });
+  };
+
+  static show(log: SessionLog) {
+    if (SessionHistoryPanel.current) {
+      SessionHistoryPanel.current.panel.reveal();
+      return;
+    }
+    const panel = vscode.window.createWebviewPanel(
+      'tokenacres.sessionHistory',
+      'Token Acres: Session History',
+      vscode.ViewColumn.Active,
+      { enableScripts: true, localResourceRoots: [] }
+    );
+    SessionHistoryPanel.current = new SessionHistoryPanel(panel, log);
+  }
+
+  private constructor(private panel: vscode.WebviewPanel, private log: SessionLog) {
+    panel.webview.html = this.getHtml(panel.webview);
+    panel.webview.onDidReceiveMessage((message) => {
+      if (message?.type === 'ready') {
+        this.sendEntries();
+      }
+    });
+    log.on('appended', this.onAppended);
+    panel.onDidDispose(() => {
+      log.off('appended', this.onAppended);
+      SessionHistoryPanel.current = undefined;
+    });
+  }
+
+  private async sendEntries() {
+    try {
+      const entries = await this.log.read();
+      this.panel.webview.postMessage({ type: 'entries', entries });
+    } catch (err) {
+      console.error('Token Acres: Failed to read session log', err);
+      vscode.window.showErrorMessage(`Token Acres: Failed to read session history: ${err}`);
+    }
+  }
+
+  private getHtml(webview: vscode.Webview): string {
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy"
+    content="default-src 'none';
+             script-src 'nonce-${nonce}';
+             style-src ${webview.cspSource} 'unsafe-inline';">
+  <title>Session History</title>
+  <style>
+    body {
+      font-family: var(--vscode-font-family);
+      font-size: var(--vscode-font-size);
+      color: var(--vscode-foreground);
+      padding: 0 16px 16px;
+    }
+
+    .filters {
+      display: flex;
+      gap: 12px;
+      align-items: center;
+      padding: 12px 0;
+      position: sticky;
+      top: 0;
+      background: var(--vscode-editor-background);
+    }
+
+    select, input {
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      border: 1px solid var(--vscode-input-border, transparent);
+      padding: 2px 4px;
+    }
+
+    table {
+      border-collapse: collapse;
+      width: 100%;
+    }
+
+    th, td {
+      text-align: left;
+      padding: 4px 8px;
+      border-bottom: 1px solid var(--vscode-panel-border);
+      white-space: nowrap;
+    }
+
+    td.num, th.num {
+      text-align: right;
+    }
+
+    tr.entry {
+      cursor: pointer;
+    }
+
+    tr.entry:hover {
+      background: var(--vscode-list-hoverBackground);
+    }
+
+    tr.detail td {
+      white-space: normal;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .grade-S { color: #f1c40f; font-weight: bold; }
+    .grade-A { color: #2ecc71; }
+    .grade-B { color: var(--vscode-foreground); }
+    .grade-C { color: #e74c3c; }
+
+    .summary {
+      color: var(--vscode-descriptionForeground);
+      margin-left: auto;
+    }
+  </style>
+</head>
+<body>
+  <div class="filters">
+    <label>Agent <select id="agent"><option value="">All</option></select></label>
+    <label>Day <input type="date" id="day"></label>
+    <label>Grade
+      <select id="grade">
+        <option value="">All</option>
+        <option>S</option><option>A</option><option>B</option><option>C</option>
+      </select>
+    </label>
+    <span class="summary" id="summary">Loading…</span>
+  </div>
+  <table>
+    <thead>
+      <tr>
+        <th>Ended</th><th>Agent</th><th>Model</th><th>Project</th>
+        <th class="num">Duration</th><th class="num">Tokens</th><th class="num">Lines</th>
+        <th>Grade</th><th class="num">Actions</th><th class="num">Crops</th><th>Pawn</th>
+      </tr>
+    </thead>
+    <tbody id="rows"></tbody>
+  </table>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const MAX_ROWS = 500;
+    let entries = [];
+    let expanded = new Set();
+
+    const $ = (id) => document.getElementById(id);
+    const esc = (value) => String(value ?? '').replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]));
+    const pad = (n) => String(n).padStart(2, '0');
+    const dayOf = (ts) => { const d = new Date(ts); return d.getFullYear() + '-' + pad(d.getMonth() + 1) + '-' + pad(d.getDate()); };
+    const basename = (p) => p ? p.split(/[\\\\/]/).pop() : '';
+
+    function formatDuration(ms) {
+      const s = Math.round(ms / 1000);
+      if (s < 60) return s + 's';
+      const m = Math.floor(s / 60);
+      return m < 60 ? m + 'm ' + pad(s % 60) + 's' : Math.floor(m / 60) + 'h ' + pad(m % 60) + 'm';
+    }
+
+    function formatTokens(tokens) {
+      if (!tokens) return '';
+      const total = tokens.input + tokens.output;
+      return total >= 1000 ? (total / 1000).toFixed(1) + 'k' : String(total);
+    }
+
+    function describe(e) {
+      const parts = [
+        'Started ' + new Date(e.startTime).toLocaleString(),
+        e.success ? 'succeeded' : 'failed',
+        'baseline ' + (e.baseline ?? 'default'),
+      ];
+      if (e.turns) parts.push(e.turns + ' turns');
+      if (e.toolCalls) parts.push(e.toolCalls + ' tool calls');
+      if (e.costUsd !== undefined) parts.push('$' + e.costUsd.toFixed(2));
+      if (e.filesChanged) parts.push(e.filesChanged + ' files changed');
+      if (e.outputLength) parts.push(e.outputLength + ' bytes of output (' + (e.outputSource ?? 'unknown') + ')');
+      const test = e.outcome?.test;
+      if (test) parts.push('tests ' + (test.lastPassed ? 'passing' : 'failing') + ' after ' + test.runs + ' runs');
+      const build = e.outcome?.build;
+      if (build) parts.push('build ' + (build.lastPassed ? 'passing' : 'failing') + ' after ' + build.runs + ' runs');
+      return parts.join(' · ');
+    }
+
+    function refreshAgents() {
+      const select = $('agent');
+      const current = select.value;
+      const agents = [...new Set(entries.map(e => e.agentType ?? e.processName))].sort();
+      select.innerHTML = '<option value="">All</option>' + agents.map(a => '<option>' + esc(a) + '</option>').join('');
+      select.value = agents.includes(current) ? current : '';
+    }
+
+    function render() {
+      const agent = $('agent').value;
+      const day = $('day').value;
+      const grade = $('grade').value;
+      const matches = entries.filter(e =>
+        (!agent || (e.agentType ?? e.processName) === agent) &&
+        (!day || dayOf(e.timestamp) === day) &&
+        (!grade || e.grade === grade)
+      ).reverse();
+
+      const actions = matches.reduce((sum, e) => sum + e.actionsEarned, 0);
+      $('summary').textContent = matches.length + ' tasks · ' + actions + ' actions'
+        + (matches.length > MAX_ROWS ? ' · showing latest ' + MAX_ROWS : '');
+
+      $('rows').innerHTML = matches.slice(0, MAX_ROWS).map(e => {
+        const key = e.agentId + ':' + e.timestamp;
+        const row = '<tr class="entry" data-key="' + esc(key) + '">'
+          + '<td>' + esc(new Date(e.timestamp).toLocaleString()) + '</td>'
+          + '<td>' + esc(e.agentType ?? e.processName) + '</td>'
+          + '<td>' + esc(e.model) + '</td>'
+          + '<td title="' + esc(e.project) + '">' + esc(basename(e.project)) + '</td>'
+          + '<td class="num">' + formatDuration(e.duration) + '</td>'
+          + '<td class="num">' + formatTokens(e.tokens) + '</td>'
+          + '<td class="num">' + esc(e.linesChanged) + '</td>'
+          + '<td class="grade-' + esc(e.grade) + '">' + esc(e.grade) + '</td>'
+          + '<td class="num">' + e.actionsEarned + '</td>'
+          + '<td class="num">' + e.cropsAdvanced + '</td>'
+          + '<td>' + esc(e.pawnName) + '</td>'
+          + '</tr>';
+        return expanded.has(key) ? row + '<tr class="detail"><td colspan="11">' + esc(describe(e)) + '</td></tr>' : row;
+      }).join('');
+    }
+
+    $('rows').addEventListener('click', (event) => {
+      const row = event.target.closest('tr.entry');
+      if (!row) return;
+      const key = row.dataset.key;
+      expanded.has(key) ? expanded.delete(key) : expanded.add(key);
+      render();
+    });
+    ['agent', 'day', 'grade'].forEach(id => $(id).addEventListener('change', render));
+
+    window.addEventListener('message', (event) => {
+      const message = event.data;
+      if (message.type === 'entries') {
+        entries = message.entries;
+      } else if (message.type === 'entry') {
+        entries.push(message.entry);
+      } else {
+        return;
+      }
+      refreshAgents();
+      render();
+    });
+
+    vscode.postMessage({ type: 'ready' });
+  </script>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,75 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { SessionLogEntry } from './types';
+
+/**
+ * Configuration options for SessionLog.
+ */
+interface SessionLogOptions {
+  /** JSONL file entries are appended to (default: ~/.token-acres/sessions.jsonl) */
+  file?: string;
+}
+
+const DEFAULT_FILE = path.join(os.homedir(), '.token-acres', 'sessions.jsonl');
+
+/**
+ * SessionLog keeps every scored task in an append-only JSONL file, one
+ * entry per line, so history outlives the rolling window kept in the farm
+ * state. Appends are queued so entries land in completion order; lines
+ * that fail to parse (a write cut short by a crash) are skipped on read.
+ * Several windows may append to the same file.
+ *
+ * Events:
+ *  - `appended` — an entry was written
+ */
+export class SessionLog extends EventEmitter {
+  private readonly file: string;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(options: SessionLogOptions = {}) {
+    super();
+    this.file = options.file ?? DEFAULT_FILE;
+  }
+
+  // ── public API ──────────────────────────────────────────────
+
+  /** Append an entry. Failures are logged, never thrown. */
+  append(entry: SessionLogEntry): Promise<void> {
+    this.pending = this.pending.then(async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+        await fs.promises.appendFile(this.file, JSON.stringify(entry) + '\n', 'utf-8');
+        this.emit('appended', entry);
+      } catch (err) {
+        console.error('Token Acres: Failed to append to session log', err);
+      }
+    });
+    return this.pending;
+  }
+
+  /** Every entry in the log, oldest first. */
+  async read(): Promise<SessionLogEntry[]> {
+    await this.pending;
+
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(this.file, 'utf-8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw err;
+    }
+
+    const entries: SessionLogEntry[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as SessionLogEntry);
+      } catch (err) {
+        // Partial line from an interrupted write
+      }
+    }
+    return entries;
+  }
+}
@@ -1,5 +1,13 @@
 import * as vscode from 'vscode';
-import { FarmState } from './types';
+import { BudgetStatus, FarmState, Weather } from './types';
+
+const WEATHER_ICONS: Record<Weather, string> = {
+  clear: '☀️',
+  cloudy: '☁️',
+  rain: '🌧️',
+  storm: '⛈️',
+  drought: '🏜️',
+};
 
 export class StatusBarManager {
   private statusBarItem: vscode.StatusBarItem;
@@ -28,6 +36,7 @@ export class StatusBarManager {
     const season = this.capitalizeFirst(state.stats.currentSeason);
     const daysSince = state.stats.daysSinceStart;
     const seasonProgress = Math.round((daysSince / state.settings.seasonLengthDays) * 100);
+    const budgetLine = state.budget ? `${this.formatBudget(state.budget)}  \n` : '';
     
     this.statusBarItem.tooltip = new vscode.MarkdownString(`
 **Token Acres Farm**
@@ -37,11 +46,17 @@ export class StatusBarManager {
 📊 **Efficiency:** ${efficiency}%  
 🌿 **Season:** ${season} (${seasonProgress}% complete)  
 ✅ **Tasks:** ${state.stats.totalTasksCompleted} completed  
-
+${budgetLine}
 *Click to open farm view*
     `.trim());
   }
 
+  private formatBudget(budget: BudgetStatus): string {
+    const format = (amount: number) => budget.unit === 'usd' ? `$${amount.toFixed(2)}` : `${Math.round(amount).toLocaleString()} tokens`;
+    const percent = Math.round((budget.spent / budget.limit) * 100);
+    return `${WEATHER_ICONS[budget.weather]} **Budget:** ${format(budget.spent)} of ${format(budget.limit)} ${budget.period} (${percent}%)`;
+  }
+
   private capitalizeFirst(str: string): string {
     return str.charAt(0).toUpperCase() + str.slice(1);
   }
@@ -0,0 +1,230 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FarmDelta, SharedFarm, applyDelta, applySharedFarm, diffFarm, isEmptyDelta, isValidDelta, resolvePlotConflict, sharedFrom,
+} from './sync-protocol';
+import { crop, farmState, pawn, plot } from './test-fixtures';
+import { FarmState } from './types';
+
+function farm(extra: Partial<SharedFarm> = {}): SharedFarm {
+  return {
+    revision: 3,
+    plots: [plot(0, 0), plot(1, 0)],
+    plotRevisions: {},
+    storehouse: [{ itemId: 'carrot', quantity: 5, maxStack: 99 }],
+    storehouseCapacity: 256,
+    economy: { seeds: 20, totalEarned: 50, totalSpent: 30 },
+    upgrades: {},
+    market: { day: '2026-10-19', items: {} },
+    pawns: [],
+    ...extra,
+  };
+}
+
+function delta(extra: Partial<FarmDelta> = {}): FarmDelta {
+  return {
+    owner: 'ann@box',
+    pawns: [],
+    plots: [],
+    storehouse: {},
+    storehouseCapacity: 256,
+    economy: { seeds: 0, totalEarned: 0, totalSpent: 0 },
+    upgrades: {},
+    market: { day: '2026-10-19', items: {} },
+    marketSales: {},
+    ...extra,
+  };
+}
+
+function memberState(shared: SharedFarm): FarmState {
+  const state = farmState();
+  state.farm = { gridSize: 2, plots: JSON.parse(JSON.stringify(shared.plots)), buildings: [] };
+  state.storehouse = { inventory: JSON.parse(JSON.stringify(shared.storehouse)), capacity: shared.storehouseCapacity };
+  state.economy = { ...shared.economy };
+  state.upgrades = { ...shared.upgrades };
+  state.market = JSON.parse(JSON.stringify(shared.market));
+  return state;
+}
+
+describe('applyDelta', () => {
+  it('replaces plots changed on top of the current revision', () => {
+    const shared = farm();
+    const planted = plot(0, 0, { type: 'planted', crop: crop(1) });
+    const conflicts = applyDelta(shared, delta({ plots: [{ x: 0, y: 0, baseRevision: 0, plot: planted }] }));
+
+    expect(conflicts).toBe(0);
+    expect(shared.plots[0]).toEqual(planted);
+    expect(shared.plotRevisions['0,0']).toBe(1);
+    expect(shared.revision).toBe(4);
+  });
+
+  it('adds plots on land the farm has not seen yet', () => {
+    const shared = farm();
+    applyDelta(shared, delta({ plots: [{ x: 2, y: 0, baseRevision: 0, plot: plot(2, 0, { type: 'empty' }) }] }));
+    expect(shared.plots).toHaveLength(3);
+  });
+
+  it('adds up storehouse and economy changes from concurrent members', () => {
+    const shared = farm();
+    applyDelta(shared, delta({ storehouse: { carrot: 3 }, economy: { seeds: 10, totalEarned: 10, totalSpent: 0 } }));
+    applyDelta(shared, delta({ owner: 'bo@box', storehouse: { carrot: -2 }, economy: { seeds: -5, totalEarned: 0, totalSpent: 5 } }));
+
+    expect(shared.storehouse).toEqual([{ itemId: 'carrot', quantity: 6, maxStack: 99 }]);
+    expect(shared.economy).toEqual({ seeds: 25, totalEarned: 60, totalSpent: 35 });
+  });
+
+  it('cuts spending to what is left and counts it as a conflict', () => {
+    const shared = farm();
+    const conflicts = applyDelta(shared, delta({ storehouse: { carrot: -8 }, economy: { seeds: -50, totalEarned: 0, totalSpent: 50 } }));
+
+    expect(conflicts).toBe(2);
+    expect(shared.storehouse).toEqual([]);
+    expect(shared.economy.seeds).toBe(0);
+  });
+
+  it('resolves a plot changed by someone else since the base revision', () => {
+    const shared = farm({ plots: [plot(0, 0, { type: 'planted', crop: crop(2) })], plotRevisions: { '0,0': 2 } });
+    const behind = plot(0, 0, { type: 'planted', crop: crop(1) });
+    const conflicts = applyDelta(shared, delta({ plots: [{ x: 0, y: 0, baseRevision: 1, plot: behind }] }));
+
+    expect(conflicts).toBe(1);
+    expect(shared.plots[0].crop!.stage).toBe(2);
+    expect(shared.plotRevisions['0,0']).toBe(2);
+  });
+
+  it("replaces only the owner's pawns", () => {
+    const shared = farm({ pawns: [pawn('a', { owner: 'ann@box' }), pawn('b', { owner: 'bo@box' })] });
+    applyDelta(shared, delta({ pawns: [pawn('a2', { owner: 'ann@box' })] }));
+    expect(shared.pawns.map(p => p.id)).toEqual(['b', 'a2']);
+  });
+
+  it('keeps the largest storehouse any member has bought', () => {
+    const shared = farm();
+    applyDelta(shared, delta({ storehouseCapacity: 320 }));
+    applyDelta(shared, delta({ owner: 'bo@box', storehouseCapacity: 256 }));
+    expect(shared.storehouseCapacity).toBe(320);
+  });
+
+  it('adds up upgrade levels, up to the last', () => {
+    const shared = farm({ upgrades: { 'land': 4 } });
+    applyDelta(shared, delta({ upgrades: { 'extra-plots': 1 } }));
+    const conflicts = applyDelta(shared, delta({ owner: 'bo@box', upgrades: { 'extra-plots': 1, 'land': 2 } }));
+
+    expect(conflicts).toBe(1);
+    expect(shared.upgrades).toEqual({ 'land': 5, 'extra-plots': 2 });
+  });
+
+  it("adds up sales on the market's day and takes a market moved on to a later one", () => {
+    const shared = farm({ market: { day: '2026-10-19', items: { carrot: { drift: 1, sold: 4, history: [] } } } });
+    applyDelta(shared, delta({ marketSales: { carrot: 3 } }));
+    expect(shared.market.items.carrot.sold).toBe(7);
+
+    const later = { day: '2026-10-20', items: { carrot: { drift: 1.1, sold: 2, history: [9] } } };
+    applyDelta(shared, delta({ owner: 'bo@box', market: later }));
+    expect(shared.market).toEqual(later);
+
+    applyDelta(shared, delta({ marketSales: { carrot: 5 } }));
+    expect(shared.market.items.carrot.sold).toBe(2);
+  });
+});
+
+describe('resolvePlotConflict', () => {
+  it('keeps the crop that has grown further', () => {
+    const current = plot(0, 0, { type: 'planted', crop: crop(1, 1) });
+    const incoming = plot(0, 0, { type: 'planted', crop: crop(1, 2) });
+    expect(resolvePlotConflict(current, incoming).crop!.tasksUntilNextStage).toBe(1);
+    expect(resolvePlotConflict(incoming, current).crop!.tasksUntilNextStage).toBe(1);
+  });
+
+  it('keeps pests and weeds cleared if either member cleared them', () => {
+    const current = plot(0, 0, { type: 'planted', weeds: true, crop: crop(2, 2, { pest: true }) });
+    const incoming = plot(0, 0, { type: 'planted', crop: crop(1) });
+    const resolved = resolvePlotConflict(current, incoming);
+
+    expect(resolved.crop!.stage).toBe(2);
+    expect(resolved.crop!.pest).toBeUndefined();
+    expect(resolved.weeds).toBeUndefined();
+  });
+
+  it('clears weeds on bare soil cleared by either member', () => {
+    const resolved = resolvePlotConflict(plot(0, 0, { weeds: true }), plot(0, 0));
+    expect(resolved.weeds).toBeUndefined();
+  });
+
+  it('keeps the first change when the crops differ', () => {
+    const current = plot(0, 0, { type: 'planted', crop: crop(1) });
+    const incoming = plot(0, 0, { type: 'planted', crop: crop(3, 1, { type: 'potato' }) });
+    expect(resolvePlotConflict(current, incoming)).toBe(current);
+  });
+});
+
+describe('diffFarm', () => {
+  it('describes local changes as a delta the server can merge', () => {
+    const base = farm();
+    const state = memberState(base);
+    state.farm.plots[1] = plot(1, 0, { type: 'planted', crop: crop(0) });
+    state.storehouse.inventory[0].quantity = 2;
+    state.economy.seeds += 7;
+    state.upgrades['sprinklers'] = 1;
+    state.market.items.carrot = { drift: 1, sold: 3, history: [] };
+
+    const change = diffFarm(base, state, 'ann@box');
+    expect(change.plots).toEqual([{ x: 1, y: 0, baseRevision: 0, plot: state.farm.plots[1] }]);
+    expect(change.storehouse).toEqual({ carrot: -3 });
+    expect(change.economy).toEqual({ seeds: 7, totalEarned: 0, totalSpent: 0 });
+    expect(change.upgrades).toEqual({ 'sprinklers': 1 });
+    expect(change.marketSales).toEqual({ carrot: 3 });
+    expect(isEmptyDelta(change, base)).toBe(false);
+    expect(isEmptyDelta(diffFarm(base, memberState(base), 'ann@box'), base)).toBe(true);
+  });
+});
+
+describe('applySharedFarm', () => {
+  it('copies the shared farm into a member state, keeping their own pawns', () => {
+    const state = memberState(farm());
+    state.pawns = [pawn('mine'), pawn('old', { owner: 'bo@box' })];
+    const shared = farm({
+      plots: [...farm().plots, plot(2, 1, { type: 'empty' })],
+      storehouseCapacity: 320,
+      upgrades: { 'land': 1 },
+      market: { day: '2026-10-20', items: {} },
+      pawns: [pawn('theirs', { owner: 'bo@box' }), pawn('mine', { owner: 'ann@box' })],
+    });
+    const market = state.market;
+    applySharedFarm(state, shared, 'ann@box');
+
+    expect(state.farm.plots).toHaveLength(3);
+    expect(state.farm.gridSize).toBe(3);
+    expect(state.storehouse.capacity).toBe(320);
+    expect(state.upgrades).toEqual({ 'land': 1 });
+    expect(state.market).toBe(market);
+    expect(market.day).toBe('2026-10-20');
+    expect(state.pawns.map(p => p.id)).toEqual(['mine', 'theirs']);
+  });
+
+  it('round-trips with sharedFrom', () => {
+    const state = memberState(farm());
+    const shared = sharedFrom(state, 'ann@box');
+    expect(shared.plots).toEqual(state.farm.plots);
+    expect(shared.storehouseCapacity).toBe(256);
+  });
+});
+
+describe('isValidDelta', () => {
+  it('accepts a well-formed delta', () => {
+    expect(isValidDelta(delta({ storehouse: { carrot: 2 } }))).toBe(true);
+  });
+
+  it('rejects counts that are not finite numbers', () => {
+    expect(isValidDelta({ ...delta(), storehouse: { carrot: '2' } })).toBe(false);
+    expect(isValidDelta({ ...delta(), economy: { seeds: null, totalEarned: 0, totalSpent: 0 } })).toBe(false);
+    expect(isValidDelta({ ...delta(), economy: undefined })).toBe(false);
+    expect(isValidDelta({ ...delta(), plots: [{ x: 0, y: 0, plot: plot(0, 0) }] })).toBe(false);
+    expect(isValidDelta({ ...delta(), upgrades: { land: '1' } })).toBe(false);
+    expect(isValidDelta({ ...delta(), market: { day: '2026-10-19', items: { carrot: { drift: 1 } } } })).toBe(false);
+  });
+
+  it('rejects bodies that are not deltas at all', () => {
+    expect(isValidDelta(null)).toBe(false);
+    expect(isValidDelta({ owner: 'ann@box' })).toBe(false);
+  });
+});
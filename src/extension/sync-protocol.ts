@@ -0,0 +1,312 @@
+import { InventoryManager } from './inventory';
+import { FarmState, ItemStack, MarketState, PawnState, PlotState, UpgradeId } from './types';
+import { UPGRADE_CATALOG } from './upgrades';
+
+// Shared by the team sync server and the extension's FarmSync client. Kept
+// free of vscode imports so the server runs under plain Node.
+
+/**
+ * The part of a farm a team shares. Stats, settings, the player and task
+ * history stay with each member.
+ */
+export interface SharedFarm {
+  revision: number;                        // bumped on every accepted delta
+  plots: PlotState[];
+  plotRevisions: Record<string, number>;   // keyed by plotKey; bumped on every accepted plot change
+  storehouse: ItemStack[];
+  storehouseCapacity: number;
+  economy: FarmState['economy'];
+  upgrades: FarmState['upgrades'];         // bought with the shared seeds, so shared too
+  market: MarketState;                     // one market, so everyone's sales move its prices
+  pawns: PawnState[];                      // every member's pawns, owner set
+}
+
+export interface PlotChange {
+  x: number;
+  y: number;
+  baseRevision: number;   // plot revision the change was made on top of
+  plot: PlotState;
+}
+
+/**
+ * One member's changes since their last sync. Plots are whole replacements
+ * checked against their base revision; storehouse and economy are counter
+ * changes, so concurrent harvests add up instead of overwriting. Storehouse
+ * capacity only grows, so the largest any member has bought wins. Upgrade
+ * levels are counter changes too; the market is replaced by a member who
+ * has moved it on to a later day, and otherwise takes on their sales.
+ */
+export interface FarmDelta {
+  owner: string;
+  pawns: PawnState[];                      // the owner's pawns, replacing theirs on the farm
+  plots: PlotChange[];
+  storehouse: Record<string, number>;      // item quantity changes
+  storehouseCapacity: number;              // the owner's storehouse slots
+  economy: { seeds: number; totalEarned: number; totalSpent: number };
+  upgrades: Partial<Record<UpgradeId, number>>;  // levels bought
+  market: MarketState;                     // the owner's market
+  marketSales: Record<string, number>;     // items sold on the base's market day
+}
+
+export interface SyncResponse {
+  farm: SharedFarm;
+  conflicts: number;      // plot and inventory changes that lost to another member's
+}
+
+// Storehouse slots, as in the default farm
+const DEFAULT_STOREHOUSE_CAPACITY = 256;
+
+export function plotKey(x: number, y: number): string {
+  return `${x},${y}`;
+}
+
+/**
+ * Start a shared farm from one member's save.
+ */
+export function sharedFrom(state: FarmState, owner: string): SharedFarm {
+  return {
+    revision: 0,
+    plots: clone(state.farm.plots),
+    plotRevisions: {},
+    storehouse: clone(state.storehouse.inventory),
+    storehouseCapacity: state.storehouse.capacity ?? DEFAULT_STOREHOUSE_CAPACITY,
+    economy: clone(state.economy),
+    upgrades: clone(state.upgrades),
+    market: clone(state.market),
+    pawns: ownPawns(state, owner),
+  };
+}
+
+/**
+ * What a member changed relative to the shared farm they last synced.
+ * `plotBases` overrides the base revision of plots changed locally while a
+ * newer farm was being applied over them.
+ */
+export function diffFarm(base: SharedFarm, state: FarmState, owner: string, plotBases: Record<string, number> = {}): FarmDelta {
+  const basePlots = new Map(base.plots.map(p => [plotKey(p.x, p.y), p]));
+  const plots: PlotChange[] = [];
+  for (const plot of state.farm.plots) {
+    const key = plotKey(plot.x, plot.y);
+    if (JSON.stringify(plot) !== JSON.stringify(basePlots.get(key))) {
+      plots.push({ x: plot.x, y: plot.y, baseRevision: plotBases[key] ?? base.plotRevisions[key] ?? 0, plot: clone(plot) });
+    }
+  }
+
+  const storehouse: Record<string, number> = {};
+  const before = itemCounts(base.storehouse);
+  const after = itemCounts(state.storehouse.inventory);
+  for (const itemId of new Set([...before.keys(), ...after.keys()])) {
+    const change = (after.get(itemId) ?? 0) - (before.get(itemId) ?? 0);
+    if (change !== 0) storehouse[itemId] = change;
+  }
+
+  const upgrades: Partial<Record<UpgradeId, number>> = {};
+  for (const id of Object.keys(UPGRADE_CATALOG) as UpgradeId[]) {
+    const change = (state.upgrades[id] ?? 0) - (base.upgrades[id] ?? 0);
+    if (change !== 0) upgrades[id] = change;
+  }
+
+  // Sales made after the market moved on to another day come with the market itself
+  const marketSales: Record<string, number> = {};
+  if (state.market.day === base.market.day) {
+    for (const [itemId, item] of Object.entries(state.market.items)) {
+      const sold = item.sold - (base.market.items[itemId]?.sold ?? 0);
+      if (sold > 0) marketSales[itemId] = sold;
+    }
+  }
+
+  return {
+    owner,
+    pawns: ownPawns(state, owner),
+    plots,
+    storehouse,
+    storehouseCapacity: state.storehouse.capacity,
+    economy: {
+      seeds: state.economy.seeds - base.economy.seeds,
+      totalEarned: state.economy.totalEarned - base.economy.totalEarned,
+      totalSpent: state.economy.totalSpent - base.economy.totalSpent,
+    },
+    upgrades,
+    market: clone(state.market),
+    marketSales,
+  };
+}
+
+/**
+ * True when a delta changes nothing but its owner's pawns, and those match
+ * what the farm already has for them.
+ */
+export function isEmptyDelta(delta: FarmDelta, base: SharedFarm): boolean {
+  const basePawns = base.pawns.filter(p => p.owner === delta.owner);
+  return delta.plots.length === 0 &&
+    Object.keys(delta.storehouse).length === 0 &&
+    delta.storehouseCapacity <= base.storehouseCapacity &&
+    delta.economy.seeds === 0 && delta.economy.totalEarned === 0 && delta.economy.totalSpent === 0 &&
+    Object.keys(delta.upgrades).length === 0 &&
+    Object.keys(delta.marketSales).length === 0 &&
+    delta.market.day <= base.market.day &&
+    JSON.stringify(delta.pawns) === JSON.stringify(basePawns);
+}
+
+/**
+ * True when a request body has the shape of a FarmDelta, with every count a
+ * finite number. applyDelta trusts its input, so the server checks first
+ * rather than leave a farm half merged or holding NaN.
+ */
+export function isValidDelta(delta: any): delta is FarmDelta {
+  const { economy, storehouse, upgrades, market, marketSales } = delta ?? {};
+  return typeof delta?.owner === 'string' &&
+    Array.isArray(delta.pawns) &&
+    Array.isArray(delta.plots) &&
+    delta.plots.every((change: any) =>
+      [change?.x, change?.y, change?.baseRevision].every(Number.isFinite) &&
+      typeof change.plot === 'object' && change.plot !== null) &&
+    isCounts(storehouse) &&
+    Number.isFinite(delta.storehouseCapacity) &&
+    [economy?.seeds, economy?.totalEarned, economy?.totalSpent].every(Number.isFinite) &&
+    isCounts(upgrades) &&
+    typeof market?.day === 'string' && isRecord(market.items) &&
+    Object.values(market.items).every((item: any) => [item?.drift, item?.sold].every(Number.isFinite) &&
+      Array.isArray(item.history) && item.history.every(Number.isFinite)) &&
+    isCounts(marketSales);
+}
+
+/**
+ * Merge a member's delta into the shared farm in place. A plot changed by
+ * someone else since the member's base revision is resolved by
+ * resolvePlotConflict; withdrawals of items or seeds someone else already
+ * spent are cut to what is left, and levels bought past an upgrade's last
+ * to its last. Returns the number of conflicts.
+ */
+export function applyDelta(farm: SharedFarm, delta: FarmDelta): number {
+  let conflicts = 0;
+
+  farm.pawns = farm.pawns.filter(p => p.owner !== delta.owner).concat(clone(delta.pawns));
+
+  for (const change of delta.plots) {
+    const key = plotKey(change.x, change.y);
+    const index = farm.plots.findIndex(p => p.x === change.x && p.y === change.y);
+    const revision = farm.plotRevisions[key] ?? 0;
+    let next = change.plot;
+    if (index >= 0 && change.baseRevision !== revision) {
+      conflicts++;
+      next = resolvePlotConflict(farm.plots[index], change.plot);
+      // Nothing to bump when the farm's plot won as it is
+      if (JSON.stringify(next) === JSON.stringify(farm.plots[index])) continue;
+    }
+    if (index >= 0) {
+      farm.plots[index] = clone(next);
+    } else {
+      farm.plots.push(clone(next));
+    }
+    farm.plotRevisions[key] = revision + 1;
+  }
+
+  farm.storehouseCapacity = Math.max(farm.storehouseCapacity, delta.storehouseCapacity);
+  for (const [itemId, change] of Object.entries(delta.storehouse)) {
+    const result = change > 0
+      ? InventoryManager.addItem(farm.storehouse, itemId, change, farm.storehouseCapacity)
+      : InventoryManager.removeItem(farm.storehouse, itemId, -change);
+    if (result.overflow > 0) conflicts++;
+  }
+
+  const seeds = farm.economy.seeds + delta.economy.seeds;
+  if (seeds < 0) conflicts++;
+  farm.economy.seeds = Math.max(0, seeds);
+  farm.economy.totalEarned += delta.economy.totalEarned;
+  farm.economy.totalSpent += delta.economy.totalSpent;
+
+  for (const [id, change] of Object.entries(delta.upgrades) as [UpgradeId, number][]) {
+    const level = (farm.upgrades[id] ?? 0) + change;
+    const clamped = Math.min(Math.max(level, 0), UPGRADE_CATALOG[id]?.costs.length ?? 0);
+    if (clamped !== level) conflicts++;
+    farm.upgrades[id] = clamped;
+  }
+
+  if (delta.market.day > farm.market.day) {
+    farm.market = clone(delta.market);
+  } else if (delta.market.day === farm.market.day) {
+    for (const [itemId, sold] of Object.entries(delta.marketSales)) {
+      const item = farm.market.items[itemId] ?? delta.market.items[itemId];
+      if (!item) continue;
+      farm.market.items[itemId] = { ...item, sold: (farm.market.items[itemId]?.sold ?? 0) + sold };
+    }
+  }
+
+  farm.revision++;
+  return conflicts;
+}
+
+/**
+ * Two members changed the same plot. When both still grow the same crop
+ * the one further along wins, since each grew it with their own tasks;
+ * pests and weeds stay cleared if either member cleared them. Anything
+ * else keeps the change that reached the server first.
+ */
+export function resolvePlotConflict(current: PlotState, incoming: PlotState): PlotState {
+  const weeds = current.weeds && incoming.weeds ? true : undefined;
+
+  if (current.crop && incoming.crop && current.crop.type === incoming.crop.type) {
+    const ahead = progress(incoming) > progress(current) ? incoming : current;
+    return {
+      ...ahead,
+      weeds,
+      crop: { ...ahead.crop!, pest: current.crop.pest && incoming.crop.pest ? true : undefined },
+    };
+  }
+  if (!current.crop && !incoming.crop && current.type === incoming.type && current.weeds !== weeds) {
+    return { ...current, weeds };
+  }
+  return current;
+}
+
+/**
+ * Copy a shared farm into a member's state in place, keeping their own
+ * pawns and replacing teammates' with the farm's.
+ */
+export function applySharedFarm(state: FarmState, farm: SharedFarm, owner: string) {
+  state.farm.plots.splice(0, state.farm.plots.length, ...clone(farm.plots));
+  // A teammate may have bought more land
+  state.farm.gridSize = Math.max(state.farm.gridSize, ...farm.plots.map(p => Math.max(p.x, p.y) + 1));
+  state.storehouse.inventory.splice(0, state.storehouse.inventory.length, ...clone(farm.storehouse));
+  state.storehouse.capacity = Math.max(state.storehouse.capacity, farm.storehouseCapacity);
+  Object.assign(state.economy, farm.economy);
+  state.upgrades = clone(farm.upgrades);
+  // The member's Market holds on to this object, so update it in place
+  Object.assign(state.market, clone(farm.market));
+
+  const teammates = clone(farm.pawns.filter(p => p.owner !== owner));
+  const own = state.pawns.filter(p => !p.owner);
+  state.pawns.splice(0, state.pawns.length, ...own, ...teammates);
+}
+
+// ── internals ───────────────────────────────────────────────
+
+function ownPawns(state: FarmState, owner: string): PawnState[] {
+  return state.pawns.filter(p => !p.owner).map(p => ({ ...clone(p), owner }));
+}
+
+function progress(plot: PlotState): number {
+  const crop = plot.crop!;
+  return crop.stage * 1000 - crop.tasksUntilNextStage;
+}
+
+function itemCounts(inventory: ItemStack[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const stack of inventory) {
+    counts.set(stack.itemId, (counts.get(stack.itemId) ?? 0) + stack.quantity);
+  }
+  return counts;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isCounts(value: unknown): value is Record<string, number> {
+  return isRecord(value) && Object.values(value).every(Number.isFinite);
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,98 @@
+// Typed fixtures shared by the extension's specs
+
+import {
+  CropState, FarmState, PawnState, PlotState, ProjectStats, SessionLogEntry, TaskRecord,
+} from './types';
+
+/**
+ * A new farm as PersistenceManager creates one: 8x8 with 12 tilled plots,
+ * the four starting buildings and an empty storehouse.
+ */
+export function farmState(): FarmState {
+  const plots: PlotState[] = [];
+  for (let x = 0; x < 8; x++) {
+    for (let y = 0; y < 8; y++) {
+      plots.push(plot(x, y, { type: x >= 2 && x <= 5 && y >= 3 && y <= 5 ? 'tilled' : 'empty' }));
+    }
+  }
+
+  return {
+    version: 7,
+    farm: {
+      gridSize: 8,
+      plots,
+      buildings: [
+        { type: 'house', position: { x: 0, y: 0 } },
+        { type: 'barn', position: { x: 7, y: 0 } },
+        { type: 'well', position: { x: 3, y: 1 } },
+        { type: 'storehouse', position: { x: 6, y: 1 } },
+      ],
+    },
+    pawns: [],
+    player: { position: { x: 4, y: 4 }, avatar: { skinTone: 0, hairStyle: 0, hairColor: 0, outfit: 0 } },
+    economy: { seeds: 25, totalEarned: 0, totalSpent: 0 },
+    stats: {
+      totalTasksCompleted: 0,
+      taskHistory: [],
+      lifetimeEfficiency: 0,
+      currentSeason: 'spring',
+      seasonStartDate: new Date().toISOString(),
+      daysSinceStart: 0,
+      projects: {},
+      economyByDay: {},
+      seasonYields: [],
+      successStreak: 0,
+      bestStreak: 0,
+    },
+    settings: { seasonLengthDays: 7, soundEnabled: false, notificationsEnabled: true },
+    storehouse: { inventory: [], capacity: 256 },
+    market: { day: '', items: {} },
+    upgrades: {},
+  };
+}
+
+export function plot(x: number, y: number, extra: Partial<PlotState> = {}): PlotState {
+  return { x, y, type: 'tilled', soilHealth: 80, ...extra };
+}
+
+export function crop(stage: number, tasksUntilNextStage = 2, extra: Partial<CropState> = {}): CropState {
+  return { type: 'carrot', stage, maxStages: 4, quality: 'B', isGolden: false, tasksUntilNextStage, ...extra };
+}
+
+export function pawn(id: string, extra: Partial<PawnState> = {}): PawnState {
+  return {
+    id,
+    name: id,
+    factionColor: 'blue',
+    mood: 'neutral',
+    moodScore: 50,
+    skin: 'default',
+    accessories: [],
+    trailEffect: 'none',
+    totalTasks: 0,
+    lifetimeEfficiency: 0,
+    state: 'idle',
+    position: { x: 0, y: 0 },
+    inventory: [],
+    ...extra,
+  };
+}
+
+export function taskRecord(timestamp: number, extra: Partial<TaskRecord> = {}): TaskRecord {
+  return { timestamp, duration: 60_000, grade: 'B', actionsEarned: 1, ...extra };
+}
+
+export function sessionLogEntry(timestamp: number, extra: Partial<SessionLogEntry> = {}): SessionLogEntry {
+  return {
+    ...taskRecord(timestamp),
+    processName: 'claude',
+    startTime: timestamp - 60_000,
+    success: true,
+    cropsAdvanced: 1,
+    ...extra,
+  };
+}
+
+export function projectStats(name: string, extra: Partial<ProjectStats> = {}): ProjectStats {
+  return { name, tasksCompleted: 0, actionsEarned: 0, gradeCounts: { S: 0, A: 0, B: 0, C: 0 }, lastTaskAt: 0, ...extra };
+}
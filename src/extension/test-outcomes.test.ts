@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { classifyTask, isTestCommand, outcomeVerdict, parseTestCounts, recordRun } from './test-outcomes';
+
+describe('isTestCommand', () => {
+  it('recognises test runners across ecosystems', () => {
+    for (const command of [
+      'npm test',
+      'pnpm run test -- --watch=false',
+      'yarn test',
+      'npx vitest run src',
+      'jest --ci',
+      'python -m pytest tests/',
+      'pytest -k slow',
+      'cargo test --workspace',
+      'cargo nextest run',
+      'go test ./...',
+      './gradlew test',
+      'pnpm exec vitest run',
+      'yarn jest --ci',
+      'npm run build && npm test',
+      'CI=1 npx jest',
+    ]) {
+      expect(isTestCommand(command), command).toBe(true);
+    }
+  });
+
+  it('ignores commands that only mention tests', () => {
+    for (const command of [
+      'npm install',
+      'git commit -m "add tests"',
+      'cat latest.txt',
+      'npm run build',
+      'git commit -m "bump jest"',
+      'cat vitest.config.ts',
+      'npm i -D mocha',
+      'grep -r pytest .',
+    ]) {
+      expect(isTestCommand(command), command).toBe(false);
+    }
+  });
+});
+
+describe('classifyTask', () => {
+  it('trusts the task group first', () => {
+    expect(classifyTask('test', 'compile')).toBe('test');
+    expect(classifyTask('build', 'unit tests')).toBe('build');
+  });
+
+  it('falls back to the task name', () => {
+    expect(classifyTask(undefined, 'npm: test')).toBe('test');
+    expect(classifyTask(undefined, 'tsc: build - tsconfig.json')).toBe('build');
+    expect(classifyTask(undefined, 'lint')).toBeUndefined();
+  });
+});
+
+describe('parseTestCounts', () => {
+  it('reads jest and vitest summaries', () => {
+    expect(parseTestCounts('Tests:       2 failed, 10 passed, 12 total')).toEqual({ passed: 10, failed: 2 });
+    expect(parseTestCounts(' Test Files  3 passed (3)\n      Tests  41 passed (41)')).toEqual({ passed: 41, failed: 0 });
+  });
+
+  it('reads mocha and pytest summaries', () => {
+    expect(parseTestCounts('  10 passing (32ms)\n  1 failing')).toEqual({ passed: 10, failed: 1 });
+    expect(parseTestCounts('===== 1 failed, 9 passed in 0.42s =====')).toEqual({ passed: 9, failed: 1 });
+  });
+
+  it('sums the summary of every cargo test binary', () => {
+    const output = [
+      'test result: ok. 4 passed; 0 failed; 0 ignored',
+      'test result: FAILED. 6 passed; 2 failed; 0 ignored',
+    ].join('\n');
+    expect(parseTestCounts(output)).toEqual({ passed: 10, failed: 2 });
+  });
+
+  it('keeps the last summary when a runner prints several', () => {
+    expect(parseTestCounts('3 passed\n...\n5 passed, 1 failed')).toEqual({ passed: 5, failed: 1 });
+  });
+
+  it('returns nothing for output without counts', () => {
+    expect(parseTestCounts('Compiling token-acres v0.1.0')).toEqual({});
+  });
+});
+
+describe('recordRun and outcomeVerdict', () => {
+  it('tallies runs and remembers the last result', () => {
+    let outcome = recordRun(undefined, 'test', false, { passed: 8, failed: 2 });
+    outcome = recordRun(outcome, 'test', true, { passed: 10, failed: 0 });
+    expect(outcome.test).toEqual({ runs: 2, failedRuns: 1, lastPassed: true, passedCount: 10, failedCount: 0 });
+    expect(outcomeVerdict(outcome)).toBe('green');
+  });
+
+  it('is red when the last build failed, even after green tests', () => {
+    const outcome = recordRun(recordRun(undefined, 'test', true), 'build', false);
+    expect(outcomeVerdict(outcome)).toBe('red');
+  });
+
+  it('has no verdict without a test run', () => {
+    expect(outcomeVerdict(undefined)).toBeUndefined();
+    expect(outcomeVerdict(recordRun(undefined, 'build', true))).toBeUndefined();
+  });
+});
@@ -0,0 +1,101 @@
+import { RunKind, RunTally, TaskOutcome } from './types';
+
+// Terminal commands that run a test suite, matched at the start of each command
+const TEST_COMMAND_PATTERNS: RegExp[] = [
+  /^(npm|pnpm|yarn|bun)\s+(run\s+)?test\b/,
+  /^((npx|bunx|pnpm\s+exec|pnpm|yarn)\s+)?(vitest|jest|mocha|ava)\b/,
+  /^(python3?\s+-m\s+)?pytest\b/,
+  /^cargo\s+(test|nextest)\b/,
+  /^go\s+test\b/,
+  /^(dotnet|mvn|gradle|\.\/gradlew)\s+test\b/,
+];
+
+// Commands chained on one line, and VAR=value assignments before a command
+const COMMAND_SEPARATOR = /&&|\|\||[;|]/;
+const ENV_ASSIGNMENTS = /^(\w+=\S*\s+)*/;
+
+// Test runners print e.g. "Tests: 2 failed, 10 passed", "10 passing",
+// "test result: ok. 10 passed; 0 failed" or "== 1 failed, 9 passed in 0.4s =="
+const PASSED_PATTERN = /(\d+)\s+(?:passed|passing)\b/gi;
+const FAILED_PATTERN = /(\d+)\s+(?:failed|failing)\b/gi;
+const CARGO_SUMMARY_PATTERN = /test result: \w+\. (\d+) passed; (\d+) failed/g;
+
+/**
+ * Whether a terminal command line runs a test suite. Only the program a
+ * command runs counts, so `git commit -m "bump jest"` is not a test run.
+ */
+export function isTestCommand(command: string): boolean {
+  return command.split(COMMAND_SEPARATOR).some(part => {
+    const program = part.trim().replace(ENV_ASSIGNMENTS, '');
+    return TEST_COMMAND_PATTERNS.some(pattern => pattern.test(program));
+  });
+}
+
+/**
+ * Classify a vscode.tasks task as a test or build run from its group,
+ * falling back to its name and command for tasks without a group.
+ */
+export function classifyTask(group: string | undefined, name: string): RunKind | undefined {
+  if (group === 'test') return 'test';
+  if (group === 'build') return 'build';
+  if (isTestCommand(name) || /\btest/i.test(name)) return 'test';
+  if (/\b(build|compile)\b/i.test(name)) return 'build';
+  return undefined;
+}
+
+/**
+ * Extract passed/failed test case counts from test runner output.
+ * Cargo prints one summary per test binary, so those are summed; other
+ * runners print a final summary, so the last match wins.
+ */
+export function parseTestCounts(output: string): { passed?: number; failed?: number } {
+  const cargo = Array.from(output.matchAll(CARGO_SUMMARY_PATTERN));
+  if (cargo.length > 0) {
+    return {
+      passed: cargo.reduce((sum, m) => sum + parseInt(m[1], 10), 0),
+      failed: cargo.reduce((sum, m) => sum + parseInt(m[2], 10), 0),
+    };
+  }
+
+  const last = (pattern: RegExp): number | undefined => {
+    const matches = Array.from(output.matchAll(pattern));
+    return matches.length > 0 ? parseInt(matches[matches.length - 1][1], 10) : undefined;
+  };
+  const failed = last(FAILED_PATTERN);
+  const passed = last(PASSED_PATTERN);
+  if (passed === undefined && failed === undefined) return {};
+  return { passed: passed ?? 0, failed: failed ?? 0 };
+}
+
+/**
+ * Add one finished run to a task outcome, returning the updated outcome.
+ */
+export function recordRun(
+  outcome: TaskOutcome | undefined,
+  kind: RunKind,
+  passed: boolean,
+  counts: { passed?: number; failed?: number } = {}
+): TaskOutcome {
+  const next: TaskOutcome = { ...outcome };
+  const tally: RunTally = next[kind] ?? { runs: 0, failedRuns: 0, lastPassed: passed };
+
+  next[kind] = {
+    runs: tally.runs + 1,
+    failedRuns: tally.failedRuns + (passed ? 0 : 1),
+    lastPassed: passed,
+    passedCount: counts.passed ?? tally.passedCount,
+    failedCount: counts.failed ?? tally.failedCount,
+  };
+  return next;
+}
+
+/**
+ * Overall verdict for a task: red when its last test or build run failed,
+ * green when its last test run passed, undefined when nothing was run.
+ */
+export function outcomeVerdict(outcome: TaskOutcome | undefined): 'green' | 'red' | undefined {
+  if (!outcome) return undefined;
+  if (outcome.test?.lastPassed === false || outcome.build?.lastPassed === false) return 'red';
+  if (outcome.test?.lastPassed) return 'green';
+  return undefined;
+}
@@ -4,12 +4,79 @@ export type Grade = 'S' | 'A' | 'B' | 'C';
 export type Season = 'spring' | 'summer' | 'fall' | 'winter';
 export type Mood = 'ecstatic' | 'happy' | 'neutral' | 'tired' | 'exhausted';
 export type MapId = 'farm' | 'town';
+export type ScoringMode = 'auto' | 'density' | 'tokens';
+
+export type Weather = 'clear' | 'cloudy' | 'rain' | 'storm' | 'drought';
+export type BudgetPeriod = 'daily' | 'weekly';
+export type BudgetUnit = 'tokens' | 'usd';
+
+export interface BudgetOptions {
+  period: BudgetPeriod | 'off';
+  unit: BudgetUnit;
+  limit: number;
+}
+
+// Agent spend in the current budget period, and the weather it brings
+export interface BudgetStatus {
+  period: BudgetPeriod;
+  unit: BudgetUnit;
+  limit: number;
+  spent: number;
+  weather: Weather;
+}
+
+export interface ScoringOptions {
+  mode: ScoringMode;
+  minSamples: number;     // comparable tasks needed before leaving the default B
+  byModel: boolean;       // keep separate baselines per model within an agent
+}
 export type CropType = 'turnip' | 'potato' | 'strawberry' | 'clover' 
                      | 'tomato' | 'corn' | 'melon' | 'starfruit'
                      | 'pumpkin' | 'grape' | 'yam' | 'sunflower'
                      | 'carrot' | 'parsnip' | 'pepper' | 'appletree' | 'lemontree';
 
 // Inventory types
+// Tools the player works the farm with; each is a 'tool' item in the item registry
+export type ToolId = 'hoe' | 'watering_can' | 'axe' | 'scythe';
+
+export type UpgradeId = 'land' | 'extra-plots' | 'storehouse' | 'pawn-pack' | 'sprinklers' | 'hoe' | 'boots';
+
+// An upgrade as listed in the shop
+export interface UpgradeListing {
+  id: UpgradeId;
+  name: string;           // of the next level, or the last one once maxed
+  description: string;
+  level: number;
+  maxLevel: number;
+  cost?: number;          // seeds for the next level; unset once maxed
+  locked?: string;        // why the next level can't be bought yet
+}
+
+// Market prices, updated once a day
+export interface MarketState {
+  day: string;            // local date prices were last updated, YYYY-MM-DD
+  items: Record<string, MarketItemState>;  // keyed by item id
+}
+
+export interface MarketItemState {
+  drift: number;          // daily random walk around 1
+  sold: number;           // recent sales pushing the price down; halves daily
+  history: number[];      // closing prices of past days, oldest first
+}
+
+// An item the market buys, as listed in the shop
+export interface MarketListing {
+  itemId: string;
+  name: string;
+  category: 'seed' | 'crop' | 'animal_product' | 'processed' | 'tool' | 'material';
+  sellValue: number;      // today's price in seeds per item
+  baseValue: number;      // price before drift, supply and season
+  quality: 'regular' | 'golden';
+  owned: number;          // quantity in the storehouse
+  history: number[];      // recent daily prices, oldest first, ending with today's
+  outOfSeason?: boolean;  // a crop selling at its out-of-season premium; unset for non-crops
+}
+
 export interface ItemStack {
   itemId: string;        // e.g. 'turnip_seed', 'turnip', 'strawberry', 'milk'
   quantity: number;      // how many in this stack
@@ -37,6 +104,11 @@ export interface FarmState {
     currentSeason: Season;
     seasonStartDate: string;
     daysSinceStart: number;
+    projects: Record<string, ProjectStats>;  // keyed by repository path
+    economyByDay: Record<string, DailyEconomy>;  // keyed by local date, YYYY-MM-DD
+    seasonYields: SeasonYield[];             // oldest first
+    successStreak: number;                   // consecutive successful agent tasks
+    bestStreak: number;
   };
   settings: {
     seasonLengthDays: number;
@@ -47,6 +119,34 @@ export interface FarmState {
     inventory: ItemStack[];  // max 256 stacks
     capacity: number;        // 256
   };
+  budget?: BudgetStatus;     // unset while no budget is configured
+  market: MarketState;
+  upgrades: Partial<Record<UpgradeId, number>>;  // level bought of each upgrade
+}
+
+export interface ProjectStats {
+  name: string;
+  tasksCompleted: number;
+  actionsEarned: number;
+  gradeCounts: Record<Grade, number>;
+  lastTaskAt: number;
+}
+
+export interface DailyEconomy {
+  earned: number;
+  spent: number;
+  tokens?: number;        // agent spend, for the budget
+  costUsd?: number;
+  harvests?: Partial<Record<CropType, number>>;  // items harvested per crop
+}
+
+// Harvest totals for one in-game season
+export interface SeasonYield {
+  season: Season;
+  startDate: string;      // ISO timestamp the season began
+  harvests: Partial<Record<CropType, number>>;  // items harvested per crop
+  goldenHarvests: number;
+  seedsEarned: number;    // market value of the items harvested
 }
 
 export interface PlotState {
@@ -55,6 +155,8 @@ export interface PlotState {
   type: 'empty' | 'tilled' | 'planted' | 'path' | 'building' | 'water';
   crop?: CropState;
   soilHealth: number;
+  weeds?: boolean;        // blocks planting until a pawn clears it
+  wateredOn?: string;     // local date the player last watered it, YYYY-MM-DD
 }
 
 export interface CropState {
@@ -64,6 +166,7 @@ export interface CropState {
   quality: Grade;
   isGolden: boolean;
   tasksUntilNextStage: number;
+  pest?: boolean;         // stops growth until a pawn clears it
 }
 
 export interface PawnState {
@@ -81,7 +184,19 @@ export interface PawnState {
   position: { x: number; y: number };
   assignedPlot?: { x: number; y: number };
   agentSessionId?: string;
+  session?: PawnSessionInfo; // the agent session behind agentSessionId
+  waitingSince?: number;   // agent is idle at its prompt, waiting for the user
   inventory: ItemStack[];  // max 5 stacks
+  owner?: string;          // teammate whose agents drive this pawn on a shared farm; unset for your own
+}
+
+// What a working pawn shows about the agent it represents
+export interface PawnSessionInfo {
+  label: string;          // terminal name, or process name for agents outside VS Code
+  terminalName?: string;
+  pid?: number;
+  startTime: number;
+  outputRate: number;     // bytes of output per second, sampled every few seconds
 }
 
 export interface PlayerState {
@@ -102,21 +217,99 @@ export interface Building {
 export interface TaskRecord {
   timestamp: number;
   agentId?: string;
+  agentType?: string;     // normalized agent name, e.g. 'claude'
+  model?: string;
+  baseline?: string;      // which grading baseline produced the grade
+  project?: string;
   duration: number;
   outputLength?: number;
+  outputLines?: number;
+  outputSource?: OutputSource;
+  tokens?: TokenUsage;
+  costUsd?: number;
+  toolCalls?: number;
+  turns?: number;
   linesChanged?: number;
   filesChanged?: number;
+  outcome?: TaskOutcome;
+  failed?: boolean;       // agent exited non-zero or reported failure; graded C without scoring
   grade: Grade;
   actionsEarned: number;
 }
 
+// One line of the session log (~/.token-acres/sessions.jsonl): a scored
+// task plus what it did on the farm. `timestamp` is when the task ended.
+export interface SessionLogEntry extends TaskRecord {
+  processName: string;
+  startTime: number;
+  success: boolean;
+  cropsAdvanced: number;  // planted crops that grew at least one stage
+  pawnId?: string;
+  pawnName?: string;
+}
+
 export interface TaskResult {
+  agentType?: string;
+  model?: string;
+  project?: string;
   duration: number;
   exitCode?: number;
   outputLength: number;
+  outputLines?: number;
+  outputSource?: OutputSource;
   success: boolean;
   manual?: boolean;
   complexity?: 'small' | 'medium' | 'large';
+  tokens?: TokenUsage;
+  costUsd?: number;
+  toolCalls?: number;
+  turns?: number;         // prompt turns counted from the agent's output
+  filesTouched?: string[];
+  linesChanged?: number;  // measured from git, including commits made during the task
+  filesChanged?: number;
+  outcome?: TaskOutcome;
+  continuing?: boolean;   // a prompt turn inside a session that keeps running
+}
+
+export type RunKind = 'test' | 'build';
+
+// Test and build runs observed while a task was in progress
+export interface TaskOutcome {
+  test?: RunTally;
+  build?: RunTally;
+}
+
+export interface RunTally {
+  runs: number;
+  failedRuns: number;
+  lastPassed: boolean;
+  passedCount?: number;   // test cases in the last run that reported counts
+  failedCount?: number;
+}
+
+export interface TokenUsage {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+// Event posted by an agent hook into the ingestion directory
+export interface AgentHookEvent {
+  type: 'task-start' | 'task-end';
+  agent: string;          // agent name, matched against session process names
+  sessionId?: string;     // the agent's own session id, correlates start/end
+  model?: string;         // e.g. 'claude-sonnet-4', selects a per-model grading baseline
+  cwd?: string;           // directory the agent runs in, scopes the event to a workspace
+  timestamp: number;
+  exitCode?: number;
+  success?: boolean;
+  durationMs?: number;
+  outputLength?: number;
+  tokens?: TokenUsage;
+  costUsd?: number;
+  toolCalls?: number;
+  filesTouched?: string[];
 }
 
 export interface CropConfig {
@@ -132,11 +325,70 @@ export interface CropConfig {
   attractsBees?: boolean;
 }
 
+// How a session's output size was obtained: measured from the shell
+// integration read stream, reported by an agent hook, estimated from
+// duration, or a manual completion
+export type OutputSource = 'stream' | 'hook' | 'heuristic' | 'manual';
+
 export interface AgentSession {
   id: string;
   processName: string;
   startTime: number;
-  outputLength: number;
+  outputLength: number;   // bytes of terminal output (ANSI stripped)
+  outputLines: number;
+  outputSource: OutputSource;
+  pid?: number;           // shell pid for terminal sessions, agent pid for scanned ones
+  cwd?: string;           // working directory of the agent
+  project?: string;       // repository or folder the session's tasks are recorded under
+  terminalName?: string;
+  hookTurns: number;      // prompt turns already reported by agent hooks
+  outcome?: TaskOutcome;  // test/build runs since the last reported task
+  lastActivityAt: number; // last output chunk or hook turn start
+  idleSince?: number;     // set while the agent is waiting for input
+  outputStats?: AgentOutputStats; // parsed from the output stream by the agent's adapter
+}
+
+// An agent session as AgentTracker and AgentSource report it
+export interface TrackedAgent {
+  id: string;
+  processName: string;
+  startTime?: number;
+  terminalName?: string;
+  pid?: number;
+}
+
+// A finished task, carrying the session it belongs to
+export interface AgentTaskResult extends TaskResult {
+  id: string;
+  processName: string;
+}
+
+export interface AgentIdleEvent extends TrackedAgent {
+  reason: 'quiet' | 'prompt' | 'turn-ended';
+  since: number;          // when the agent stopped working
+}
+
+export interface AgentResumedEvent extends TrackedAgent {
+  idleMs: number;
+}
+
+// A test or build command that finished, and the sessions it was credited to
+export interface RunFinishedEvent {
+  kind: RunKind;
+  command: string;
+  passed: boolean;
+  passedCount?: number;
+  failedCount?: number;
+  sessionIds: string[];
+}
+
+// Stats an AgentAdapter accumulates from an agent's terminal output
+export interface AgentOutputStats {
+  turns: number;
+  tokens?: TokenUsage;
+  costUsd?: number;
+  model?: string;
+  failed?: boolean;       // the agent printed something its adapter treats as failure
 }
 
 export interface FarmEvent {
@@ -145,6 +397,17 @@ export interface FarmEvent {
   timestamp: number;
 }
 
+export type GitEventKind = 'commit' | 'agent-commit' | 'tests-passing-commit' | 'merge' | 'revert';
+
+// A classified git change, produced by GitEventClassifier
+export interface GitEvent {
+  kind: GitEventKind;
+  commit: string;
+  summary: string;        // first line of the commit message
+  repository?: string;
+  timestamp: number;
+}
+
 export interface InspectInfo {
   type: 'crop' | 'pawn' | 'plot';
   position: { x: number; y: number };
@@ -161,20 +424,27 @@ export type HostToWebview =
   | { type: 'event'; data: FarmEvent }
   | { type: 'inspect-result'; data: InspectInfo }
   | { type: 'storehouse-update'; data: { inventory: ItemStack[] } }
-  | { type: 'pawn-inventory-update'; data: { pawnId: string; inventory: ItemStack[] } };
+  | { type: 'pawn-inventory-update'; data: { pawnId: string; inventory: ItemStack[] } }
+  | { type: 'pawn-sessions-update'; data: { sessions: Record<string, PawnSessionInfo> } }
+  | { type: 'market-listings'; data: { listings: MarketListing[] } }
+  | { type: 'upgrade-listings'; data: { listings: UpgradeListing[] } };
 
 export type WebviewToHost =
   | { type: 'ready'; mapId?: MapId }
   | { type: 'player-move'; position: { x: number; y: number } }
   | { type: 'inspect'; target: { type: 'crop' | 'pawn' | 'plot'; x: number; y: number } }
   | { type: 'plant'; plot: { x: number; y: number }; cropType: CropType }
-  | { type: 'sell'; cropType: CropType; quantity: number }
-  | { type: 'buy-upgrade'; upgradeType: string }
+  | { type: 'market-open' }
+  | { type: 'sell'; itemId: string; quantity: number }
+  | { type: 'buy-upgrade'; upgradeType: UpgradeId }
+  | { type: 'tool-use'; tool: ToolId; plot: { x: number; y: number } }
   | { type: 'rename-pawn'; pawnId: string; name: string }
   | { type: 'map-change'; mapId: MapId }
   | { type: 'pawn-withdraw-seeds'; data: { pawnId: string; maxSeeds: number } }
   | { type: 'pawn-deposit-all'; data: { pawnId: string } }
-  | { type: 'pawn-plant-seed'; data: { pawnId: string; position: { x: number; y: number }; seedItemId?: string } };
+  | { type: 'pawn-plant-seed'; data: { pawnId: string; position: { x: number; y: number }; seedItemId?: string } }
+  | { type: 'pawn-clear-plot'; data: { pawnId: string; position: { x: number; y: number } } }
+  | { type: 'focus-agent'; pawnId: string };
 
 export const CROP_DATA: Record<CropType, CropConfig> = {
   turnip:     { seasons: ['spring', 'fall'], stages: 4, tasksPerStage: 1, baseSellValue: 5 },
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BASE_PAWN_SLOTS, UPGRADE_CATALOG, fieldAllowance, getUpgradeListings, harvestSoilLoss, missingRequirement,
+  pawnInventorySlots, upgradeLevel,
+} from './upgrades';
+
+describe('upgrade levels', () => {
+  it('treats upgrades never bought as level 0', () => {
+    expect(upgradeLevel(undefined, 'hoe')).toBe(0);
+    expect(upgradeLevel({ hoe: 2 }, 'boots')).toBe(0);
+    expect(upgradeLevel({ hoe: 2 }, 'hoe')).toBe(2);
+  });
+
+  it('applies levels to pawn slots, soil wear and fields', () => {
+    expect(pawnInventorySlots({})).toBe(BASE_PAWN_SLOTS);
+    expect(pawnInventorySlots({ 'pawn-pack': 3 })).toBe(BASE_PAWN_SLOTS + 3);
+    expect(harvestSoilLoss({ hoe: 3 })).toBeLessThan(harvestSoilLoss({}));
+    expect(fieldAllowance({ 'extra-plots': 2 }) - fieldAllowance({})).toBe(8);
+  });
+});
+
+describe('missingRequirement', () => {
+  it('names the upgrade still needed', () => {
+    expect(missingRequirement({}, 'pawn-pack')).toBe('Needs Storehouse Shelves');
+    expect(missingRequirement({}, 'sprinklers')).toBe('Needs Extra Plots');
+  });
+
+  it('is satisfied once the required level is bought', () => {
+    expect(missingRequirement({ storehouse: 1 }, 'pawn-pack')).toBeUndefined();
+    expect(missingRequirement({}, 'hoe')).toBeUndefined();
+  });
+});
+
+describe('getUpgradeListings', () => {
+  it('lists every upgrade with the cost of its next level', () => {
+    const listings = getUpgradeListings({ hoe: 1 });
+    expect(listings.map(l => l.id)).toEqual(Object.keys(UPGRADE_CATALOG));
+
+    const hoe = listings.find(l => l.id === 'hoe')!;
+    expect(hoe).toMatchObject({ name: 'Steel Hoe', level: 1, maxLevel: 3, cost: UPGRADE_CATALOG.hoe.costs[1] });
+  });
+
+  it('stops at the max level, keeping the last name', () => {
+    const hoe = getUpgradeListings({ hoe: 3 }).find(l => l.id === 'hoe')!;
+    expect(hoe).toMatchObject({ name: 'Gold Hoe', level: 3, maxLevel: 3, cost: undefined, locked: undefined });
+
+    const sprinklers = getUpgradeListings({ sprinklers: 1 }).find(l => l.id === 'sprinklers')!;
+    expect(sprinklers.cost).toBeUndefined();
+    expect(sprinklers.locked).toBeUndefined();
+  });
+
+  it('locks upgrades whose requirements are not met', () => {
+    const pack = getUpgradeListings({}).find(l => l.id === 'pawn-pack')!;
+    expect(pack.locked).toBe('Needs Storehouse Shelves');
+  });
+
+  it('prices every level higher than the last', () => {
+    for (const definition of Object.values(UPGRADE_CATALOG)) {
+      definition.costs.slice(1).forEach((cost, i) => expect(cost, definition.id).toBeGreaterThan(definition.costs[i]));
+    }
+  });
+});
@@ -0,0 +1,136 @@
+// Upgrade catalog for Token Acres: what seeds buy besides more seeds
+
+import { UpgradeId, UpgradeListing } from './types';
+
+export interface UpgradeDefinition {
+  id: UpgradeId;
+  names: string[];         // per level; a single name is shared by every level
+  description: string;
+  costs: number[];         // seeds for each level; the count is the max level
+  requires?: Partial<Record<UpgradeId, number>>;  // levels of other upgrades needed first
+}
+
+export const LAND_STRIP_WIDTH = 2;
+export const PLOTS_PER_LEVEL = 4;
+export const STOREHOUSE_SLOTS_PER_LEVEL = 64;
+export const BASE_PAWN_SLOTS = 5;
+export const HOE_SOIL_BOOST = 10;
+
+// Tilled plots on a new farm, before Extra Plots
+const STARTING_FIELDS = 12;
+
+// Soil health a harvest takes from its plot, before hoe upgrades
+const BASE_HARVEST_SOIL_LOSS = 10;
+const HOE_SOIL_LOSS_REDUCTION = 3;
+
+// Pawn walk speed gained per level of boots
+const BOOTS_SPEED_STEP = 0.2;
+
+export const UPGRADE_CATALOG: Record<UpgradeId, UpgradeDefinition> = {
+  'land': {
+    id: 'land',
+    names: ['Land Expansion'],
+    description: `Reclaims a ${LAND_STRIP_WIDTH}-tile strip of new land along the east or south shore.`,
+    costs: [80, 160, 300, 500, 800],
+  },
+  'extra-plots': {
+    id: 'extra-plots',
+    names: ['Extra Plots'],
+    description: `Till ${PLOTS_PER_LEVEL} more plots next to your fields.`,
+    // More levels than the starting island has room for, so later ones need a Land Expansion
+    costs: [30, 60, 100, 150, 220, 300, 390, 490, 600, 720, 850, 990, 1140, 1300, 1470, 1650, 1840, 2040, 2250, 2470],
+  },
+  'storehouse': {
+    id: 'storehouse',
+    names: ['Storehouse Shelves', 'Storehouse Loft', 'Storehouse Wing'],
+    description: `Room for ${STOREHOUSE_SLOTS_PER_LEVEL} more stacks in the storehouse.`,
+    costs: [50, 120, 250],
+  },
+  'pawn-pack': {
+    id: 'pawn-pack',
+    names: ['Pawn Satchel', 'Pawn Backpack', 'Pawn Pack Mule'],
+    description: 'Each pawn carries one more stack.',
+    costs: [40, 90, 180],
+    requires: { 'storehouse': 1 },
+  },
+  'sprinklers': {
+    id: 'sprinklers',
+    names: ['Sprinklers'],
+    description: 'Crops keep growing at full speed through a budget drought.',
+    costs: [150],
+    requires: { 'extra-plots': 1 },
+  },
+  'hoe': {
+    id: 'hoe',
+    names: ['Copper Hoe', 'Steel Hoe', 'Gold Hoe'],
+    description: `Raises the soil health of your fields by ${HOE_SOIL_BOOST}, and harvests wear the soil less.`,
+    costs: [40, 100, 200],
+  },
+  'boots': {
+    id: 'boots',
+    names: ['Pawn Boots', 'Pawn Running Shoes', 'Pawn Winged Boots'],
+    description: `Pawns walk ${BOOTS_SPEED_STEP * 100}% faster.`,
+    costs: [35, 80, 160],
+  },
+};
+
+/**
+ * Level bought of an upgrade, 0 if none
+ */
+export function upgradeLevel(upgrades: Partial<Record<UpgradeId, number>> | undefined, id: UpgradeId): number {
+  return upgrades?.[id] ?? 0;
+}
+
+/**
+ * Stacks each pawn can carry
+ */
+export function pawnInventorySlots(upgrades: Partial<Record<UpgradeId, number>> | undefined): number {
+  return BASE_PAWN_SLOTS + upgradeLevel(upgrades, 'pawn-pack');
+}
+
+/**
+ * Tilled and planted plots the farm may have; the hoe tills no more
+ */
+export function fieldAllowance(upgrades: Partial<Record<UpgradeId, number>> | undefined): number {
+  return STARTING_FIELDS + PLOTS_PER_LEVEL * upgradeLevel(upgrades, 'extra-plots');
+}
+
+/**
+ * Soil health a harvest takes from its plot
+ */
+export function harvestSoilLoss(upgrades: Partial<Record<UpgradeId, number>> | undefined): number {
+  return BASE_HARVEST_SOIL_LOSS - HOE_SOIL_LOSS_REDUCTION * upgradeLevel(upgrades, 'hoe');
+}
+
+/**
+ * The first unmet requirement of an upgrade's next level, as shown in the shop
+ */
+export function missingRequirement(upgrades: Partial<Record<UpgradeId, number>> | undefined, id: UpgradeId): string | undefined {
+  const requires = UPGRADE_CATALOG[id].requires ?? {};
+  for (const [required, level] of Object.entries(requires) as [UpgradeId, number][]) {
+    if (upgradeLevel(upgrades, required) < level) {
+      return `Needs ${UPGRADE_CATALOG[required].names[Math.min(level, UPGRADE_CATALOG[required].names.length) - 1]}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Every upgrade with its level and the cost of the next one
+ */
+export function getUpgradeListings(upgrades: Partial<Record<UpgradeId, number>> | undefined): UpgradeListing[] {
+  return Object.values(UPGRADE_CATALOG).map(definition => {
+    const level = upgradeLevel(upgrades, definition.id);
+    const maxLevel = definition.costs.length;
+    const nameIndex = Math.min(level, maxLevel - 1, definition.names.length - 1);
+    return {
+      id: definition.id,
+      name: definition.names[nameIndex],
+      description: definition.description,
+      level,
+      maxLevel,
+      cost: level < maxLevel ? definition.costs[level] : undefined,
+      locked: level < maxLevel ? missingRequirement(upgrades, definition.id) : undefined,
+    };
+  });
+}
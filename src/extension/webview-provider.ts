@@ -1,8 +1,9 @@
 import * as vscode from 'vscode';
 import { FarmEngine } from './farm-engine';
+import { AgentSource } from './agent-source';
 import { FarmState, HostToWebview, WebviewToHost } from './types';
 
-function getNonce(): string {
+export function getNonce(): string {
   let text = '';
   const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
   for (let i = 0; i < 32; i++) {
@@ -16,7 +17,8 @@ export class TokenAcresWebviewProvider implements vscode.WebviewViewProvider {
 
   constructor(
     private context: vscode.ExtensionContext,
-    private farmEngine: FarmEngine
+    private farmEngine: FarmEngine,
+    private agents: AgentSource
   ) {}
 
   resolveWebviewView(
@@ -77,13 +79,39 @@ export class TokenAcresWebviewProvider implements vscode.WebviewViewProvider {
         }
         break;
         
-      case 'sell':
-        // TODO: Implement sell functionality
+      case 'market-open':
+        this.sendMessage({ type: 'market-listings', data: { listings: this.farmEngine.getMarketListings() } });
+        this.sendMessage({ type: 'upgrade-listings', data: { listings: this.farmEngine.getUpgradeListings() } });
         break;
+
+      case 'sell': {
+        const event = this.farmEngine.sellItem(message.itemId, message.quantity);
+        if (event) {
+          this.sendMessage({ type: 'event', data: event });
+          this.sendUpdate(this.farmEngine.getState());
+        }
+        this.sendMessage({ type: 'market-listings', data: { listings: this.farmEngine.getMarketListings() } });
+        break;
+      }
+        
+      case 'buy-upgrade': {
+        const event = this.farmEngine.buyUpgrade(message.upgradeType);
+        if (event) {
+          this.sendMessage({ type: 'event', data: event });
+          this.sendUpdate(this.farmEngine.getState());
+        }
+        this.sendMessage({ type: 'upgrade-listings', data: { listings: this.farmEngine.getUpgradeListings() } });
+        break;
+      }
         
-      case 'buy-upgrade':
-        // TODO: Implement upgrade system
+      case 'tool-use': {
+        const event = this.farmEngine.useTool(message.tool, message.plot.x, message.plot.y);
+        if (event) {
+          this.sendMessage({ type: 'event', data: event });
+          this.sendUpdate(this.farmEngine.getState());
+        }
         break;
+      }
         
       case 'rename-pawn':
         // TODO: Implement pawn renaming
@@ -112,6 +140,37 @@ export class TokenAcresWebviewProvider implements vscode.WebviewViewProvider {
         );
         this.sendUpdate(this.farmEngine.getState());
         break;
+
+      case 'pawn-clear-plot': {
+        const event = this.farmEngine.pawnClearPlot(
+          message.data.pawnId,
+          message.data.position.x,
+          message.data.position.y
+        );
+        if (event) {
+          this.sendMessage({ type: 'event', data: event });
+          this.sendUpdate(this.farmEngine.getState());
+        }
+        break;
+      }
+
+      case 'focus-agent':
+        this.focusAgent(message.pawnId);
+        break;
+    }
+  }
+
+  /**
+   * Bring up the terminal of the agent a pawn is working for.
+   */
+  private async focusAgent(pawnId: string) {
+    const sessionId = this.farmEngine.getPawnSessionId(pawnId);
+    if (!sessionId) return;
+
+    if (!(await this.agents.focusSession(sessionId))) {
+      const session = this.farmEngine.getState().pawns.find(p => p.id === pawnId)?.session;
+      const label = session ? `${session.label}${session.pid ? ` (pid ${session.pid})` : ''}` : 'This agent';
+      vscode.window.showInformationMessage(`Token Acres: ${label} runs outside VS Code, so there is no terminal to focus.`);
     }
   }
 
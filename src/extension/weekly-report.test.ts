@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { buildWeeklyReport } from './weekly-report';
+import { farmState, projectStats, sessionLogEntry } from './test-fixtures';
+import { FarmState, Grade, SessionLogEntry } from './types';
+
+// Wednesday; its week runs from Monday 30 March to Sunday 5 April 2026
+const WEDNESDAY = new Date(2026, 3, 1, 12).getTime();
+
+function at(month: number, day: number, hour: number, minute = 0): number {
+  return new Date(2026, month - 1, day, hour, minute).getTime();
+}
+
+function record(timestamp: number, grade: Grade, extra: Partial<SessionLogEntry> = {}): SessionLogEntry {
+  return sessionLogEntry(timestamp, { grade, actionsEarned: { S: 3, A: 2, B: 1, C: 1 }[grade], ...extra });
+}
+
+function state(extra: Partial<FarmState['stats']> = {}): FarmState {
+  const farm = farmState();
+  Object.assign(farm.stats, extra);
+  return farm;
+}
+
+describe('buildWeeklyReport', () => {
+  it('covers Monday to Sunday of the week asked for', () => {
+    const report = buildWeeklyReport([], state(), WEDNESDAY);
+    expect(report.weekStart).toBe('2026-03-30');
+    expect(report.weekEnd).toBe('2026-04-05');
+  });
+
+  it('counts only tasks inside the week, up to the last minute of Sunday', () => {
+    const records = [
+      record(at(3, 29, 23, 50), 'S'),  // Sunday before
+      record(at(3, 30, 0, 10), 'A'),
+      record(at(4, 5, 23, 30), 'C', { failed: true }),
+      record(at(4, 6, 0, 10), 'S'),    // Monday after
+    ];
+    const report = buildWeeklyReport(records, state(), WEDNESDAY);
+
+    expect(report.tasks).toBe(2);
+    expect(report.failed).toBe(1);
+    expect(report.grades).toEqual({ S: 0, A: 1, B: 0, C: 1 });
+    expect(report.actions).toBe(3);
+  });
+
+  it('trends efficiency over the last four weeks, null while idle', () => {
+    const records = [record(at(3, 11, 10), 'S'), record(at(3, 31, 10), 'C')];
+    const report = buildWeeklyReport(records, state(), WEDNESDAY);
+
+    expect(report.trend).toEqual([
+      { week: '2026-03-09', efficiency: 100 },
+      { week: '2026-03-16', efficiency: null },
+      { week: '2026-03-23', efficiency: null },
+      { week: '2026-03-30', efficiency: 0 },
+    ]);
+  });
+
+  it('ranks pawns by actions earned', () => {
+    const records = [
+      record(at(3, 31, 9), 'B', { pawnName: 'Bea' }),
+      record(at(3, 31, 10), 'S', { pawnName: 'Al' }),
+      record(at(4, 1, 9), 'B', { pawnName: 'Bea' }),
+      record(at(4, 1, 10), 'A'),
+    ];
+    const report = buildWeeklyReport(records, state(), WEDNESDAY);
+    expect(report.leaderboard.map(p => [p.name, p.actions])).toEqual([['Al', 3], ['Bea', 2]]);
+  });
+
+  it('breaks tasks down by repository, busiest first', () => {
+    const records = [
+      record(at(3, 31, 9), 'A', { project: '/work/api' }),
+      record(at(3, 31, 10), 'B', { project: '/work/web' }),
+      record(at(4, 1, 9), 'S', { project: '/work/web' }),
+    ];
+    const projects = { '/work/web': projectStats('website') };
+    const report = buildWeeklyReport(records, state({ projects }), WEDNESDAY);
+
+    expect(report.repos.map(r => [r.name, r.tasks])).toEqual([['website', 2], ['api', 1]]);
+    expect(report.repos[0].grades).toEqual({ S: 1, A: 0, B: 1, C: 0 });
+  });
+
+  it("adds up the week's economy and its best crop", () => {
+    const economyByDay = {
+      '2026-03-29': { earned: 100, spent: 100, harvests: { pumpkin: 9 } },
+      '2026-03-30': { earned: 20, spent: 5, harvests: { carrot: 3, potato: 1 } },
+      '2026-04-05': { earned: 10, spent: 0, harvests: { carrot: 2, potato: 3 } },
+    };
+    const report = buildWeeklyReport([], state({ economyByDay }), WEDNESDAY);
+
+    expect(report.earned).toBe(30);
+    expect(report.spent).toBe(5);
+    expect(report.bestCrop).toEqual({ type: 'carrot', harvested: 5 });
+  });
+});
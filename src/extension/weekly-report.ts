@@ -0,0 +1,237 @@
+import * as path from 'path';
+import { dayKey, weekStart } from './analytics';
+import { efficiencyPercent } from './efficiency-scorer';
+import { CropType, FarmState, Grade, SessionLogEntry, TaskRecord } from './types';
+
+const DAY_MS = 86_400_000;
+
+// Weeks in the efficiency trend, ending with the reported one
+const TREND_WEEKS = 4;
+
+const LEADERBOARD_SIZE = 5;
+
+export type ReportFormat = 'markdown' | 'html';
+
+export interface PawnStanding {
+  name: string;
+  tasks: number;
+  actions: number;
+  efficiency: number;
+}
+
+export interface RepoSummary {
+  name: string;
+  tasks: number;
+  grades: Record<Grade, number>;
+  actions: number;
+  efficiency: number;
+}
+
+export interface WeeklyReport {
+  weekStart: string;      // local date of the Monday, YYYY-MM-DD
+  weekEnd: string;        // the Sunday
+  tasks: number;
+  failed: number;
+  grades: Record<Grade, number>;
+  actions: number;
+  efficiency: number;
+  trend: { week: string; efficiency: number | null }[];  // oldest first; null when idle
+  leaderboard: PawnStanding[];   // most actions first
+  bestCrop?: { type: CropType; harvested: number };
+  earned: number;         // seeds
+  spent: number;
+  repos: RepoSummary[];   // busiest first
+}
+
+/**
+ * Summarise the week containing `weekOf` for sharing in team updates.
+ * Pawn standings need the session log's pawn names; the rolling task
+ * history in the save has none, so the leaderboard stays empty without it.
+ */
+export function buildWeeklyReport(records: TaskRecord[], state: FarmState, weekOf = Date.now()): WeeklyReport {
+  const start = weekStart(weekOf);
+  const days = Array.from({ length: 7 }, (_, i) => dayKey(start + i * DAY_MS + DAY_MS / 2));
+  const inWeek = records.filter(r => days.includes(dayKey(r.timestamp)));
+
+  const grades: Record<Grade, number> = { S: 0, A: 0, B: 0, C: 0 };
+  inWeek.forEach(r => grades[r.grade]++);
+
+  // Efficiency of each trend week, bucketed like the analytics dashboard
+  const firstWeek = start - (TREND_WEEKS - 1) * 7 * DAY_MS;
+  const perWeek: TaskRecord[][] = Array.from({ length: TREND_WEEKS }, () => []);
+  for (const record of records) {
+    const week = Math.floor((weekStart(record.timestamp) - firstWeek + DAY_MS / 2) / (7 * DAY_MS));
+    if (week >= 0 && week < TREND_WEEKS) perWeek[week].push(record);
+  }
+  const trend = perWeek.map((week, i) => ({
+    week: dayKey(firstWeek + i * 7 * DAY_MS + DAY_MS / 2),
+    efficiency: week.length > 0 ? efficiencyPercent(week) : null,
+  }));
+
+  const byPawn = groupBy(inWeek, r => (r as SessionLogEntry).pawnName);
+  const leaderboard = [...byPawn.entries()]
+    .map(([name, tasks]) => ({
+      name,
+      tasks: tasks.length,
+      actions: tasks.reduce((sum, r) => sum + r.actionsEarned, 0),
+      efficiency: efficiencyPercent(tasks),
+    }))
+    .sort((a, b) => b.actions - a.actions || b.tasks - a.tasks)
+    .slice(0, LEADERBOARD_SIZE);
+
+  const economy = state.stats.economyByDay;
+  const harvested: Partial<Record<CropType, number>> = {};
+  for (const day of days) {
+    for (const [type, quantity] of Object.entries(economy[day]?.harvests ?? {}) as [CropType, number][]) {
+      harvested[type] = (harvested[type] ?? 0) + quantity;
+    }
+  }
+  const best = (Object.entries(harvested) as [CropType, number][]).sort((a, b) => b[1] - a[1])[0];
+
+  const projects = state.stats.projects;
+  const repos = [...groupBy(inWeek, r => r.project).entries()]
+    .map(([project, tasks]) => {
+      const repoGrades: Record<Grade, number> = { S: 0, A: 0, B: 0, C: 0 };
+      tasks.forEach(r => repoGrades[r.grade]++);
+      return {
+        name: projects[project]?.name ?? path.basename(project),
+        tasks: tasks.length,
+        grades: repoGrades,
+        actions: tasks.reduce((sum, r) => sum + r.actionsEarned, 0),
+        efficiency: efficiencyPercent(tasks),
+      };
+    })
+    .sort((a, b) => b.tasks - a.tasks);
+
+  return {
+    weekStart: days[0],
+    weekEnd: days[6],
+    tasks: inWeek.length,
+    failed: inWeek.filter(r => r.failed).length,
+    grades,
+    actions: inWeek.reduce((sum, r) => sum + r.actionsEarned, 0),
+    efficiency: efficiencyPercent(inWeek),
+    trend,
+    leaderboard,
+    bestCrop: best ? { type: best[0], harvested: best[1] } : undefined,
+    earned: days.reduce((sum, day) => sum + (economy[day]?.earned ?? 0), 0),
+    spent: days.reduce((sum, day) => sum + (economy[day]?.spent ?? 0), 0),
+    repos,
+  };
+}
+
+/**
+ * The report as a Markdown document or a standalone HTML page.
+ */
+export function formatWeeklyReport(report: WeeklyReport, format: ReportFormat): string {
+  const title = `🌾 Token Acres — week of ${report.weekStart}`;
+  const summary = summaryLines(report);
+  const sections = reportSections(report);
+
+  if (format === 'markdown') {
+    const cell = (value: string) => value.replace(/\|/g, '\\|');
+    const parts = [`# ${title}`, summary.map(line => `- ${line}`).join('\n')];
+    for (const section of sections) {
+      parts.push(`## ${section.title}`);
+      parts.push(section.rows.length === 0 ? `_${section.empty}_` : [
+        `| ${section.headers.join(' | ')} |`,
+        `| ${section.headers.map(() => '---').join(' | ')} |`,
+        ...section.rows.map(row => `| ${row.map(cell).join(' | ')} |`),
+      ].join('\n'));
+    }
+    return parts.join('\n\n') + '\n';
+  }
+
+  const body = [`<h1>${esc(title)}</h1>`, `<ul>${summary.map(line => `<li>${esc(line)}</li>`).join('')}</ul>`];
+  for (const section of sections) {
+    body.push(`<h2>${esc(section.title)}</h2>`);
+    body.push(section.rows.length === 0 ? `<p><em>${esc(section.empty)}</em></p>` : '<table>'
+      + `<tr>${section.headers.map(h => `<th>${esc(h)}</th>`).join('')}</tr>`
+      + section.rows.map(row => `<tr>${row.map(c => `<td>${esc(c)}</td>`).join('')}</tr>`).join('')
+      + '</table>');
+  }
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${esc(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 720px; margin: 2em auto; color: #222; }
+  table { border-collapse: collapse; margin-bottom: 1em; }
+  th, td { border: 1px solid #ccc; padding: 4px 10px; text-align: left; }
+  th { background: #f3f0e6; }
+</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+// ── internals ───────────────────────────────────────────────
+
+interface ReportSection {
+  title: string;
+  headers: string[];
+  rows: string[][];
+  empty: string;          // shown instead of an empty table
+}
+
+function summaryLines(report: WeeklyReport): string[] {
+  const { S, A, B, C } = report.grades;
+  const previous = report.trend[report.trend.length - 2]?.efficiency;
+  const change = previous === null || previous === undefined || report.tasks === 0
+    ? ''
+    : ` (${report.efficiency >= previous ? '▲' : '▼'} ${Math.abs(report.efficiency - previous)} from last week)`;
+
+  return [
+    `${report.weekStart} to ${report.weekEnd}`,
+    `${report.tasks} tasks${report.failed > 0 ? `, ${report.failed} failed` : ''}: S ${S} · A ${A} · B ${B} · C ${C}`,
+    `Efficiency ${report.efficiency}%${change}`,
+    `${report.actions} farm actions earned`,
+    `🌱 ${report.earned} seeds earned, ${report.spent} spent`,
+    report.leaderboard[0] ? `🏆 Top pawn: ${report.leaderboard[0].name} (${report.leaderboard[0].actions} actions)` : '🏆 Top pawn: none',
+    report.bestCrop ? `🥕 Best crop: ${report.bestCrop.type} (${report.bestCrop.harvested} harvested)` : '🥕 Best crop: nothing harvested',
+  ];
+}
+
+function reportSections(report: WeeklyReport): ReportSection[] {
+  return [
+    {
+      title: 'Leaderboard',
+      headers: ['#', 'Pawn', 'Tasks', 'Actions', 'Efficiency'],
+      rows: report.leaderboard.map((p, i) => [String(i + 1), p.name, String(p.tasks), String(p.actions), `${p.efficiency}%`]),
+      empty: 'No pawn worked a logged task this week.',
+    },
+    {
+      title: 'Efficiency trend',
+      headers: ['Week of', 'Efficiency'],
+      rows: report.trend.map(w => [w.week, w.efficiency === null ? '—' : `${w.efficiency}%`]),
+      empty: '',
+    },
+    {
+      title: 'Repositories',
+      headers: ['Repository', 'Tasks', 'S / A / B / C', 'Actions', 'Efficiency'],
+      rows: report.repos.map(r => [
+        r.name, String(r.tasks), `${r.grades.S} / ${r.grades.A} / ${r.grades.B} / ${r.grades.C}`, String(r.actions), `${r.efficiency}%`,
+      ]),
+      empty: 'No tasks in a repository this week.',
+    },
+  ];
+}
+
+function groupBy(records: TaskRecord[], key: (record: TaskRecord) => string | undefined): Map<string, TaskRecord[]> {
+  const groups = new Map<string, TaskRecord[]>();
+  for (const record of records) {
+    const value = key(record);
+    if (!value) continue;
+    if (!groups.has(value)) groups.set(value, []);
+    groups.get(value)!.push(record);
+  }
+  return groups;
+}
+
+function esc(value: string): string {
+  return value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WorkspaceScope } from './workspace-scope';
+
+describe('WorkspaceScope', () => {
+  let root: string;
+  let workspace: string;
+  let elsewhere: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'token-acres-scope-'));
+    workspace = path.join(root, 'app');
+    elsewhere = path.join(root, 'other');
+    fs.mkdirSync(path.join(workspace, 'src'), { recursive: true });
+    fs.mkdirSync(elsewhere);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('admits', () => {
+    it("admits agents inside this window's folders, and its own terminals anywhere", () => {
+      const scope = new WorkspaceScope({ folders: () => [workspace] });
+      expect(scope.admits(path.join(workspace, 'src'), false)).toBe(true);
+      expect(scope.admits(elsewhere, false)).toBe(false);
+      expect(scope.admits(undefined, false)).toBe(false);
+      expect(scope.admits(elsewhere, true)).toBe(true);
+    });
+
+    it('does not mistake a sibling folder with the same prefix for the workspace', () => {
+      const scope = new WorkspaceScope({ folders: () => [workspace] });
+      expect(scope.admits(`${workspace}-old`, false)).toBe(false);
+    });
+
+    it('admits every agent in any mode', () => {
+      const scope = new WorkspaceScope({ mode: 'any', folders: () => [workspace] });
+      expect(scope.admits(elsewhere, false)).toBe(true);
+      expect(scope.admits(undefined, false)).toBe(true);
+    });
+
+    it('admits only allowlisted folders, terminals included', () => {
+      const scope = new WorkspaceScope({ mode: 'allowlist', allowlist: [elsewhere], folders: () => [workspace] });
+      expect(scope.admits(elsewhere, false)).toBe(true);
+      expect(scope.admits(workspace, true)).toBe(false);
+      // A session with no known cwd is taken to be in the workspace
+      expect(scope.admits(undefined, true)).toBe(false);
+    });
+  });
+
+  describe('projectFor', () => {
+    it('names the git repository containing the cwd', () => {
+      fs.mkdirSync(path.join(workspace, '.git'));
+      const scope = new WorkspaceScope({ folders: () => [root] });
+      expect(scope.projectFor(path.join(workspace, 'src'))).toBe(workspace);
+    });
+
+    it('falls back to the workspace folder, then the cwd itself', () => {
+      const scope = new WorkspaceScope({ folders: () => [workspace] });
+      expect(scope.projectFor(path.join(workspace, 'src'))).toBe(workspace);
+      expect(scope.projectFor(elsewhere)).toBe(elsewhere);
+      expect(scope.projectFor(undefined)).toBe(workspace);
+    });
+  });
+});
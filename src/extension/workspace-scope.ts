@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export type AgentScopeMode = 'workspace' | 'any' | 'allowlist';
+
+/**
+ * Configuration options for WorkspaceScope.
+ */
+interface WorkspaceScopeOptions {
+  /** Which agents belong to this window (default: 'workspace') */
+  mode?: AgentScopeMode;
+  /** Folders agents may run in when mode is 'allowlist' */
+  allowlist?: string[];
+  /** Returns this window's workspace folder paths */
+  folders: () => string[];
+}
+
+// Case-insensitive file systems by default
+const FOLD_CASE = process.platform === 'win32' || process.platform === 'darwin';
+
+/**
+ * WorkspaceScope decides whether an agent session belongs to this VS Code
+ * window, based on the session's working directory, and names the project
+ * a session's tasks are recorded under.
+ *
+ * Modes:
+ *  - `workspace` — agents inside one of this window's workspace folders
+ *  - `any`       — every agent on the machine
+ *  - `allowlist` — agents inside one of the configured folders
+ */
+export class WorkspaceScope {
+  private readonly mode: AgentScopeMode;
+  private readonly allowlist: string[];
+  private readonly folders: () => string[];
+
+  constructor(options: WorkspaceScopeOptions) {
+    this.mode = options.mode ?? 'workspace';
+    this.allowlist = (options.allowlist ?? []).map(folder => path.resolve(expandHome(folder)));
+    this.folders = options.folders;
+  }
+
+  // ── public API ──────────────────────────────────────────────
+
+  /**
+   * Whether a session running in `cwd` belongs to this window. Terminal
+   * sessions are `local`: they are always ours unless an allowlist
+   * excludes them. A remote session with an unknown cwd only counts in
+   * 'any' mode.
+   */
+  admits(cwd: string | undefined, local: boolean): boolean {
+    switch (this.mode) {
+      case 'any':
+        return true;
+      case 'allowlist':
+        return this.isInside(cwd ?? this.folders()[0], this.allowlist);
+      case 'workspace':
+      default:
+        return local || this.isInside(cwd, this.folders());
+    }
+  }
+
+  /**
+   * The project a session's tasks are recorded under: the git repository
+   * containing `cwd`, else the workspace folder containing it, else `cwd`.
+   * Sessions with no known cwd fall back to the first workspace folder.
+   */
+  projectFor(cwd: string | undefined): string | undefined {
+    if (!cwd) return this.folders()[0];
+
+    const resolved = path.resolve(cwd);
+    const gitRoot = findGitRoot(resolved);
+    if (gitRoot) return gitRoot;
+
+    return this.folders().find(folder => this.isInside(resolved, [folder])) ?? resolved;
+  }
+
+  // ── internals ───────────────────────────────────────────────
+
+  private isInside(cwd: string | undefined, folders: string[]): boolean {
+    if (!cwd) return false;
+    const target = normalize(cwd);
+    return folders.some(folder => {
+      const relative = path.relative(normalize(folder), target);
+      return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+    });
+  }
+}
+
+function normalize(p: string): string {
+  const resolved = path.resolve(p);
+  return FOLD_CASE ? resolved.toLowerCase() : resolved;
+}
+
+function expandHome(p: string): string {
+  return p.startsWith('~') ? path.join(os.homedir(), p.slice(1)) : p;
+}
+
+function findGitRoot(dir: string): string | undefined {
+  let current = dir;
+  while (true) {
+    if (fs.existsSync(path.join(current, '.git'))) return current;
+    const parent = path.dirname(current);
+    if (parent === current) return undefined;
+    current = parent;
+  }
+}
@@ -0,0 +1,38 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { LocalAgentSource } from '../extension/agent-source';
+import { AgentRelay } from '../extension/agent-relay';
+
+let source: LocalAgentSource | undefined;
+let relay: AgentRelay | undefined;
+
+/**
+ * Token Acres Remote: the workspace half of Token Acres. In a remote window
+ * it tracks agents on the remote machine and relays them to the farm, which
+ * runs on the local side. In a local window the farm tracks agents itself,
+ * so this does nothing.
+ */
+export function activate(context: vscode.ExtensionContext) {
+  if (!vscode.env.remoteName) {
+    return;
+  }
+
+  console.log(`Token Acres Remote activated on ${vscode.env.remoteName} host ${os.hostname()}`);
+  source = new LocalAgentSource();
+  relay = new AgentRelay(source, os.hostname());
+
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration('tokenacres')) {
+        source?.reloadConfiguration();
+      }
+    })
+  );
+}
+
+export function deactivate() {
+  // Sessions still running are completed on dispose, but their diffs are
+  // measured asynchronously and not waited for, so they may never reach the farm
+  source?.dispose();
+  relay?.dispose();
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SyncServer } from './sync-server';
+import { FarmDelta, SharedFarm, SyncResponse } from '../extension/sync-protocol';
+import { plot } from '../extension/test-fixtures';
+
+const TOKEN = 'team-secret';
+
+function sharedFarm(): SharedFarm {
+  return {
+    revision: 0,
+    plots: [plot(0, 0)],
+    plotRevisions: {},
+    storehouse: [],
+    storehouseCapacity: 256,
+    economy: { seeds: 20, totalEarned: 0, totalSpent: 0 },
+    upgrades: {},
+    market: { day: '', items: {} },
+    pawns: [],
+  };
+}
+
+function delta(extra: Partial<FarmDelta> = {}): FarmDelta {
+  return {
+    owner: 'ann@box',
+    pawns: [],
+    plots: [],
+    storehouse: {},
+    storehouseCapacity: 256,
+    economy: { seeds: 5, totalEarned: 5, totalSpent: 0 },
+    upgrades: {},
+    market: { day: '', items: {} },
+    marketSales: {},
+    ...extra,
+  };
+}
+
+describe('SyncServer', () => {
+  let server: SyncServer;
+  let baseUrl: string;
+
+  function request(method: string, path: string, body?: unknown, token = TOKEN): Promise<Response> {
+    return fetch(`${baseUrl}/farms/team${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  beforeEach(async () => {
+    server = new SyncServer({ port: 0, token: TOKEN, longPollMs: 2_000 });
+    baseUrl = `http://127.0.0.1:${await server.start()}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('creates a farm, merges deltas and wakes long-polls', async () => {
+    const created = await request('PUT', '', sharedFarm());
+    expect(created.status).toBe(201);
+    expect(((await created.json()) as SyncResponse).farm.revision).toBe(1);
+
+    const polled = request('GET', '?since=1');
+    const pushed = await request('POST', '/deltas', delta());
+    expect(pushed.status).toBe(200);
+    expect(((await pushed.json()) as SyncResponse).farm.economy.seeds).toBe(25);
+
+    const { farm } = (await (await polled).json()) as SyncResponse;
+    expect(farm.revision).toBe(2);
+    expect(farm.economy.seeds).toBe(25);
+  });
+
+  it('answers a second create with the existing farm', async () => {
+    await request('PUT', '', sharedFarm());
+    const again = await request('PUT', '', { ...sharedFarm(), economy: { seeds: 0, totalEarned: 0, totalSpent: 0 } });
+
+    expect(again.status).toBe(409);
+    expect(((await again.json()) as SyncResponse).farm.economy.seeds).toBe(20);
+  });
+
+  it('refuses requests without the right token', async () => {
+    expect((await request('GET', '', undefined, '')).status).toBe(401);
+    expect((await request('PUT', '', sharedFarm(), 'team-secreT')).status).toBe(401);
+    expect((await request('GET', '')).status).toBe(404);
+  });
+
+  it('rejects malformed deltas', async () => {
+    await request('PUT', '', sharedFarm());
+    const response = await request('POST', '/deltas', { ...delta(), economy: { seeds: 'lots' } });
+    expect(response.status).toBe(400);
+  });
+});
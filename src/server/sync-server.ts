@@ -0,0 +1,284 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SharedFarm, SyncResponse, applyDelta, isValidDelta } from '../extension/sync-protocol';
+
+/**
+ * Configuration options for SyncServer.
+ */
+export interface SyncServerOptions {
+  /** Port to listen on; 0 picks a free one (default: 4747) */
+  port?: number;
+  /** Interface to bind (default: 127.0.0.1) */
+  host?: string;
+  /** Directory farms are saved to as <farm id>.json (default: in memory only) */
+  dataDir?: string;
+  /** Shared secret clients send as a bearer token (default: none) */
+  token?: string;
+  /** How long a GET with `since` waits for a newer revision, in ms (default: 25s) */
+  longPollMs?: number;
+}
+
+const DEFAULT_PORT = 4747;
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const FARM_ID_PATTERN = /^[\w-]{1,64}$/;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * SyncServer holds the shared farms of Token Acres teams. Members' extensions
+ * create a farm once, push deltas as their agents work and long-poll for
+ * everyone else's. It has no dependencies beyond Node, so a team can run it
+ * on any box they share, or locally to try things out.
+ *
+ * Routes:
+ *  - `GET  /farms/:id[?since=N]` — the farm; with `since`, waits until its revision passes N
+ *  - `PUT  /farms/:id`           — create the farm from a SharedFarm; 409 with the farm if it exists
+ *  - `POST /farms/:id/deltas`    — merge a FarmDelta; responds with the farm and conflict count
+ */
+export class SyncServer {
+  private readonly options: Required<Omit<SyncServerOptions, 'dataDir' | 'token'>> & Pick<SyncServerOptions, 'dataDir' | 'token'>;
+  private server?: http.Server;
+  private farms: Map<string, SharedFarm> = new Map();
+  private waiters: Map<string, Set<() => void>> = new Map();
+  private writes: Map<string, Promise<void>> = new Map();
+
+  constructor(options: SyncServerOptions = {}) {
+    this.options = {
+      port: options.port ?? DEFAULT_PORT,
+      host: options.host ?? '127.0.0.1',
+      longPollMs: options.longPollMs ?? 25_000,
+      dataDir: options.dataDir,
+      token: options.token,
+    };
+  }
+
+  // ── public API ──────────────────────────────────────────────
+
+  /** Load saved farms and start listening. Resolves with the bound port. */
+  async start(): Promise<number> {
+    this.loadFarms();
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((err) => {
+        const status = err instanceof HttpError ? err.status : 500;
+        if (status === 500) console.error('Token Acres sync: Request failed', err);
+        this.send(res, status, { error: err instanceof Error ? err.message : String(err) });
+      });
+    });
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => resolve());
+    });
+    const address = server.address();
+    return typeof address === 'object' && address ? address.port : this.options.port;
+  }
+
+  /** Stop listening, releasing any long-polls. Resolves once pending saves finish. */
+  async stop(): Promise<void> {
+    for (const waiting of this.waiters.values()) {
+      waiting.forEach(wake => wake());
+    }
+    await new Promise<void>(resolve => {
+      if (!this.server) return resolve();
+      this.server.close(() => resolve());
+      this.server.closeIdleConnections();
+    });
+    await Promise.all(this.writes.values());
+  }
+
+  // ── internals ───────────────────────────────────────────────
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    if (this.options.token && !this.authorized(req.headers.authorization)) {
+      throw new HttpError(401, 'Missing or wrong sync token');
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const match = url.pathname.match(/^\/farms\/([^/]+)(\/deltas)?$/);
+    if (!match || !FARM_ID_PATTERN.test(match[1])) {
+      throw new HttpError(404, 'Not found');
+    }
+    const farmId = match[1];
+
+    if (!match[2] && req.method === 'GET') {
+      const since = url.searchParams.get('since');
+      if (since !== null) {
+        await this.waitForRevision(farmId, Number(since));
+      }
+      this.send(res, 200, this.response(this.requireFarm(farmId), 0));
+    } else if (!match[2] && req.method === 'PUT') {
+      const existing = this.farms.get(farmId);
+      if (existing) {
+        this.send(res, 409, this.response(existing, 0));
+        return;
+      }
+      const farm = await this.readBody<SharedFarm>(req);
+      if (!Array.isArray(farm?.plots) || !Array.isArray(farm.storehouse) || !farm.economy) {
+        throw new HttpError(400, 'Invalid farm');
+      }
+      farm.revision = 1;
+      farm.plotRevisions ??= {};
+      farm.pawns ??= [];
+      farm.upgrades ??= {};
+      farm.market ??= { day: '', items: {} };
+      this.farms.set(farmId, farm);
+      this.changed(farmId);
+      this.send(res, 201, this.response(farm, 0));
+    } else if (match[2] && req.method === 'POST') {
+      const farm = this.requireFarm(farmId);
+      const delta = await this.readBody<unknown>(req);
+      if (!isValidDelta(delta)) {
+        throw new HttpError(400, 'Invalid delta');
+      }
+      const conflicts = applyDelta(farm, delta);
+      this.changed(farmId);
+      this.send(res, 200, this.response(farm, conflicts));
+    } else {
+      throw new HttpError(405, 'Method not allowed');
+    }
+  }
+
+  /** Compare the bearer token in constant time, so its bytes can't be guessed one by one. */
+  private authorized(header: string | undefined): boolean {
+    const expected = Buffer.from(`Bearer ${this.options.token}`);
+    const actual = Buffer.from(header ?? '');
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+
+  private requireFarm(farmId: string): SharedFarm {
+    const farm = this.farms.get(farmId);
+    if (!farm) throw new HttpError(404, `No farm '${farmId}'`);
+    return farm;
+  }
+
+  private response(farm: SharedFarm, conflicts: number): SyncResponse {
+    return { farm, conflicts };
+  }
+
+  /** Resolve once the farm's revision passes `since`, or after the long-poll timeout. */
+  private waitForRevision(farmId: string, since: number): Promise<void> {
+    const farm = this.farms.get(farmId);
+    if (!farm || farm.revision > since || !this.server?.listening) return Promise.resolve();
+
+    return new Promise(resolve => {
+      const waiting = this.waiters.get(farmId) ?? new Set();
+      this.waiters.set(farmId, waiting);
+      const wake = () => {
+        clearTimeout(timer);
+        waiting.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, this.options.longPollMs);
+      waiting.add(wake);
+    });
+  }
+
+  /** Wake long-polls on a farm and save it. */
+  private changed(farmId: string) {
+    this.waiters.get(farmId)?.forEach(wake => wake());
+    this.saveFarm(farmId);
+  }
+
+  private readBody<T>(req: http.IncomingMessage): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new HttpError(413, 'Request too large'));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => {
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+        } catch {
+          reject(new HttpError(400, 'Body is not JSON'));
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  private send(res: http.ServerResponse, status: number, body: unknown) {
+    if (res.headersSent) return;
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private loadFarms() {
+    const { dataDir } = this.options;
+    if (!dataDir) return;
+
+    fs.mkdirSync(dataDir, { recursive: true });
+    for (const file of fs.readdirSync(dataDir)) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        const farm = JSON.parse(fs.readFileSync(path.join(dataDir, file), 'utf-8')) as SharedFarm;
+        // Saved before upgrades and the market were shared
+        farm.upgrades ??= {};
+        farm.market ??= { day: '', items: {} };
+        this.farms.set(path.basename(file, '.json'), farm);
+      } catch (err) {
+        console.warn(`Token Acres sync: Skipping unreadable farm ${file}`, err);
+      }
+    }
+  }
+
+  /** Write a farm to disk, one write at a time per farm (atomic via rename). */
+  private saveFarm(farmId: string) {
+    const { dataDir } = this.options;
+    const farm = this.farms.get(farmId);
+    if (!dataDir || !farm) return;
+
+    const filePath = path.join(dataDir, `${farmId}.json`);
+    const previous = this.writes.get(farmId) ?? Promise.resolve();
+    const write = previous
+      .then(async () => {
+        await fs.promises.writeFile(filePath + '.tmp', JSON.stringify(farm));
+        await fs.promises.rename(filePath + '.tmp', filePath);
+      })
+      .catch(err => console.error(`Token Acres sync: Failed to save farm ${farmId}`, err));
+    this.writes.set(farmId, write);
+  }
+}
+
+// ── command line ──────────────────────────────────────────────
+
+function parseArgs(argv: string[]): SyncServerOptions {
+  const options: SyncServerOptions = { token: process.env.TOKEN_ACRES_SYNC_TOKEN || undefined };
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--port': options.port = Number(value); i++; break;
+      case '--host': options.host = value; i++; break;
+      case '--data': options.dataDir = value; i++; break;
+      default:
+        throw new Error(`Unknown option ${argv[i]}. Usage: sync-server [--port 4747] [--host 127.0.0.1] [--data DIR]`);
+    }
+  }
+  return options;
+}
+
+if (require.main === module) {
+  const server = new SyncServer(parseArgs(process.argv.slice(2)));
+  server.start().then(
+    (port) => console.log(`Token Acres sync server listening on port ${port}`),
+    (err) => {
+      console.error('Token Acres sync: Failed to start', err);
+      process.exit(1);
+    }
+  );
+  process.on('SIGINT', () => server.stop().then(() => process.exit(0)));
+  process.on('SIGTERM', () => server.stop().then(() => process.exit(0)));
+}
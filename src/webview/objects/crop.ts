@@ -8,6 +8,7 @@ export interface CropState {
   quality: 'S' | 'A' | 'B' | 'C';
   isGolden: boolean;
   tasksUntilNextStage: number;
+  pest?: boolean;
 }
 
 export class Crop extends Phaser.GameObjects.Container {
@@ -17,6 +18,7 @@ export class Crop extends Phaser.GameObjects.Container {
   private cropSprite: Phaser.GameObjects.Sprite;
   private qualityIndicator?: Phaser.GameObjects.Graphics;
   private goldenEffect?: Phaser.GameObjects.Graphics;
+  private pestEffect?: Phaser.GameObjects.Graphics;
   private progressBar?: Phaser.GameObjects.Graphics;
   private bounceAnimation?: Phaser.Tweens.Tween;
 
@@ -108,6 +110,10 @@ export class Crop extends Phaser.GameObjects.Container {
       const pulseIntensity = 0.7 + 0.3 * Math.sin(time * 0.005);
       this.cropSprite.setTint(0xffd700);
       this.cropSprite.setAlpha(pulseIntensity);
+    } else if (this.cropState.pest) {
+      // Sickly, yellowed leaves while pests feed on it
+      this.cropSprite.setTint(0xb5a642);
+      this.cropSprite.setAlpha(1);
     } else {
       this.cropSprite.clearTint();
       this.cropSprite.setAlpha(1);
@@ -119,6 +125,7 @@ export class Crop extends Phaser.GameObjects.Container {
     this.updateQualityIndicator();
     this.updateProgressBar();
     this.updateGoldenEffect();
+    this.updatePestEffect();
   }
   
   private startHarvestableAnimation() {
@@ -241,6 +248,43 @@ export class Crop extends Phaser.GameObjects.Container {
     }
   }
 
+  private updatePestEffect() {
+    if (this.cropState.pest) {
+      if (!this.pestEffect) {
+        this.pestEffect = this.createPestEffect();
+      }
+    } else if (this.pestEffect) {
+      this.scene.tweens.killTweensOf(this.pestEffect);
+      this.pestEffect.destroy();
+      this.pestEffect = undefined;
+    }
+  }
+
+  private createPestEffect(): Phaser.GameObjects.Graphics {
+    // A few beetles crawling over the leaves
+    const bugs = this.scene.add.graphics();
+    bugs.setDepth(this.depth + 0.3);
+    bugs.setPosition(this.x, this.y);
+    for (const [dx, dy] of [[-10, -6], [9, -12], [4, 9], [-7, 13]]) {
+      bugs.fillStyle(0x2d1b0e);
+      bugs.fillEllipse(dx, dy, 5, 4);
+      bugs.fillStyle(0x8e44ad);
+      bugs.fillCircle(dx + 2, dy - 1, 1);
+    }
+
+    // Jitter so they read as alive
+    this.scene.tweens.add({
+      targets: bugs,
+      x: this.x + 2,
+      angle: 6,
+      duration: 400,
+      yoyo: true,
+      repeat: -1,
+      ease: 'Sine.easeInOut',
+    });
+    return bugs;
+  }
+
   private createSparkle() {
     const sparkle = this.scene.add.graphics();
     sparkle.setDepth(this.depth + 0.4);
@@ -354,6 +398,10 @@ export class Crop extends Phaser.GameObjects.Container {
     this.qualityIndicator?.destroy();
     this.progressBar?.destroy();
     this.goldenEffect?.destroy();
+    if (this.pestEffect) {
+      this.scene.tweens.killTweensOf(this.pestEffect);
+      this.pestEffect.destroy();
+    }
     
     // Clean up hover highlight if it exists
     const highlight = this.getData('highlight');
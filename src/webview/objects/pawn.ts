@@ -8,6 +8,14 @@ export interface ItemStack {
   maxStack: number;
 }
 
+export interface PawnSessionInfo {
+  label: string;
+  terminalName?: string;
+  pid?: number;
+  startTime: number;
+  outputRate: number;
+}
+
 export interface PawnState {
   id: string;
   name: string;
@@ -17,19 +25,25 @@ export interface PawnState {
   position: { x: number; y: number };
   assignedPlot?: { x: number; y: number };
   agentSessionId?: string;
+  session?: PawnSessionInfo;
+  waitingSince?: number;
   inventory: ItemStack[];
+  owner?: string;
 }
 
 export class Pawn extends Phaser.GameObjects.Sprite {
   public pawnState: PawnState;
   private path: Array<{ col: number; row: number }> = [];
   private pathIndex = 0;
-  private moveSpeed = 80; // pixels per second
+  private static readonly BASE_MOVE_SPEED = 80; // pixels per second
+  private moveSpeed = Pawn.BASE_MOVE_SPEED;
   private onArriveCallback?: () => void;
   private scene: Phaser.Scene;
   private nameText: Phaser.GameObjects.Text;
   private moodIndicator: Phaser.GameObjects.Graphics;
   private inventoryIndicator: Phaser.GameObjects.Text;
+  private waitingBubble: Phaser.GameObjects.Text;
+  private sessionText: Phaser.GameObjects.Text;
 
   constructor(scene: Phaser.Scene, state: PawnState) {
     const pos = gridToScreen(state.position.x, state.position.y);
@@ -45,7 +59,7 @@ export class Pawn extends Phaser.GameObjects.Sprite {
     scene.add.existing(this);
 
     // Create floating name label
-    this.nameText = scene.add.text(pos.x, pos.y - 20, state.name, {
+    this.nameText = scene.add.text(pos.x, pos.y - 20, this.displayName(state), {
       fontSize: '10px',
       color: '#ffffff',
       stroke: '#000000',
@@ -64,9 +78,30 @@ export class Pawn extends Phaser.GameObjects.Sprite {
       padding: { x: 2, y: 1 }
     }).setOrigin(0.5).setDepth(this.depth + 2);
 
+    // Speech bubble shown while the pawn's agent waits for user input
+    this.waitingBubble = scene.add.text(pos.x, pos.y - 40, '💬 …', {
+      fontSize: '10px',
+      color: '#2c3e50',
+      backgroundColor: '#ffffff',
+      padding: { x: 3, y: 1 }
+    }).setOrigin(0.5).setDepth(this.depth + 2).setVisible(false);
+
+    // Agent session label under the pawn: terminal, elapsed time, output rate
+    this.sessionText = scene.add.text(pos.x, pos.y + 22, '', {
+      fontSize: '8px',
+      color: '#ecf0f1',
+      backgroundColor: '#2c3e50cc',
+      padding: { x: 2, y: 1 }
+    }).setOrigin(0.5).setDepth(this.depth + 2).setVisible(false);
+
+    // Clicking a working pawn focuses its agent's terminal (handled by MapScene)
+    this.setInteractive();
+
     this.createAnimations();
     this.updateMoodIndicator();
     this.updateInventoryIndicator();
+    this.updateWaitingBubble();
+    this.updateSessionText();
     this.updateAnimation();
 
     console.log(`Pawn ${state.name} (${state.factionColor}) created at (${state.position.x}, ${state.position.y})`);
@@ -133,9 +168,26 @@ export class Pawn extends Phaser.GameObjects.Sprite {
     }
 
     // Update visual elements
-    this.nameText.setText(newState.name);
+    this.nameText.setText(this.displayName(newState));
     this.updateMoodIndicator();
     this.updateInventoryIndicator();
+    this.updateWaitingBubble();
+    this.updateSessionText();
+  }
+
+  /**
+   * Update the agent session shown under the pawn (live output rate)
+   */
+  updateSession(session: PawnSessionInfo | undefined) {
+    this.pawnState.session = session;
+    this.updateSessionText();
+  }
+
+  /**
+   * Scale walking speed, e.g. for boots bought in the upgrade shop
+   */
+  setSpeedMultiplier(multiplier: number) {
+    this.moveSpeed = Pawn.BASE_MOVE_SPEED * multiplier;
   }
 
   /**
@@ -246,6 +298,58 @@ export class Pawn extends Phaser.GameObjects.Sprite {
     }
   }
 
+  private updateWaitingBubble() {
+    const waiting = this.pawnState.waitingSince !== undefined;
+    if (waiting === this.waitingBubble.visible) return;
+
+    this.waitingBubble.setVisible(waiting);
+    this.scene.tweens.killTweensOf(this.waitingBubble);
+    if (waiting) {
+      // Gentle pulse so a waiting agent catches the eye
+      this.waitingBubble.setAlpha(1);
+      this.scene.tweens.add({
+        targets: this.waitingBubble,
+        alpha: 0.6,
+        duration: 800,
+        yoyo: true,
+        repeat: -1,
+      });
+    }
+  }
+
+  /**
+   * A teammate's pawn on a shared farm is labelled with their user name.
+   */
+  private displayName(state: PawnState): string {
+    return state.owner ? `${state.name} (${state.owner.split('@')[0]})` : state.name;
+  }
+
+  private updateSessionText() {
+    const session = this.pawnState.agentSessionId ? this.pawnState.session : undefined;
+    if (this.input) {
+      this.input.cursor = session ? 'pointer' : 'default';
+    }
+    if (!session) {
+      this.sessionText.setVisible(false);
+      return;
+    }
+
+    const label = session.label.length > 18 ? session.label.slice(0, 17) + '…' : session.label;
+    const elapsed = Math.max(0, Math.floor((Date.now() - session.startTime) / 1000));
+    const clock = elapsed >= 3600
+      ? `${Math.floor(elapsed / 3600)}h${String(Math.floor(elapsed / 60) % 60).padStart(2, '0')}`
+      : `${Math.floor(elapsed / 60)}:${String(elapsed % 60).padStart(2, '0')}`;
+    const rate = session.outputRate >= 1024
+      ? `${(session.outputRate / 1024).toFixed(1)} KB/s`
+      : `${Math.round(session.outputRate)} B/s`;
+
+    const text = `${label} · ${clock} · ${rate}`;
+    if (this.sessionText.text !== text) {
+      this.sessionText.setText(text);
+    }
+    this.sessionText.setVisible(true);
+  }
+
   update(delta: number) {
     this.updateMovement(delta);
     this.updateVisualElements();
@@ -295,6 +399,15 @@ export class Pawn extends Phaser.GameObjects.Sprite {
     // Update inventory indicator position
     this.inventoryIndicator.setPosition(this.x + 15, this.y - 30);
 
+    // Update waiting bubble position
+    this.waitingBubble.setPosition(this.x, this.y - 40);
+
+    // Update session label position and elapsed time
+    this.sessionText.setPosition(this.x, this.y + 22);
+    if (this.sessionText.visible) {
+      this.updateSessionText();
+    }
+
     // Update mood indicator position
     this.moodIndicator.setPosition(0, 0); // Reset transform
     this.updateMoodIndicator(); // Redraw at current position
@@ -330,6 +443,8 @@ export class Pawn extends Phaser.GameObjects.Sprite {
     this.nameText.destroy();
     this.moodIndicator.destroy();
     this.inventoryIndicator.destroy();
+    this.waitingBubble.destroy();
+    this.sessionText.destroy();
     super.destroy(fromScene);
   }
 }
\ No newline at end of file
@@ -15,6 +15,7 @@ export class PlayerController {
   private moveSpeed = 100; // pixels per second
   private gridPosition = { col: 4, row: 4 };
   private targetPosition?: { x: number; y: number };
+  private onArriveCallback?: () => void;
   private isMoving = false;
   private previousPosition = { x: 0, y: 0 };
 
@@ -170,6 +171,10 @@ export class PlayerController {
       if (!this.sprite.anims.isPlaying || this.sprite.anims.currentAnim?.key !== 'player-idle-anim') {
         this.sprite.play('player-idle-anim');
       }
+
+      const onArrive = this.onArriveCallback;
+      this.onArriveCallback = undefined;
+      onArrive?.();
     } else {
       // Move towards target
       const speed = this.moveSpeed * (delta / 1000);
@@ -181,6 +186,7 @@ export class PlayerController {
       if (!this.isWalkable(newGrid.col, newGrid.row)) {
         // Cancel movement — stop at current position
         this.targetPosition = undefined;
+        this.onArriveCallback = undefined;
         this.isMoving = false;
         if (!this.sprite.anims.isPlaying || this.sprite.anims.currentAnim?.key !== 'player-idle-anim') {
           this.sprite.play('player-idle-anim');
@@ -229,12 +235,15 @@ export class PlayerController {
   }
 
   /**
-   * Move to a specific grid position
+   * Move to a specific grid position, calling `onArrive` once there.
+   * Returns false when the tile can't be walked to.
    */
-  moveToGrid(col: number, row: number) {
-    if (!this.isWalkable(col, row)) return; // Don't move to non-walkable tiles
+  moveToGrid(col: number, row: number, onArrive?: () => void): boolean {
+    if (!this.isWalkable(col, row)) return false; // Don't move to non-walkable tiles
     const targetScreen = gridToScreen(col, row);
     this.targetPosition = { x: targetScreen.x + 32, y: targetScreen.y + 32 }; // Center on tile
+    this.onArriveCallback = onArrive;
+    return true;
   }
 
   /**
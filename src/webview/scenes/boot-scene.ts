@@ -81,7 +81,6 @@ export class BootScene extends Phaser.Scene {
     assetText.destroy();
 
     // Start game
-    this.registry.set('gridSize', 16);
     this.createAnimations();
     this.scene.start('MapScene', { mapId: 'farm' });
   }
@@ -1,11 +1,41 @@
 import Phaser from 'phaser';
 import { MessageBridge } from '../message-bridge';
 import { PlayerController } from '../objects/player';
+import { Pawn } from '../objects/pawn';
 import { PawnManager } from '../systems/pawn-manager';
 import { CropManager } from '../systems/crop-manager';
 import { CameraController } from '../systems/camera';
 import { DayNightSystem } from '../systems/day-night';
-import { gridToScreen, generateFarmWalkableGrid } from '../utils/grid';
+import { gridToScreen, screenToGrid } from '../utils/grid';
+import { PlotState } from '../systems/crop-manager';
+
+// Mirrors Building in the extension host
+interface Building {
+  type: string;
+  position: { x: number; y: number };
+}
+
+interface IslandBounds {
+  minCol: number;
+  maxCol: number;
+  minRow: number;
+  maxRow: number;
+}
+
+// Grass shore around the plots, and open water beyond the island
+const SHORE_WIDTH = 1;
+const WATER_MARGIN = 4;
+const WATER_ROCK_DISTANCE = 3;
+
+// Buildings pawns can't walk through (they walk up to the storehouse)
+const BLOCKING_BUILDINGS = ['house', 'barn'];
+
+// Tiles from the player a tool reaches; mirrors TOOL_REACH in the extension host
+const TOOL_REACH = 1;
+
+const TREE_TYPES = ['tree1', 'tree2', 'tree3', 'tree4'];
+const DECORATION_TYPES = ['bush1', 'bush2', 'rock1', 'rock2'];
+const WATER_ROCK_TYPES = ['water-rock1', 'water-rock2', 'water-rock3', 'water-rock4'];
 
 export class MapScene extends Phaser.Scene {
   private playerController?: PlayerController;
@@ -14,6 +44,9 @@ export class MapScene extends Phaser.Scene {
   private cameraController?: CameraController;
   private dayNight?: DayNightSystem;
   private currentMapId: string = 'farm';
+  private terrain: Phaser.GameObjects.GameObject[] = [];
+  private islandKey = '';
+  private toolCursor?: Phaser.GameObjects.Graphics;
 
   constructor() {
     super({ key: 'MapScene' });
@@ -80,48 +113,82 @@ export class MapScene extends Phaser.Scene {
       }
     }
 
-    // Create the rectangular farm layout (converted from isometric)
-    this.createWaterBackground();
-    this.createElevatedIsland();
-    this.createWaterFoam();
-    this.placeBuildingsAndDecorations();
-    this.placeWaterDecorations();
+    // The island itself is built from the farm's plots once state arrives
+  }
 
-    // Store walkable grid for pathfinding (only the island area is walkable)
-    const gridSize = this.registry.get('gridSize') || 16;
-    const walkableGrid = this.generateIslandWalkableGrid(gridSize);
+  /**
+   * Rebuild the island when the farm's land or buildings change. The island
+   * covers the plots plus a grass shore; only the plots are walkable.
+   */
+  private updateIsland(plots: PlotState[], buildings: Building[]) {
+    if (plots.length === 0) return;
+
+    const key = [
+      ...plots.map(p => `${p.x},${p.y}${p.type === 'water' || p.type === 'building' ? '#' : ''}`).sort(),
+      ...buildings.map(b => `${b.type}@${b.position.x},${b.position.y}`),
+    ].join(';');
+    if (key === this.islandKey) return;
+    this.islandKey = key;
+
+    this.terrain.forEach(obj => obj.destroy());
+    this.terrain = [];
+
+    const islandBounds = this.getIslandBounds(plots);
+    this.createWaterBackground(islandBounds);
+    this.createElevatedIsland(islandBounds);
+    this.createWaterFoam(islandBounds);
+    this.placeBuildingsAndDecorations(islandBounds, plots, buildings);
+    this.placeWaterDecorations(islandBounds);
+
+    // Store walkable grid for pathfinding (only the farm's plots are walkable)
+    const walkableGrid = this.generateIslandWalkableGrid(plots, buildings);
     this.registry.set('walkableGrid', walkableGrid);
+    this.registry.set('gridSize', Math.max(walkableGrid.length, walkableGrid[0].length));
+
+    this.setWorldBounds(islandBounds);
   }
 
-  private createWaterBackground() {
-    const gridSize = this.registry.get('gridSize') || 16;
+  /** Keep a terrain object so the island can be torn down and rebuilt */
+  private track<T extends Phaser.GameObjects.GameObject>(obj: T): T {
+    this.terrain.push(obj);
+    return obj;
+  }
+
+  private getIslandBounds(plots: PlotState[]): IslandBounds {
+    return {
+      minCol: Math.min(...plots.map(p => p.x)) - SHORE_WIDTH,
+      maxCol: Math.max(...plots.map(p => p.x)) + SHORE_WIDTH,
+      minRow: Math.min(...plots.map(p => p.y)) - SHORE_WIDTH,
+      maxRow: Math.max(...plots.map(p => p.y)) + SHORE_WIDTH,
+    };
+  }
+
+  private createWaterBackground(islandBounds: IslandBounds) {
+    const minCol = islandBounds.minCol - WATER_MARGIN;
+    const maxCol = islandBounds.maxCol + WATER_MARGIN;
+    const minRow = islandBounds.minRow - WATER_MARGIN;
+    const maxRow = islandBounds.maxRow + WATER_MARGIN;
 
     if (this.has('water-bg')) {
-      // Tile water background across entire rectangular game area
-      for (let row = 0; row < gridSize; row++) {
-        for (let col = 0; col < gridSize; col++) {
+      // Tile water background across the whole world around the island
+      for (let row = minRow; row <= maxRow; row++) {
+        for (let col = minCol; col <= maxCol; col++) {
           const screenPos = gridToScreen(col, row);
-          const waterBg = this.add.image(screenPos.x + 32, screenPos.y + 32, 'water-bg'); // Center on tile
+          const waterBg = this.track(this.add.image(screenPos.x + 32, screenPos.y + 32, 'water-bg')); // Center on tile
           waterBg.setDepth(-20);
         }
       }
     } else {
       // Fallback: teal background rectangle
-      const worldWidth = gridSize * 64;
-      const worldHeight = gridSize * 64;
-      const bg = this.add.graphics();
+      const origin = gridToScreen(minCol, minRow);
+      const bg = this.track(this.add.graphics());
       bg.fillStyle(0x4a9e9e);
-      bg.fillRect(0, 0, worldWidth, worldHeight);
+      bg.fillRect(origin.x, origin.y, (maxCol - minCol + 1) * 64, (maxRow - minRow + 1) * 64);
       bg.setDepth(-20);
     }
   }
 
-  private createElevatedIsland() {
-    const islandBounds = {
-      minCol: 2, maxCol: 13,
-      minRow: 3, maxRow: 12
-    };
-
+  private createElevatedIsland(islandBounds: IslandBounds) {
     const useRealTiles = this.has('terrain-elevated');
 
     for (let row = islandBounds.minRow; row <= islandBounds.maxRow; row++) {
@@ -130,14 +197,14 @@ export class MapScene extends Phaser.Scene {
 
         if (useRealTiles) {
           const tileIndex = this.getElevatedTileIndex(col, row, islandBounds);
-          const grassTile = this.add.image(screenPos.x + 32, screenPos.y + 32, 'terrain-elevated'); // Center on tile
+          const grassTile = this.track(this.add.image(screenPos.x + 32, screenPos.y + 32, 'terrain-elevated')); // Center on tile
           grassTile.setFrame(tileIndex);
           grassTile.setDepth(-5);
         } else {
           // Fallback: draw green rectangular tile
           const isEdge = row === islandBounds.minRow || row === islandBounds.maxRow ||
                          col === islandBounds.minCol || col === islandBounds.maxCol;
-          const grass = this.add.graphics();
+          const grass = this.track(this.add.graphics());
           grass.fillStyle(isEdge ? 0x4a8c3f : 0x5a9c4f);
           grass.fillRect(screenPos.x, screenPos.y, 64, 64);
           grass.setDepth(-5);
@@ -149,11 +216,9 @@ export class MapScene extends Phaser.Scene {
     if (useRealTiles) {
       this.createCliffFaces(islandBounds);
     }
-
-    this.createFarmPlots(islandBounds);
   }
 
-  private createCliffFaces(islandBounds: { minCol: number; maxCol: number; minRow: number; maxRow: number }) {
+  private createCliffFaces(islandBounds: IslandBounds) {
     // terrain-elevated.png has two 4-col blocks in a 9-col grid (frame = row*9+col):
     //   Left block (cols 0-3): cliff → walkable terrain
     //   Right block (cols 5-8): cliff → water  (the rocky cliff faces we need)
@@ -169,7 +234,7 @@ export class MapScene extends Phaser.Scene {
 
     const addCliffTile = (col: number, row: number, frame: number) => {
       const screenPos = gridToScreen(col, row);
-      const tile = this.add.image(screenPos.x + 32, screenPos.y + 32, 'terrain-elevated');
+      const tile = this.track(this.add.image(screenPos.x + 32, screenPos.y + 32, 'terrain-elevated'));
       tile.setFrame(frame);
       tile.setDepth(-6);
     };
@@ -209,7 +274,7 @@ export class MapScene extends Phaser.Scene {
     }
   }
 
-  private getElevatedTileIndex(col: number, row: number, bounds: any): number {
+  private getElevatedTileIndex(col: number, row: number, bounds: IslandBounds): number {
     // terrain-elevated.png: 9 cols × 6 rows of 64×64 tiles
     // Left block = 4 cols (0-3) × 6 rows, frame = row*9 + col
     // Reference tile → frame index:
@@ -241,33 +306,9 @@ export class MapScene extends Phaser.Scene {
     return 10;
   }
 
-  private createFarmPlots(islandBounds: any) {
-    const plotCenterCol = Math.floor((islandBounds.minCol + islandBounds.maxCol) / 2);
-    const plotCenterRow = Math.floor((islandBounds.minRow + islandBounds.maxRow) / 2);
-
-    const plotBounds = {
-      minCol: plotCenterCol - 3,
-      maxCol: plotCenterCol + 2,
-      minRow: plotCenterRow - 2,
-      maxRow: plotCenterRow + 1
-    };
-
-    for (let row = plotBounds.minRow; row <= plotBounds.maxRow; row++) {
-      for (let col = plotBounds.minCol; col <= plotBounds.maxCol; col++) {
-        const screenPos = gridToScreen(col, row);
-        const tilledOverlay = this.add.graphics();
-        tilledOverlay.fillStyle(0x8B4513, 0.8);
-        // Rectangular tilled plot instead of ellipse
-        tilledOverlay.fillRect(screenPos.x + 8, screenPos.y + 8, 48, 48);
-        tilledOverlay.setDepth(-4);
-      }
-    }
-  }
-
-  private createWaterFoam() {
+  private createWaterFoam(islandBounds: IslandBounds) {
     if (!this.has('water-foam')) return;
 
-    const islandBounds = { minCol: 2, maxCol: 13, minRow: 3, maxRow: 12 };
     const foamPositions: { col: number; row: number }[] = [];
 
     for (let col = islandBounds.minCol - 1; col <= islandBounds.maxCol + 1; col++) {
@@ -281,126 +322,123 @@ export class MapScene extends Phaser.Scene {
 
     foamPositions.forEach((pos, index) => {
       const screenPos = gridToScreen(pos.col, pos.row);
-      const foam = this.add.sprite(screenPos.x + 32, screenPos.y + 32, 'water-foam'); // Center on tile
+      const foam = this.track(this.add.sprite(screenPos.x + 32, screenPos.y + 32, 'water-foam')); // Center on tile
       foam.setDepth(-10);
       foam.setScale(0.3);
       foam.play({ key: 'water-foam-anim', delay: index * 100 });
     });
   }
 
-  private placeBuildingsAndDecorations() {
-    const islandBounds = { minCol: 2, maxCol: 13, minRow: 3, maxRow: 12 };
-
-    // Place house
-    if (this.has('house')) {
-      const housePos = gridToScreen(4, 5);
-      const house = this.add.image(housePos.x + 32, housePos.y + 32 - 30, 'house'); // Center on tile
-      house.setDepth(5);
-      house.setScale(0.8);
-    }
-
-    // Place barn
-    if (this.has('barn')) {
-      const barnPos = gridToScreen(11, 6);
-      const barn = this.add.image(barnPos.x + 32, barnPos.y + 32 - 40, 'barn'); // Center on tile
-      barn.setDepth(5);
-      barn.setScale(0.6);
+  private placeBuildingsAndDecorations(islandBounds: IslandBounds, plots: PlotState[], buildings: Building[]) {
+    for (const building of buildings) {
+      const pos = gridToScreen(building.position.x, building.position.y);
+
+      switch (building.type) {
+        case 'house':
+          if (this.has('house')) {
+            const house = this.track(this.add.image(pos.x + 32, pos.y + 32 - 30, 'house')); // Center on tile
+            house.setDepth(5);
+            house.setScale(0.8);
+          }
+          break;
+
+        case 'barn':
+          if (this.has('barn')) {
+            const barn = this.track(this.add.image(pos.x + 32, pos.y + 32 - 40, 'barn')); // Center on tile
+            barn.setDepth(5);
+            barn.setScale(0.6);
+          }
+          break;
+
+        case 'storehouse':
+          // Use barn sprite with a tint and label
+          if (this.has('barn')) {
+            const storehouse = this.track(this.add.image(pos.x + 32, pos.y + 32 - 40, 'barn'));
+            storehouse.setDepth(5);
+            storehouse.setScale(0.5);
+            storehouse.setTint(0x8B4513); // Brown tint to differentiate from barn
+
+            this.track(this.add.text(pos.x + 32, pos.y - 10, 'Storehouse', {
+              fontSize: '10px',
+              color: '#ffffff',
+              stroke: '#000000',
+              strokeThickness: 2,
+            }).setOrigin(0.5).setDepth(6));
+          }
+          break;
+      }
     }
 
-    // Place storehouse (use barn sprite with different position and label)
-    if (this.has('barn')) {
-      const storehousePos = gridToScreen(6, 1);
-      const storehouse = this.add.image(storehousePos.x + 32, storehousePos.y + 32 - 40, 'barn');
-      storehouse.setDepth(5);
-      storehouse.setScale(0.5);
-      storehouse.setTint(0x8B4513); // Brown tint to differentiate from barn
-      
-      // Add storehouse label
-      const label = this.add.text(storehousePos.x + 32, storehousePos.y - 10, 'Storehouse', {
-        fontSize: '10px',
-        color: '#ffffff',
-        stroke: '#000000',
-        strokeThickness: 2,
-      }).setOrigin(0.5).setDepth(6);
+    // Trees, bushes and rocks grow on the shore around the plots
+    const land = new Set(plots.map(p => `${p.x},${p.y}`));
+    for (let row = islandBounds.minRow; row <= islandBounds.maxRow; row++) {
+      for (let col = islandBounds.minCol; col <= islandBounds.maxCol; col++) {
+        if (land.has(`${col},${row}`)) continue;
+        // Trees on the bottom shore would hide the plots above them
+        const isBottomShore = row === islandBounds.maxRow;
+        this.placeShoreScenery(col, row, !isBottomShore);
+      }
     }
-
-    // Trees
-    this.placeTrees(islandBounds);
-
-    // Decorations (bushes, rocks)
-    this.placeIslandDecorations(islandBounds);
   }
 
-  private placeTrees(islandBounds: any) {
-    const treePositions = [
-      { col: 3, row: 4, type: 'tree1' },
-      { col: 12, row: 4, type: 'tree2' },
-      { col: 2, row: 8, type: 'tree3' },
-      { col: 13, row: 9, type: 'tree4' },
-      { col: 6, row: 3, type: 'tree1' },
-      { col: 9, row: 12, type: 'tree2' }
-    ];
+  private placeShoreScenery(col: number, row: number, allowTree: boolean) {
+    const hash = tileHash(col, row);
+    const screenPos = gridToScreen(col, row);
 
-    treePositions.forEach(tree => {
-      if (!this.has(tree.type)) return;
-      const screenPos = gridToScreen(tree.col, tree.row);
-      const treeSprite = this.add.sprite(screenPos.x + 32, screenPos.y + 32 - 40, tree.type); // Center on tile
+    if (allowTree && hash % 4 === 0) {
+      const type = TREE_TYPES[(hash >>> 4) % TREE_TYPES.length];
+      if (!this.has(type)) return;
+      const treeSprite = this.track(this.add.sprite(screenPos.x + 32, screenPos.y + 32 - 40, type)); // Center on tile
       treeSprite.setDepth(8);
       treeSprite.setScale(0.4);
-      const animKey = `${tree.type}-sway`;
+      const animKey = `${type}-sway`;
       if (this.anims.exists(animKey)) {
         treeSprite.play(animKey);
       }
-    });
-  }
-
-  private placeIslandDecorations(islandBounds: any) {
-    const decorations = [
-      { col: 5, row: 11, type: 'bush1' },
-      { col: 10, row: 5, type: 'bush2' },
-      { col: 7, row: 4, type: 'rock1' },
-      { col: 12, row: 10, type: 'rock2' },
-      { col: 3, row: 9, type: 'bush1' }
-    ];
-
-    decorations.forEach(deco => {
-      if (!this.has(deco.type)) return;
-      const screenPos = gridToScreen(deco.col, deco.row);
-      const decoration = this.add.image(screenPos.x + 32, screenPos.y + 32, deco.type); // Center on tile
+    } else if (hash % 4 === 1 && (hash >>> 4) % 2 === 0) {
+      const type = DECORATION_TYPES[(hash >>> 8) % DECORATION_TYPES.length];
+      if (!this.has(type)) return;
+      const decoration = this.track(this.add.image(screenPos.x + 32, screenPos.y + 32, type)); // Center on tile
       decoration.setDepth(2);
       decoration.setScale(0.5);
-    });
+    }
   }
 
-  private placeWaterDecorations() {
-    const waterRocks = [
-      { col: 1, row: 6, type: 'water-rock1' },
-      { col: 14, row: 8, type: 'water-rock2' },
-      { col: 7, row: 1, type: 'water-rock3' },
-      { col: 9, row: 14, type: 'water-rock4' }
-    ];
-
-    waterRocks.forEach(rock => {
-      if (!this.has(rock.type)) return;
-      const screenPos = gridToScreen(rock.col, rock.row);
-      const waterRock = this.add.image(screenPos.x + 32, screenPos.y + 32, rock.type); // Center on tile
-      waterRock.setDepth(-8);
-      waterRock.setScale(0.6);
-    });
+  private placeWaterDecorations(islandBounds: IslandBounds) {
+    // Rubber duck easter egg, bobbing off the east shore
+    const duck = { col: islandBounds.maxCol + 3, row: islandBounds.minRow + 2 };
+
+    // Rocks scattered on a ring of open water, clear of the cliffs
+    const ring = WATER_ROCK_DISTANCE;
+    for (let row = islandBounds.minRow - ring; row <= islandBounds.maxRow + ring; row++) {
+      for (let col = islandBounds.minCol - ring; col <= islandBounds.maxCol + ring; col++) {
+        const onRing = row === islandBounds.minRow - ring || row === islandBounds.maxRow + ring ||
+                       col === islandBounds.minCol - ring || col === islandBounds.maxCol + ring;
+        if (!onRing || (col === duck.col && row === duck.row)) continue;
+
+        const hash = tileHash(col, row);
+        if (hash % 9 !== 0) continue;
+        const type = WATER_ROCK_TYPES[(hash >>> 4) % WATER_ROCK_TYPES.length];
+        if (!this.has(type)) continue;
+        const screenPos = gridToScreen(col, row);
+        const waterRock = this.track(this.add.image(screenPos.x + 32, screenPos.y + 32, type)); // Center on tile
+        waterRock.setDepth(-8);
+        waterRock.setScale(0.6);
+      }
+    }
 
-    // Rubber duck easter egg
     if (this.has('rubber-duck')) {
-      const duckPos = gridToScreen(15, 5);
-      const duck = this.add.image(duckPos.x + 32, duckPos.y + 32, 'rubber-duck'); // Center on tile
-      duck.setDepth(-7);
-      duck.setScale(0.8);
+      const duckPos = gridToScreen(duck.col, duck.row);
+      const duckImage = this.track(this.add.image(duckPos.x + 32, duckPos.y + 32, 'rubber-duck')); // Center on tile
+      duckImage.setDepth(-7);
+      duckImage.setScale(0.8);
     }
   }
 
   private createPlayer(spawnPoint: string) {
     const spawnPositions: Record<string, { x: number; y: number }> = {
-      default: { x: 8, y: 7 },
-      fromTown: { x: 10, y: 10 },
+      default: { x: 4, y: 4 },
+      fromTown: { x: 4, y: 6 },
     };
 
     const spawn = spawnPositions[spawnPoint] || spawnPositions.default;
@@ -418,11 +456,62 @@ export class MapScene extends Phaser.Scene {
   }
 
   private setupInput() {
-    this.input.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+    this.input.on('pointerdown', (pointer: Phaser.Input.Pointer, currentlyOver: Phaser.GameObjects.GameObject[]) => {
+      // Clicking a working pawn focuses its agent's terminal instead of moving
+      const pawn = currentlyOver.find(obj => obj instanceof Pawn && !!obj.pawnState.agentSessionId) as Pawn | undefined;
+      if (pawn) {
+        MessageBridge.send({ type: 'focus-agent', pawnId: pawn.pawnState.id });
+        return;
+      }
+
+      // With a tool from the hotbar, clicking a tile works it instead
+      const tool: string | undefined = this.registry.get('selectedTool');
+      if (tool && pointer.leftButtonDown()) {
+        this.useTool(tool, pointer);
+        return;
+      }
+
       if (this.playerController) {
         this.playerController.handleClick(pointer);
       }
     });
+
+    // Outline the tile a selected tool would work
+    this.toolCursor = this.add.graphics().setDepth(50);
+    this.input.on('pointermove', (pointer: Phaser.Input.Pointer) => this.updateToolCursor(pointer));
+    this.registry.events.on('changedata-selectedTool', () => this.updateToolCursor(this.input.activePointer));
+  }
+
+  /**
+   * Use a tool on the clicked tile, walking over to it first when it's
+   * out of reach. The extension host decides what the tool does there.
+   */
+  private useTool(tool: string, pointer: Phaser.Input.Pointer) {
+    if (!this.playerController) return;
+    const target = this.pointerTile(pointer);
+    const send = () => MessageBridge.send({ type: 'tool-use', tool, plot: { x: target.col, y: target.row } });
+
+    const player = this.playerController.getGridPosition();
+    const inReach = Math.max(Math.abs(player.col - target.col), Math.abs(player.row - target.row)) <= TOOL_REACH;
+    if (inReach || !this.playerController.moveToGrid(target.col, target.row, send)) {
+      send();
+    }
+  }
+
+  private updateToolCursor(pointer: Phaser.Input.Pointer) {
+    if (!this.toolCursor) return;
+    this.toolCursor.clear();
+    if (!this.registry.get('selectedTool')) return;
+
+    const tile = this.pointerTile(pointer);
+    const pos = gridToScreen(tile.col, tile.row);
+    this.toolCursor.lineStyle(2, 0xf1c40f, 0.9);
+    this.toolCursor.strokeRect(pos.x + 2, pos.y + 2, 60, 60);
+  }
+
+  private pointerTile(pointer: Phaser.Input.Pointer): { col: number; row: number } {
+    const worldPoint = this.cameras.main.getWorldPoint(pointer.x, pointer.y);
+    return screenToGrid(worldPoint.x, worldPoint.y);
   }
 
   private setupMessageHandling() {
@@ -441,24 +530,36 @@ export class MapScene extends Phaser.Scene {
     MessageBridge.on('event', (event) => {
       this.handleGameEvent(event);
     });
+
+    MessageBridge.on('pawn-sessions-update', (data) => {
+      this.pawnManager?.updateSessions(data.sessions);
+    });
   }
 
   private setupCamera() {
-    const gridSize = this.registry.get('gridSize') || 16;
-    const worldWidth = gridSize * 64;
-    const worldHeight = gridSize * 64; // Square world for top-down view
-
-    // Set world and camera bounds to the rectangular world
-    this.physics.world.setBounds(0, 0, worldWidth, worldHeight);
-    this.cameras.main.setBounds(0, 0, worldWidth, worldHeight);
-
+    // World and camera bounds follow the island as it's built
     if (this.playerController && this.cameraController) {
       this.cameraController.followPlayer(this.playerController.sprite);
     }
   }
 
+  private setWorldBounds(islandBounds: IslandBounds) {
+    const origin = gridToScreen(islandBounds.minCol - WATER_MARGIN, islandBounds.minRow - WATER_MARGIN);
+    const worldWidth = (islandBounds.maxCol - islandBounds.minCol + 1 + 2 * WATER_MARGIN) * 64;
+    const worldHeight = (islandBounds.maxRow - islandBounds.minRow + 1 + 2 * WATER_MARGIN) * 64;
+
+    this.physics.world.setBounds(origin.x, origin.y, worldWidth, worldHeight);
+    this.cameras.main.setBounds(origin.x, origin.y, worldWidth, worldHeight);
+  }
+
   private handleStateUpdate(farmState: any) {
+    if (farmState.farm?.plots) {
+      this.updateIsland(farmState.farm.plots, farmState.farm.buildings ?? []);
+    }
+
     if (this.pawnManager && farmState.pawns) {
+      // Boots from the upgrade shop: +20% walk speed per level
+      this.pawnManager.setSpeedMultiplier(1 + 0.2 * (farmState.upgrades?.boots ?? 0));
       this.pawnManager.sync(farmState.pawns);
     }
 
@@ -485,6 +586,9 @@ export class MapScene extends Phaser.Scene {
       }
     }
 
+    // Budget spend sets the weather
+    this.dayNight?.updateWeather(farmState.budget?.weather ?? 'clear');
+
     MessageBridge.setState({ farmState });
   }
 
@@ -528,33 +632,36 @@ export class MapScene extends Phaser.Scene {
     return gridToScreen(gridX, gridY);
   }
 
-  private generateIslandWalkableGrid(gridSize: number): boolean[][] {
+  /**
+   * Walkable grid indexed [row][col] from the origin: every plot except
+   * water and building sites, minus the tiles under the house and barn
+   */
+  private generateIslandWalkableGrid(plots: PlotState[], buildings: Building[]): boolean[][] {
+    const rows = Math.max(...plots.map(p => p.y)) + 1;
+    const cols = Math.max(...plots.map(p => p.x)) + 1;
     const grid: boolean[][] = [];
-    const islandBounds = { minCol: 2, maxCol: 13, minRow: 3, maxRow: 12 };
 
-    for (let row = 0; row < gridSize; row++) {
+    for (let row = 0; row < rows; row++) {
       grid[row] = [];
-      for (let col = 0; col < gridSize; col++) {
+      for (let col = 0; col < cols; col++) {
         grid[row][col] = false;
       }
     }
 
-    for (let row = islandBounds.minRow; row <= islandBounds.maxRow; row++) {
-      for (let col = islandBounds.minCol; col <= islandBounds.maxCol; col++) {
-        grid[row][col] = true;
+    for (const plot of plots) {
+      if (plot.x >= 0 && plot.y >= 0) {
+        grid[plot.y][plot.x] = plot.type !== 'water' && plot.type !== 'building';
       }
     }
 
-    const buildings = [
-      { col: 4, row: 5 },
-      { col: 11, row: 6 }
-    ];
-    buildings.forEach(building => {
-      if (building.row >= 0 && building.row < gridSize &&
-          building.col >= 0 && building.col < gridSize) {
-        grid[building.row][building.col] = false;
-      }
-    });
+    buildings
+      .filter(building => BLOCKING_BUILDINGS.includes(building.type))
+      .forEach(building => {
+        const { x, y } = building.position;
+        if (y >= 0 && y < rows && x >= 0 && x < cols) {
+          grid[y][x] = false;
+        }
+      });
 
     return grid;
   }
@@ -567,3 +674,12 @@ export class MapScene extends Phaser.Scene {
     return this.currentMapId === 'farm';
   }
 }
+
+/**
+ * Stable pseudo-random number for a tile, so scenery stays put as the island grows
+ */
+function tileHash(col: number, row: number): number {
+  let hash = Math.imul(col, 374761393) + Math.imul(row, 668265263);
+  hash = Math.imul(hash ^ (hash >>> 13), 1274126177);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
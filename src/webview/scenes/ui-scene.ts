@@ -1,6 +1,45 @@
 import Phaser from 'phaser';
 import { MessageBridge } from '../message-bridge';
 
+// Mirrors MarketListing in the extension host
+interface MarketListing {
+  itemId: string;
+  name: string;
+  category: string;
+  sellValue: number;
+  baseValue: number;
+  quality: 'regular' | 'golden';
+  owned: number;
+  history: number[];
+  outOfSeason?: boolean;
+}
+
+// Mirrors UpgradeListing in the extension host
+interface UpgradeListing {
+  id: string;
+  name: string;
+  description: string;
+  level: number;
+  maxLevel: number;
+  cost?: number;
+  locked?: string;
+}
+
+// Mirrors the tool items in the extension host's item registry
+const TOOLS = [
+  { id: 'hoe', name: 'Hoe', icon: '⛏️', hint: 'till grass or path' },
+  { id: 'watering_can', name: 'Watering Can', icon: '💧', hint: 'water soil, once a day' },
+  { id: 'axe', name: 'Axe', icon: '🪓', hint: 'fell a fruit tree or break up a path' },
+  { id: 'scythe', name: 'Scythe', icon: '🌾', hint: 'cut weeds and pests, or mow a path' },
+];
+
+// Shop rows per page
+const SHOP_PAGE_SIZE = 8;
+
+// Hotbar slot size and spacing, in pixels
+const HOTBAR_SLOT = 40;
+const HOTBAR_GAP = 4;
+
 export class UIScene extends Phaser.Scene {
   private seedsText?: Phaser.GameObjects.Text;
   private pawnsText?: Phaser.GameObjects.Text;
@@ -9,6 +48,16 @@ export class UIScene extends Phaser.Scene {
   private tooltip?: Phaser.GameObjects.Container;
   private hudContainer?: Phaser.GameObjects.Container;
   private harvestText?: Phaser.GameObjects.Text;
+  private farmLogText?: Phaser.GameObjects.Text;
+  private farmLog: Array<{ message: string; timestamp: number }> = [];
+  private shopPanel?: Phaser.GameObjects.Container;
+  private shopListings?: MarketListing[];
+  private upgradeListings?: UpgradeListing[];
+  private shopTab: 'sell' | 'upgrades' = 'sell';
+  private shopPage = 0;
+  private seeds = 0;
+  private hotbar?: Phaser.GameObjects.Container;
+  private selectedTool?: string;
 
   constructor() {
     super({ key: 'UIScene' });
@@ -19,6 +68,7 @@ export class UIScene extends Phaser.Scene {
 
     // Create HUD container
     this.createHUD();
+    this.createHotbar();
 
     // Setup message handling for UI updates
     this.setupMessageHandling();
@@ -70,6 +120,16 @@ export class UIScene extends Phaser.Scene {
     
     this.harvestText = harvestText;
 
+    // Market button (below the left panel)
+    const marketButton = this.add.text(10, 96, '🛒 Market', {
+      fontSize: '12px',
+      color: '#ecf0f1',
+      backgroundColor: '#2c3e50e6',
+      padding: { x: 8, y: 4 }
+    }).setInteractive({ useHandCursor: true });
+    marketButton.on('pointerdown', () => this.toggleShop());
+    this.hudContainer.add(marketButton);
+
     // Right panel - season and efficiency
     const rightPanel = this.add.graphics();
     rightPanel.fillStyle(0x2c3e50, 0.9);
@@ -95,12 +155,21 @@ export class UIScene extends Phaser.Scene {
 
     // Controls hint (bottom right, smaller and less intrusive)
     const controlsText = this.add.text(width - 10, height - 20, 
-      'WASD/Click: Move', {
+      'WASD/Click: Move · 1-4: Tools', {
       fontSize: '10px',
       color: '#7f8c8d',
       align: 'right'
     }).setOrigin(1, 0).setScrollFactor(0).setDepth(1000);
 
+    // Farm log (bottom left above the hotbar, newest event last)
+    this.farmLogText = this.add.text(10, this.farmLogBottom(height), '', {
+      fontSize: '10px',
+      color: '#ecf0f1',
+      backgroundColor: '#2c3e50cc',
+      padding: { x: 4, y: 2 },
+      wordWrap: { width: Math.max(width - 140, 160) }
+    }).setOrigin(0, 1).setScrollFactor(0).setDepth(1000).setVisible(false);
+
     // Create tooltip container (initially hidden)
     this.createTooltip();
   }
@@ -148,6 +217,313 @@ export class UIScene extends Phaser.Scene {
     MessageBridge.on('season-change', (data) => {
       this.updateSeason(data.season);
     });
+
+    // Farm events (git rewards, harvests) go to the farm log
+    MessageBridge.on('event', (event) => {
+      this.addFarmLogEntry(event);
+    });
+
+    // Market prices and storehouse stock for the shop
+    MessageBridge.on('market-listings', (data) => {
+      this.shopListings = data.listings;
+      this.renderShop();
+    });
+
+    MessageBridge.on('upgrade-listings', (data) => {
+      this.upgradeListings = data.listings;
+      this.renderShop();
+    });
+
+    this.input.keyboard?.on('keydown-ESC', () => {
+      if (this.shopPanel) {
+        this.closeShop();
+      } else {
+        this.selectTool(undefined);
+      }
+    });
+  }
+
+  // ── hotbar ──────────────────────────────────────────────────
+
+  private createHotbar() {
+    this.hotbar = this.add.container(0, 0).setScrollFactor(0).setDepth(1000);
+    this.renderHotbar();
+
+    // Number keys pick a tool; pressing its key again puts it away
+    const keys = ['ONE', 'TWO', 'THREE', 'FOUR'];
+    TOOLS.forEach((tool, i) => {
+      this.input.keyboard?.on(`keydown-${keys[i]}`, () => this.selectTool(tool.id));
+    });
+  }
+
+  /**
+   * Draw the tool slots centred along the bottom edge, with the selected
+   * tool's name and use above them
+   */
+  private renderHotbar() {
+    const hotbar = this.hotbar;
+    if (!hotbar) return;
+    hotbar.removeAll(true);
+
+    const { width, height } = this.scale;
+    const barWidth = TOOLS.length * HOTBAR_SLOT + (TOOLS.length - 1) * HOTBAR_GAP;
+    const left = Math.round((width - barWidth) / 2);
+    const top = this.hotbarTop(height);
+
+    TOOLS.forEach((tool, i) => {
+      const x = left + i * (HOTBAR_SLOT + HOTBAR_GAP);
+      const selected = tool.id === this.selectedTool;
+
+      const slot = this.add.graphics();
+      slot.fillStyle(selected ? 0x4a6278 : 0x2c3e50, 0.9);
+      slot.fillRoundedRect(x, top, HOTBAR_SLOT, HOTBAR_SLOT, 4);
+      slot.lineStyle(selected ? 2 : 1, selected ? 0xf1c40f : 0x34495e);
+      slot.strokeRoundedRect(x, top, HOTBAR_SLOT, HOTBAR_SLOT, 4);
+      hotbar.add(slot);
+
+      hotbar.add(this.add.text(x + 3, top + 1, String(i + 1), { fontSize: '9px', color: '#95a5a6' }));
+      hotbar.add(this.add.text(x + HOTBAR_SLOT / 2, top + HOTBAR_SLOT / 2, tool.icon, { fontSize: '20px' }).setOrigin(0.5));
+
+      // Interactive, so clicking a slot doesn't also reach the map
+      const hitArea = this.add.zone(x, top, HOTBAR_SLOT, HOTBAR_SLOT).setOrigin(0).setInteractive({ useHandCursor: true });
+      hitArea.on('pointerdown', () => this.selectTool(tool.id));
+      hotbar.add(hitArea);
+    });
+
+    const tool = TOOLS.find(t => t.id === this.selectedTool);
+    if (tool) {
+      hotbar.add(this.add.text(width / 2, top - 4, `${tool.name}: ${tool.hint}`, {
+        fontSize: '10px',
+        color: '#ecf0f1',
+        backgroundColor: '#2c3e50cc',
+        padding: { x: 4, y: 2 }
+      }).setOrigin(0.5, 1));
+    }
+  }
+
+  /** Pick a tool, or put it away when it's already in hand */
+  private selectTool(toolId: string | undefined) {
+    this.selectedTool = toolId === this.selectedTool ? undefined : toolId;
+    this.registry.set('selectedTool', this.selectedTool);
+    this.renderHotbar();
+  }
+
+  private hotbarTop(height: number): number {
+    return height - 28 - HOTBAR_SLOT;
+  }
+
+  /** Bottom of the farm log, clear of the hotbar and its tool hint */
+  private farmLogBottom(height: number): number {
+    return this.hotbarTop(height) - 24;
+  }
+
+  // ── market ──────────────────────────────────────────────────
+
+  private toggleShop() {
+    if (this.shopPanel) {
+      this.closeShop();
+      return;
+    }
+    this.shopPage = 0;
+    this.shopListings = undefined;
+    this.upgradeListings = undefined;
+    this.shopPanel = this.add.container(0, 0).setScrollFactor(0).setDepth(1500);
+    this.renderShop();
+    MessageBridge.send({ type: 'market-open' });
+  }
+
+  private closeShop() {
+    this.shopPanel?.destroy();
+    this.shopPanel = undefined;
+  }
+
+  /**
+   * Draw the shop: the Sell tab lists storehouse items the market buys,
+   * most valuable stock first; the Upgrades tab lists the upgrade catalog.
+   */
+  private renderShop() {
+    const panel = this.shopPanel;
+    if (!panel) return;
+    panel.removeAll(true);
+
+    const selling = this.shopTab === 'sell';
+    const stock = (this.shopListings ?? [])
+      .filter(listing => listing.owned > 0)
+      .sort((a, b) => b.sellValue * b.owned - a.sellValue * a.owned);
+    const upgrades = this.upgradeListings ?? [];
+    const loaded = selling ? this.shopListings : this.upgradeListings;
+    const count = selling ? stock.length : upgrades.length;
+
+    const { width, height } = this.scale;
+    const rowHeight = selling ? 24 : 38;
+    const pageSize = Math.max(1, Math.min(SHOP_PAGE_SIZE, Math.floor((height - 104) / rowHeight)));
+    const pages = Math.max(1, Math.ceil(count / pageSize));
+    this.shopPage = Math.min(this.shopPage, pages - 1);
+    const first = this.shopPage * pageSize;
+    const shown = Math.min(pageSize, count - first);
+
+    const panelWidth = Math.min(380, width - 20);
+    const panelHeight = 84 + Math.max(shown, 1) * rowHeight;
+    const left = Math.round((width - panelWidth) / 2);
+    const top = Math.round(Math.max(10, (height - panelHeight) / 2));
+
+    // Background swallows clicks so they don't reach the map below
+    const background = this.add.graphics();
+    background.fillStyle(0x2c3e50, 0.97);
+    background.fillRoundedRect(left, top, panelWidth, panelHeight, 6);
+    background.lineStyle(2, 0x34495e);
+    background.strokeRoundedRect(left, top, panelWidth, panelHeight, 6);
+    background.setInteractive(new Phaser.Geom.Rectangle(left, top, panelWidth, panelHeight), Phaser.Geom.Rectangle.Contains);
+    panel.add(background);
+
+    panel.add(this.add.text(left + 10, top + 10, '🛒 Market', {
+      fontSize: '14px',
+      color: '#f1c40f',
+      fontStyle: 'bold'
+    }));
+    this.addShopButton(left + 100, top + 9, selling ? '[Sell]' : 'Sell', () => this.switchShopTab('sell'));
+    this.addShopButton(left + 150, top + 9, selling ? 'Upgrades' : '[Upgrades]', () => this.switchShopTab('upgrades'));
+    this.addShopButton(left + panelWidth - 24, top + 8, '✕', () => this.closeShop());
+
+    if (!loaded) {
+      panel.add(this.add.text(left + 10, top + 40, 'Loading…', { fontSize: '12px', color: '#95a5a6' }));
+    } else if (count === 0) {
+      panel.add(this.add.text(left + 10, top + 40, 'Nothing to sell yet. Harvests go to the storehouse.', {
+        fontSize: '12px',
+        color: '#95a5a6',
+        wordWrap: { width: panelWidth - 20 }
+      }));
+    } else if (selling) {
+      stock.slice(first, first + shown).forEach((listing, i) => this.renderSellRow(listing, left, top + 40 + i * rowHeight, panelWidth));
+    } else {
+      upgrades.slice(first, first + shown).forEach((listing, i) => this.renderUpgradeRow(listing, left, top + 40 + i * rowHeight, panelWidth));
+    }
+
+    // Footer: stock value or seeds to spend, and paging
+    const footerY = top + panelHeight - 28;
+    const total = stock.reduce((sum, listing) => sum + listing.sellValue * listing.owned, 0);
+    panel.add(this.add.text(left + 10, footerY, selling ? `Stock worth ${total}🌱` : `You have ${this.seeds}🌱`, {
+      fontSize: '11px',
+      color: '#95a5a6'
+    }));
+    if (pages > 1) {
+      panel.add(this.add.text(left + panelWidth - 70, footerY, `${this.shopPage + 1}/${pages}`, { fontSize: '11px', color: '#95a5a6' }));
+      this.addShopButton(left + panelWidth - 100, footerY - 2, '◀', () => this.turnShopPage(-1, pages));
+      this.addShopButton(left + panelWidth - 34, footerY - 2, '▶', () => this.turnShopPage(1, pages));
+    }
+  }
+
+  private renderSellRow(listing: MarketListing, left: number, y: number, panelWidth: number) {
+    const panel = this.shopPanel!;
+    const golden = listing.quality === 'golden';
+    panel.add(this.add.text(left + 10, y, `${golden ? '✨' : ''}${listing.name} ×${listing.owned}`, {
+      fontSize: '12px',
+      color: golden ? '#f1c40f' : '#ecf0f1'
+    }));
+    this.drawSparkline(panel, listing.history, left + panelWidth - 196, y + 1, 48, 12);
+    // Green above the base price, red below; ☀ marks an out-of-season premium
+    const color = listing.sellValue > listing.baseValue ? '#2ecc71' : listing.sellValue < listing.baseValue ? '#e74c3c' : '#ecf0f1';
+    panel.add(this.add.text(left + panelWidth - 140, y, `${listing.sellValue}🌱${listing.outOfSeason ? '☀' : ''}`, {
+      fontSize: '12px',
+      color
+    }));
+    this.addShopButton(left + panelWidth - 84, y - 2, 'Sell 1', () => this.sell(listing, 1));
+    this.addShopButton(left + panelWidth - 38, y - 2, 'All', () => this.sell(listing, listing.owned));
+  }
+
+  private renderUpgradeRow(listing: UpgradeListing, left: number, y: number, panelWidth: number) {
+    const panel = this.shopPanel!;
+    const level = listing.maxLevel > 1 ? `  ${listing.level}/${listing.maxLevel}` : '';
+    panel.add(this.add.text(left + 10, y, `${listing.name}${level}`, {
+      fontSize: '12px',
+      color: '#ecf0f1'
+    }));
+    panel.add(this.add.text(left + 10, y + 15, listing.locked ? `🔒 ${listing.locked}` : listing.description, {
+      fontSize: '10px',
+      color: listing.locked ? '#e67e22' : '#95a5a6',
+      wordWrap: { width: panelWidth - 110 }
+    }));
+
+    if (listing.cost === undefined) {
+      panel.add(this.add.text(left + panelWidth - 70, y, '✔ Owned', { fontSize: '11px', color: '#2ecc71' }));
+    } else if (listing.locked || listing.cost > this.seeds) {
+      panel.add(this.add.text(left + panelWidth - 70, y, `${listing.cost}🌱`, { fontSize: '11px', color: '#7f8c8d' }));
+    } else {
+      this.addShopButton(left + panelWidth - 80, y - 2, `Buy ${listing.cost}🌱`, () => {
+        MessageBridge.send({ type: 'buy-upgrade', upgradeType: listing.id });
+      });
+    }
+  }
+
+  /**
+   * Recent daily prices as a small line chart, scaled to their own range.
+   */
+  private drawSparkline(panel: Phaser.GameObjects.Container, history: number[], x: number, y: number, width: number, height: number) {
+    if (history.length < 2) return;
+    const min = Math.min(...history);
+    const max = Math.max(...history);
+    const range = Math.max(max - min, 1);
+    const points = history.map((price, i) => new Phaser.Math.Vector2(
+      x + (i / (history.length - 1)) * width,
+      y + height - ((price - min) / range) * height
+    ));
+
+    const line = this.add.graphics();
+    const rising = history[history.length - 1] >= history[0];
+    line.lineStyle(1, rising ? 0x2ecc71 : 0xe74c3c, 0.9);
+    line.strokePoints(points);
+    panel.add(line);
+  }
+
+  private addShopButton(x: number, y: number, label: string, onClick: () => void) {
+    const button = this.add.text(x, y, label, {
+      fontSize: '11px',
+      color: '#ecf0f1',
+      backgroundColor: '#34495e',
+      padding: { x: 4, y: 2 }
+    }).setInteractive({ useHandCursor: true });
+    button.on('pointerover', () => button.setBackgroundColor('#4a6278'));
+    button.on('pointerout', () => button.setBackgroundColor('#34495e'));
+    button.on('pointerdown', onClick);
+    this.shopPanel?.add(button);
+  }
+
+  private sell(listing: MarketListing, quantity: number) {
+    MessageBridge.send({ type: 'sell', itemId: listing.itemId, quantity });
+  }
+
+  private switchShopTab(tab: 'sell' | 'upgrades') {
+    this.shopTab = tab;
+    this.shopPage = 0;
+    this.renderShop();
+  }
+
+  private turnShopPage(step: number, pages: number) {
+    this.shopPage = (this.shopPage + step + pages) % pages;
+    this.renderShop();
+  }
+
+  private addFarmLogEntry(event: any) {
+    if (!event?.message || !this.farmLogText) return;
+
+    this.farmLog.push({ message: event.message, timestamp: event.timestamp || Date.now() });
+    this.farmLog = this.farmLog.slice(-4); // Keep the log short
+
+    this.farmLogText.setText(this.farmLog.map(entry => entry.message).join('\n'));
+    this.farmLogText.setAlpha(1).setVisible(true);
+
+    // Fade out when no new events arrive for a while
+    this.tweens.killTweensOf(this.farmLogText);
+    this.tweens.add({
+      targets: this.farmLogText,
+      alpha: 0,
+      delay: 20_000,
+      duration: 1000,
+      onComplete: () => {
+        this.farmLog = [];
+        this.farmLogText?.setVisible(false);
+      }
+    });
   }
 
   private updateHUD(farmState: any) {
@@ -158,6 +534,12 @@ export class UIScene extends Phaser.Scene {
       this.seedsText.setText(`🌱 ${farmState.economy.seeds}`);
     }
 
+    // Upgrade buttons depend on what the seeds can afford
+    if (farmState.economy && farmState.economy.seeds !== this.seeds) {
+      this.seeds = farmState.economy.seeds;
+      if (this.shopTab === 'upgrades') this.renderShop();
+    }
+
     // Update pawns
     if (this.pawnsText && farmState.pawns) {
       const activePawns = farmState.pawns.filter((p: any) => p.agentSessionId).length;
@@ -168,13 +550,16 @@ export class UIScene extends Phaser.Scene {
     if (this.seasonText && farmState.stats) {
       const season = farmState.stats.currentSeason;
       const emoji = this.getSeasonEmoji(season);
-      this.seasonText.setText(`${emoji} ${this.capitalizeFirst(season)}`);
+      const weather = farmState.budget?.weather;
+      const weatherEmoji = weather && weather !== 'clear' ? ` ${this.getWeatherEmoji(weather)}` : '';
+      this.seasonText.setText(`${emoji} ${this.capitalizeFirst(season)}${weatherEmoji}`);
     }
 
     // Update efficiency
     if (this.efficiencyText && farmState.stats) {
       const efficiency = Math.round(farmState.stats.lifetimeEfficiency || 0);
-      this.efficiencyText.setText(`⚡ ${efficiency}%`);
+      const streak = farmState.stats.successStreak || 0;
+      this.efficiencyText.setText(`⚡ ${efficiency}%${streak >= 3 ? ` 🔥${streak}` : ''}`);
     }
 
     // Update harvest indicator
@@ -244,7 +629,13 @@ export class UIScene extends Phaser.Scene {
         text += ' ✨GOLDEN✨';
       }
       
-      if (crop.sellValue) {
+      if (crop.watered) {
+        text += '\n💧 Watered today';
+      }
+
+      if (crop.pest) {
+        text += '\n🐛 Pests — not growing';
+      } else if (crop.sellValue) {
         text += `\nValue: ${crop.sellValue} seeds`;
       } else if (crop.tasksUntilNext > 0) {
         text += `\nGrowth: ${crop.tasksUntilNext} tasks`;
@@ -254,6 +645,12 @@ export class UIScene extends Phaser.Scene {
       text = `Plot (${data.position.x}, ${data.position.y})\n`;
       text += `Type: ${this.capitalizeFirst(plot.plotType)}\n`;
       text += `Soil: ${plot.soilHealth}%`;
+      if (plot.watered) {
+        text += '\n💧 Watered today';
+      }
+      if (plot.weeds) {
+        text += '\n🌿 Weeds — clear before planting';
+      }
     }
 
     if (text) {
@@ -310,6 +707,10 @@ export class UIScene extends Phaser.Scene {
     if (controlsHint) {
       controlsHint.setPosition(width - 10, height - 40);
     }
+
+    this.farmLogText?.setPosition(10, this.farmLogBottom(height));
+    this.renderHotbar();
+    this.renderShop();
   }
 
   private getSeasonEmoji(season: string): string {
@@ -322,6 +723,16 @@ export class UIScene extends Phaser.Scene {
     }
   }
 
+  private getWeatherEmoji(weather: string): string {
+    switch (weather) {
+      case 'cloudy': return '☁️';
+      case 'rain': return '🌧️';
+      case 'storm': return '⛈️';
+      case 'drought': return '🏜️';
+      default: return '';
+    }
+  }
+
   private capitalizeFirst(str: string): string {
     return str.charAt(0).toUpperCase() + str.slice(1);
   }
@@ -7,6 +7,7 @@ export interface PlotState {
   type: 'empty' | 'tilled' | 'planted' | 'path' | 'building' | 'water';
   crop?: CropState;
   soilHealth: number;
+  weeds?: boolean;
 }
 
 export class CropManager {
@@ -133,6 +134,10 @@ export class CropManager {
         // Health bar
         indicator.fillStyle(healthColor, 0.8);
         indicator.fillRect(pos.x + 10, pos.y - 5, healthWidth, 3);
+
+        if (plot.weeds) {
+          this.drawWeeds(indicator, pos.x, pos.y);
+        }
         break;
         
       case 'water':
@@ -160,7 +165,7 @@ export class CropManager {
     }
 
     // Add hover detection for plot interaction
-    if (plot.type === 'tilled' && !plot.crop) {
+    if (plot.type === 'tilled' && !plot.crop && !plot.weeds) {
       // Show plantable indicator on hover
       indicator.setInteractive(new Phaser.Geom.Rectangle(pos.x, pos.y, 64, 64), 
         Phaser.Geom.Rectangle.Contains);
@@ -178,6 +183,19 @@ export class CropManager {
     indicator.setPosition(0, 0);
   }
 
+  /**
+   * Draw tufts of weeds over a tilled plot
+   */
+  private drawWeeds(graphics: Phaser.GameObjects.Graphics, x: number, y: number) {
+    const tufts = [[14, 18], [40, 12], [26, 36], [50, 44], [12, 50]];
+    for (const [dx, dy] of tufts) {
+      graphics.lineStyle(2, 0x4d7c0f, 1);
+      graphics.lineBetween(x + dx, y + dy + 8, x + dx - 4, y + dy);
+      graphics.lineBetween(x + dx, y + dy + 8, x + dx, y + dy - 2);
+      graphics.lineBetween(x + dx, y + dy + 8, x + dx + 4, y + dy + 1);
+    }
+  }
+
   /**
    * Update all crops
    */
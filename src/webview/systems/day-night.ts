@@ -1,6 +1,13 @@
 import Phaser from 'phaser';
 
 export type Season = 'spring' | 'summer' | 'fall' | 'winter';
+export type Weather = 'clear' | 'cloudy' | 'rain' | 'storm' | 'drought';
+
+interface Raindrop {
+  x: number;
+  y: number;
+  speed: number;
+}
 
 export interface TimeState {
   hour: number;        // 0-23
@@ -15,6 +22,12 @@ export class DayNightSystem {
   private dayLength = 120_000; // 2 minutes = 1 full day
   private timer = 0;
   private season: Season = 'spring';
+  private weather: Weather = 'clear';
+  private weatherOverlay: Phaser.GameObjects.Rectangle;
+  private weatherAlpha = 0;
+  private rainLayer: Phaser.GameObjects.Graphics;
+  private raindrops: Raindrop[] = [];
+  private lightningTimer = 0;
   
   // Lighting configuration per season
   private readonly seasonConfig = {
@@ -44,8 +57,24 @@ export class DayNightSystem {
     },
   };
 
+  // Weather follows the agent spend budget: a tint over the lighting, plus rain
+  private readonly weatherConfig: Record<Weather, {
+    color: { r: number; g: number; b: number };
+    alpha: number;
+    drops: number;
+    lightning: boolean;
+  }> = {
+    clear:   { color: { r: 1.0, g: 1.0, b: 1.0 }, alpha: 0, drops: 0, lightning: false },
+    cloudy:  { color: { r: 0.7, g: 0.72, b: 0.78 }, alpha: 0.25, drops: 0, lightning: false },
+    rain:    { color: { r: 0.55, g: 0.6, b: 0.7 }, alpha: 0.35, drops: 80, lightning: false },
+    storm:   { color: { r: 0.4, g: 0.42, b: 0.55 }, alpha: 0.5, drops: 160, lightning: true },
+    drought: { color: { r: 1.0, g: 0.8, b: 0.5 }, alpha: 0.3, drops: 0, lightning: false },   // Parched yellow
+  };
+
   constructor(private scene: Phaser.Scene) {
     this.createOverlay();
+    this.weatherOverlay = this.createWeatherOverlay();
+    this.rainLayer = this.createRainLayer();
     this.updateLighting();
   }
 
@@ -63,19 +92,100 @@ export class DayNightSystem {
     this.scene.scale.on('resize', this.onResize, this);
   }
 
+  private createWeatherOverlay(): Phaser.GameObjects.Rectangle {
+    const { width, height } = this.scene.cameras.main;
+
+    // Tint below the day/night overlay so night still darkens a storm
+    const overlay = this.scene.add.rectangle(0, 0, width * 2, height * 2, 0xffffff, 0.0);
+    overlay.setOrigin(0.5, 0.5);
+    overlay.setScrollFactor(0);
+    overlay.setDepth(999);
+    overlay.setBlendMode(Phaser.BlendModes.MULTIPLY);
+    return overlay;
+  }
+
+  private createRainLayer(): Phaser.GameObjects.Graphics {
+    // Rain is redrawn each frame in screen space
+    const layer = this.scene.add.graphics();
+    layer.setScrollFactor(0);
+    layer.setDepth(1001);
+    return layer;
+  }
+
   private onResize() {
     const { width, height } = this.scene.cameras.main;
     this.overlay.setSize(width * 2, height * 2);
+    this.weatherOverlay.setSize(width * 2, height * 2);
   }
 
   update(time: number) {
-    this.timer += this.scene.game.loop.delta;
+    const delta = this.scene.game.loop.delta;
+    this.timer += delta;
     
     // Calculate hour progression (0-24 hours over dayLength milliseconds)
     const dayProgress = (this.timer % this.dayLength) / this.dayLength;
     this.currentHour = Math.floor(dayProgress * 24);
     
     this.updateLighting();
+    this.animateWeather(delta);
+  }
+
+  private animateWeather(delta: number) {
+    const config = this.weatherConfig[this.weather];
+
+    // Ease the tint toward the current weather over about two seconds
+    const step = delta / 2000;
+    this.weatherAlpha += Phaser.Math.Clamp(config.alpha - this.weatherAlpha, -step, step);
+    const tint = Phaser.Display.Color.GetColor(
+      Math.floor(config.color.r * 255),
+      Math.floor(config.color.g * 255),
+      Math.floor(config.color.b * 255)
+    );
+    this.weatherOverlay.setFillStyle(tint, this.weatherAlpha);
+    const cam = this.scene.cameras.main;
+    this.weatherOverlay.setPosition(cam.worldView.centerX, cam.worldView.centerY);
+
+    this.updateRain(delta, config.drops);
+
+    // Occasional lightning during storms
+    if (config.lightning) {
+      this.lightningTimer -= delta;
+      if (this.lightningTimer <= 0) {
+        cam.flash(120, 255, 255, 255, false);
+        this.lightningTimer = 6000 + Math.random() * 10_000;
+      }
+    }
+  }
+
+  private updateRain(delta: number, targetDrops: number) {
+    const { width, height } = this.scene.cameras.main;
+
+    while (this.raindrops.length < targetDrops) {
+      this.raindrops.push({ x: Math.random() * width, y: Math.random() * -height, speed: 400 + Math.random() * 300 });
+    }
+
+    this.rainLayer.clear();
+    if (this.raindrops.length === 0) return;
+
+    this.rainLayer.lineStyle(1, 0xaec6e8, 0.6);
+    const fallen: Raindrop[] = [];
+    for (const drop of this.raindrops) {
+      drop.y += drop.speed * (delta / 1000);
+      drop.x -= drop.speed * 0.15 * (delta / 1000);
+      if (drop.y > height) {
+        // Drops beyond the target fall out of view instead of vanishing when rain eases
+        if (this.raindrops.length - fallen.length > targetDrops) {
+          fallen.push(drop);
+          continue;
+        }
+        drop.y = -10;
+        drop.x = Math.random() * (width + 40);
+      }
+      this.rainLayer.lineBetween(drop.x, drop.y, drop.x - 2, drop.y + 10);
+    }
+    if (fallen.length > 0) {
+      this.raindrops = this.raindrops.filter(drop => !fallen.includes(drop));
+    }
   }
 
   private updateLighting() {
@@ -173,6 +283,14 @@ export class DayNightSystem {
     }
   }
   
+  updateWeather(newWeather: Weather) {
+    if (this.weather !== newWeather) {
+      this.weather = newWeather;
+      console.log(`Weather changed to ${newWeather}`);
+      this.lightningTimer = 0; // a storm opens with a flash
+    }
+  }
+
   private addSeasonTransitionEffect() {
     // Brief flash to indicate season change
     this.scene.cameras.main.flash(200, 255, 255, 255, false);
@@ -223,5 +341,7 @@ export class DayNightSystem {
   destroy() {
     this.scene.scale.off('resize', this.onResize, this);
     this.overlay.destroy();
+    this.weatherOverlay.destroy();
+    this.rainLayer.destroy();
   }
 }
\ No newline at end of file
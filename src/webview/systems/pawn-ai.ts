@@ -2,7 +2,7 @@ import Phaser from 'phaser';
 import { PawnState, ItemStack } from '../objects/pawn';
 
 export interface PawnTask {
-  type: 'walkToStorehouse' | 'withdrawSeeds' | 'walkToPlot' | 'plantSeed' | 'depositItems' | 'idle';
+  type: 'walkToStorehouse' | 'withdrawSeeds' | 'walkToPlot' | 'plantSeed' | 'clearPlot' | 'depositItems' | 'idle';
   targetPosition?: { x: number; y: number };
   itemId?: string;
   quantity?: number;
@@ -36,8 +36,8 @@ export class PawnAI {
    */
   private processAllPawns(pawns: Map<string, any>) {
     for (const [pawnId, pawn] of pawns) {
-      if (pawn.pawnState.agentSessionId) {
-        // Skip pawns that are assigned to agent sessions
+      if (pawn.pawnState.agentSessionId || pawn.pawnState.owner) {
+        // Skip pawns that are assigned to agent sessions or belong to teammates
         continue;
       }
 
@@ -78,12 +78,19 @@ export class PawnAI {
     const harvestedItems = pawnInventory.filter((stack: ItemStack) => 
       this.isHarvestedItem(stack.itemId)
     );
+    const infestedPlots = this.getInfestedPlots();
     
     if (harvestedItems.length > 0) {
       // Priority: deposit harvested items
       tasks.push({ type: 'walkToStorehouse' });
       tasks.push({ type: 'depositItems' });
       tasks.push({ type: 'idle' });
+    } else if (infestedPlots.length > 0) {
+      // Then pests and weeds left by failed tasks
+      const targetPlot = infestedPlots[Math.floor(Math.random() * infestedPlots.length)];
+      tasks.push({ type: 'walkToPlot', targetPosition: targetPlot });
+      tasks.push({ type: 'clearPlot', targetPosition: targetPlot });
+      tasks.push({ type: 'idle' });
     } else {
       // Check if pawn has seeds
       const seedItems = pawnInventory.filter((stack: ItemStack) => 
@@ -182,6 +189,11 @@ export class PawnAI {
         this.completeTask(pawnId);
         break;
         
+      case 'clearPlot':
+        this.clearPlotAtPosition(pawnId, pawn, task);
+        this.completeTask(pawnId);
+        break;
+        
       case 'depositItems':
         this.depositItemsToStorehouse(pawnId, pawn);
         this.completeTask(pawnId);
@@ -281,6 +293,39 @@ export class PawnAI {
     console.log(`Pawn ${pawnId} planting ${task.itemId} at (${task.targetPosition.x}, ${task.targetPosition.y})`);
   }
 
+  /**
+   * Clear pests or weeds at specific position
+   */
+  private clearPlotAtPosition(pawnId: string, pawn: any, task: PawnTask) {
+    if (!task.targetPosition) return;
+    
+    // Send message to extension host to clear the plot
+    const message = {
+      type: 'pawn-clear-plot',
+      data: { pawnId, position: task.targetPosition }
+    };
+    
+    // Send through message bridge
+    if (this.scene.registry.has('messageBridge')) {
+      const bridge = this.scene.registry.get('messageBridge');
+      bridge.send(message);
+    }
+    
+    // Play work animation
+    pawn.pawnState.state = 'working';
+    pawn.updateAnimation();
+    
+    // Return to idle after animation
+    setTimeout(() => {
+      if (pawn.pawnState.state === 'working') {
+        pawn.pawnState.state = 'idle';
+        pawn.updateAnimation();
+      }
+    }, 2000);
+    
+    console.log(`Pawn ${pawnId} clearing plot at (${task.targetPosition.x}, ${task.targetPosition.y})`);
+  }
+
   /**
    * Get storehouse position from buildings registry
    */
@@ -296,7 +341,17 @@ export class PawnAI {
   private getEmptyTilledPlots(): Array<{ x: number; y: number }> {
     const plotStates = this.scene.registry.get('plotStates') || [];
     return plotStates.filter((plot: any) => 
-      plot.type === 'tilled' && !plot.crop && plot.soilHealth > 20
+      plot.type === 'tilled' && !plot.crop && !plot.weeds && plot.soilHealth > 20
+    ).map((plot: any) => ({ x: plot.x, y: plot.y }));
+  }
+
+  /**
+   * Get list of plots with pests or weeds from scene registry
+   */
+  private getInfestedPlots(): Array<{ x: number; y: number }> {
+    const plotStates = this.scene.registry.get('plotStates') || [];
+    return plotStates.filter((plot: any) => 
+      plot.weeds || plot.crop?.pest
     ).map((plot: any) => ({ x: plot.x, y: plot.y }));
   }
 
@@ -1,5 +1,5 @@
 import Phaser from 'phaser';
-import { Pawn, PawnState } from '../objects/pawn';
+import { Pawn, PawnSessionInfo, PawnState } from '../objects/pawn';
 import { PawnAI } from './pawn-ai';
 
 export class PawnManager {
@@ -8,6 +8,7 @@ export class PawnManager {
   private idleBehaviorTimer = 0;
   private readonly IDLE_BEHAVIOR_INTERVAL = 8000; // 8 seconds
   private pawnAI: PawnAI;
+  private speedMultiplier = 1;
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
@@ -35,6 +36,7 @@ export class PawnManager {
         };
         
         const newPawn = new Pawn(this.scene, modifiedState);
+        newPawn.setSpeedMultiplier(this.speedMultiplier);
         this.pawns.set(state.id, newPawn);
         console.log(`Spawned new pawn: ${state.name} (${state.factionColor})`);
         
@@ -63,6 +65,25 @@ export class PawnManager {
     });
   }
 
+  /**
+   * Set every pawn's walking speed relative to the base speed
+   */
+  setSpeedMultiplier(multiplier: number) {
+    this.speedMultiplier = multiplier;
+    for (const pawn of this.pawns.values()) {
+      pawn.setSpeedMultiplier(multiplier);
+    }
+  }
+
+  /**
+   * Apply live session info (output rates), keyed by pawn id
+   */
+  updateSessions(sessions: Record<string, PawnSessionInfo>) {
+    for (const [id, session] of Object.entries(sessions)) {
+      this.pawns.get(id)?.updateSession(session);
+    }
+  }
+
   /**
    * Update all pawns
    */
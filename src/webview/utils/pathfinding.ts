@@ -15,15 +15,16 @@ interface Node {
 export function findPath(
   start: { col: number; row: number },
   goal: { col: number; row: number },
-  walkableGrid: boolean[][] // [col][row] = isWalkable
+  walkableGrid: boolean[][] // [row][col] = isWalkable
 ): Array<{ col: number; row: number }> {
   
   if (!walkableGrid || walkableGrid.length === 0) {
     return []; // No valid grid
   }
 
-  const gridWidth = walkableGrid.length;
-  const gridHeight = walkableGrid[0].length;
+  // Grids needn't be square once the farm has grown
+  const gridHeight = walkableGrid.length;
+  const gridWidth = walkableGrid[0].length;
 
   // Bounds check
   if (start.col < 0 || start.col >= gridWidth || start.row < 0 || start.row >= gridHeight ||
@@ -147,7 +148,7 @@ function reconstructPath(goalNode: Node): Array<{ col: number; row: number }> {
 }
 
 /**
- * Generate a basic walkable grid for a farm
+ * Generate a basic walkable grid for a farm, indexed [row][col]
  * Returns true for tiles that pawns can walk on
  */
 export function generateFarmWalkableGrid(
@@ -159,10 +160,10 @@ export function generateFarmWalkableGrid(
   const grid: boolean[][] = [];
 
   // Initialize all tiles as walkable
-  for (let col = 0; col < gridSize; col++) {
-    grid[col] = [];
-    for (let row = 0; row < gridSize; row++) {
-      grid[col][row] = true;
+  for (let row = 0; row < gridSize; row++) {
+    grid[row] = [];
+    for (let col = 0; col < gridSize; col++) {
+      grid[row][col] = true;
     }
   }
 
@@ -170,7 +171,7 @@ export function generateFarmWalkableGrid(
   buildings.forEach(building => {
     const { x, y } = building.position;
     if (x >= 0 && x < gridSize && y >= 0 && y < gridSize) {
-      grid[x][y] = false;
+      grid[y][x] = false;
     }
   });
 
@@ -178,7 +179,7 @@ export function generateFarmWalkableGrid(
   plots.forEach(plot => {
     if (plot.type === 'water') {
       if (plot.x >= 0 && plot.x < gridSize && plot.y >= 0 && plot.y < gridSize) {
-        grid[plot.x][plot.y] = false;
+        grid[plot.y][plot.x] = false;
       }
     }
   });
@@ -199,13 +200,14 @@ export function findNearestWalkable(
     return null;
   }
 
-  const gridWidth = walkableGrid.length;
-  const gridHeight = walkableGrid[0].length;
+  // Grid is indexed [row][col]
+  const gridHeight = walkableGrid.length;
+  const gridWidth = walkableGrid[0].length;
 
   // Check if target is already walkable
   if (target.col >= 0 && target.col < gridWidth &&
       target.row >= 0 && target.row < gridHeight &&
-      walkableGrid[target.col][target.row]) {
+      walkableGrid[target.row][target.col]) {
     return target;
   }
 
@@ -216,7 +218,7 @@ export function findNearestWalkable(
         // Only check the perimeter of the current ring
         if (Math.abs(col - target.col) === radius || Math.abs(row - target.row) === radius) {
           if (col >= 0 && col < gridWidth && row >= 0 && row < gridHeight &&
-              walkableGrid[col][row]) {
+              walkableGrid[row][col]) {
             return { col, row };
           }
         }